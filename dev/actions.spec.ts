@@ -0,0 +1,156 @@
+import type { PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+import type { StreamCollection } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { streamActionEndpoints } from '../src/endpoints/actions.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter({ autoTick: false })
+
+const streamCollections: StreamCollection[] = [{ slug: 'media', adapter }]
+
+const { docs, payload, reset } = createFakePayload(() => ({
+  collections: {
+    media: {
+      config: {
+        access: {
+          update: vi.fn(({ req }: { req: PayloadRequest }) =>
+            Boolean(req.user?.roles?.includes('editor')),
+          ),
+        },
+      },
+    },
+  },
+}))
+
+const doc = () => docs.media?.[0]
+
+const createRequest = (user: { roles: string[] } | null = { roles: ['editor'] }) => {
+  return {
+    payload,
+    routeParams: { id: 'doc-1', collection: 'media' },
+    user: user ? { id: 'user-1', ...user } : null,
+  } as unknown as PayloadRequest
+}
+
+const [retryEndpoint, refreshEndpoint, clearErrorEndpoint] = streamActionEndpoints({
+  streamCollections,
+})
+
+beforeEach(() => {
+  adapter.reset()
+  reset()
+  docs.media = [
+    {
+      id: 'doc-1',
+      filename: 'video.mp4',
+      mimeType: 'video/mp4',
+      stream: { error: 'Error copying video to streaming service', readyToStream: false },
+      url: 'https://example.com/video.mp4',
+    },
+  ]
+})
+
+describe('stream actions', () => {
+  test('queues the copy again after the copy failed', async () => {
+    const response = await retryEndpoint.handler(createRequest())
+
+    expect(response.status).toBe(202)
+    expect(doc().stream).toMatchObject({ error: '', videoId: '' })
+    expect(payload.jobs.queue).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        input: expect.objectContaining({ collectionSlug: 'media', documentId: 'doc-1' }),
+        task: 'payloadStreamCopyVideoFormemory',
+      }),
+    )
+    // the copy runs in the job, not in the request
+    expect(adapter.videos.size).toBe(0)
+  })
+
+  test('reports a copy that could not be queued', async () => {
+    payload.jobs.queue.mockRejectedValueOnce(new Error('Queue unavailable'))
+
+    const response = await retryEndpoint.handler(createRequest())
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toMatchObject({ error: 'Queue unavailable' })
+  })
+
+  test('deletes the failed video before copying again', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    doc().stream = {
+      error: 'The file was not recognized',
+      readyToStream: false,
+      videoId: result?.videoId,
+    }
+
+    await retryEndpoint.handler(createRequest())
+
+    expect(adapter.videos.has(result?.videoId as string)).toBe(false)
+    expect(doc().stream.videoId).toBe('')
+  })
+
+  test('refuses to copy a video that is already streaming', async () => {
+    doc().stream = { readyToStream: true, videoId: 'streaming' }
+
+    const response = await retryEndpoint.handler(createRequest())
+
+    expect(response.status).toBe(409)
+    expect(adapter.videos.size).toBe(0)
+  })
+
+  test('refreshes the status and polls again while the video is processing', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    doc().stream = { progress: 0, readyToStream: false, videoId: result?.videoId }
+    adapter.tick(result?.videoId)
+
+    const response = await refreshEndpoint.handler(createRequest())
+
+    expect(response.status).toBe(200)
+    expect(doc().stream.progress).toBe(33)
+    expect(payload.jobs.queue).toHaveBeenCalledTimes(1)
+
+    adapter.tick(result?.videoId, 2)
+    await refreshEndpoint.handler(createRequest())
+
+    expect(doc().stream.readyToStream).toBe(true)
+    expect(payload.jobs.queue).toHaveBeenCalledTimes(1)
+  })
+
+  test('does not poll again when the provider failed to process the video', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    const videoId = result?.videoId as string
+    doc().stream = { readyToStream: false, videoId }
+    adapter.failVideo(videoId, { errorReasonCode: 'ERR_NON_VIDEO' })
+    adapter.tick(videoId, 3)
+
+    await refreshEndpoint.handler(createRequest())
+
+    expect(doc().stream).toMatchObject({ errorReasonCode: 'ERR_NON_VIDEO' })
+    expect(payload.jobs.queue).not.toHaveBeenCalled()
+  })
+
+  test('clears the error', async () => {
+    doc().stream.replacementError = 'Bad Request'
+
+    const response = await clearErrorEndpoint.handler(createRequest())
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      stream: { error: '', errorAt: null, replacementError: '' },
+    })
+  })
+
+  test('rejects users who may not update the document', async () => {
+    expect((await retryEndpoint.handler(createRequest(null))).status).toBe(401)
+    expect((await retryEndpoint.handler(createRequest({ roles: ['viewer'] }))).status).toBe(403)
+    expect((await clearErrorEndpoint.handler(createRequest({ roles: ['viewer'] }))).status).toBe(
+      403,
+    )
+    expect(adapter.videos.size).toBe(0)
+    expect(doc().stream.error).toBe('Error copying video to streaming service')
+  })
+})
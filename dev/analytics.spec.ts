@@ -0,0 +1,110 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { analyticsCollectionSlug } from '../src/collections/analytics.js'
+import { analyticsService, getAnalyticsDays } from '../src/services/analyticsService.js'
+
+const adapter = memoryStreamAdapter()
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+const createRequest = (docs: JsonObject[], existing: JsonObject[] = []) => {
+  const created: JsonObject[] = []
+  const updated: JsonObject[] = []
+
+  const req = {
+    payload: {
+      create: (args: JsonObject) => {
+        created.push(args)
+        return Promise.resolve(args.data)
+      },
+      find: ({ collection }: JsonObject) =>
+        Promise.resolve(
+          collection === analyticsCollectionSlug
+            ? { docs: existing, hasNextPage: false }
+            : { docs, hasNextPage: false },
+        ),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+      update: (args: JsonObject) => {
+        updated.push(args)
+        return Promise.resolve(args.data)
+      },
+    },
+  } as unknown as PayloadRequest
+
+  return { created, req, updated }
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('analytics', () => {
+  test('lists every day of the range ending today', () => {
+    expect(getAnalyticsDays(3, now)).toEqual(['2026-03-08', '2026-03-09', '2026-03-10'])
+  })
+
+  test('stores the daily views and totals of the ready videos', async () => {
+    adapter.recordViews('v1', '2026-03-08', 12.5, 2)
+    adapter.recordViews('v1', '2026-03-10', 4)
+    adapter.recordViews('v1', '2026-02-01', 100)
+    adapter.recordViews('v2', '2026-03-09', 7)
+
+    const { created, req } = createRequest([
+      { id: 'doc-1', stream: { readyToStream: true, videoId: 'v1' } },
+    ])
+
+    const synced = await analyticsService({ adapter, req }).syncCollection({
+      collectionSlug: 'media',
+      days: 3,
+      now,
+    })
+
+    expect(synced).toBe(1)
+    expect(adapter.calls[0]).toEqual({
+      args: [['v1'], { since: '2026-03-08', until: '2026-03-10' }],
+      method: 'getAnalytics',
+    })
+    expect(created[0]).toMatchObject({
+      collection: analyticsCollectionSlug,
+      data: {
+        daily: [
+          { date: '2026-03-08', minutesViewed: 12.5, views: 2 },
+          { date: '2026-03-09', minutesViewed: 0, views: 0 },
+          { date: '2026-03-10', minutesViewed: 4, views: 1 },
+        ],
+        document: { relationTo: 'media', value: 'doc-1' },
+        documentKey: 'media:doc-1',
+        minutesViewed: 16.5,
+        videoId: 'v1',
+        views: 3,
+      },
+    })
+  })
+
+  test('replaces the analytics of documents synced before', async () => {
+    adapter.recordViews('v1', '2026-03-10', 4)
+
+    const { created, req, updated } = createRequest(
+      [{ id: 'doc-1', stream: { readyToStream: true, videoId: 'v1' } }],
+      [{ id: 'analytics-1', documentKey: 'media:doc-1' }],
+    )
+
+    await analyticsService({ adapter, req }).syncCollection({
+      collectionSlug: 'media',
+      days: 1,
+      now,
+    })
+
+    expect(created).toHaveLength(0)
+    expect(updated[0]).toMatchObject({
+      id: 'analytics-1',
+      data: { daily: [{ date: '2026-03-10', minutesViewed: 4, views: 1 }], views: 1 },
+    })
+  })
+})
@@ -1,7 +1,35 @@
+import { StreamStatusCell as StreamStatusCell_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { StreamBackfillButton as StreamBackfillButton_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
 import { getStreamPreviewField as getStreamPreviewField_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { getStreamAnalyticsField as getStreamAnalyticsField_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { DirectUploadField as DirectUploadField_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { ThumbnailScrubberField as ThumbnailScrubberField_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { StreamActionsField as StreamActionsField_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { CreateClipField as CreateClipField_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { SigningKeysView as SigningKeysView_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { SigningKeysNavLink as SigningKeysNavLink_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { getLiveInputPlayerField as getLiveInputPlayerField_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { StreamLibraryView as StreamLibraryView_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { StreamLibraryNavLink as StreamLibraryNavLink_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
+import { StreamUsageView as StreamUsageView_d61429e43de85a554985855ddf5ed3a0 } from 'payload-video-stream/rsc'
+import { StreamUsageNavLink as StreamUsageNavLink_fd85dc3ec860fa5364bfa1334544eb6a } from 'payload-video-stream/client'
 import { S3ClientUploadHandler as S3ClientUploadHandler_f97aa6c64367fa259c5bc0567239ef24 } from '@payloadcms/storage-s3/client'
 
 export const importMap = {
+  "payload-video-stream/client#StreamStatusCell": StreamStatusCell_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/client#StreamBackfillButton": StreamBackfillButton_fd85dc3ec860fa5364bfa1334544eb6a,
   "payload-video-stream/rsc#getStreamPreviewField": getStreamPreviewField_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/rsc#getStreamAnalyticsField": getStreamAnalyticsField_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/client#DirectUploadField": DirectUploadField_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/client#ThumbnailScrubberField": ThumbnailScrubberField_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/client#StreamActionsField": StreamActionsField_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/client#CreateClipField": CreateClipField_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/rsc#SigningKeysView": SigningKeysView_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/client#SigningKeysNavLink": SigningKeysNavLink_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/rsc#getLiveInputPlayerField": getLiveInputPlayerField_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/rsc#StreamLibraryView": StreamLibraryView_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/client#StreamLibraryNavLink": StreamLibraryNavLink_fd85dc3ec860fa5364bfa1334544eb6a,
+  "payload-video-stream/rsc#StreamUsageView": StreamUsageView_d61429e43de85a554985855ddf5ed3a0,
+  "payload-video-stream/client#StreamUsageNavLink": StreamUsageNavLink_fd85dc3ec860fa5364bfa1334544eb6a,
   "@payloadcms/storage-s3/client#S3ClientUploadHandler": S3ClientUploadHandler_f97aa6c64367fa259c5bc0567239ef24
 }
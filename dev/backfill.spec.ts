@@ -0,0 +1,206 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import type { StreamCollection } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { backfillsCollectionSlug } from '../src/collections/backfills.js'
+import { backfillEndpoints } from '../src/endpoints/backfill.js'
+import { backfillService } from '../src/services/backfillService.js'
+import { backfillTaskSlug } from '../src/tasks/backfill.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter()
+
+const streamCollections: StreamCollection[] = [{ slug: 'media', adapter }]
+
+const { docs, payload, queued, reset } = createFakePayload((docs) => ({
+  count: () => Promise.resolve({ totalDocs: pending().length }),
+  find: ({
+    collection,
+    limit,
+    where,
+  }: {
+    collection: string
+    limit: number
+    where: { and: { or?: { and?: JsonObject[] }[] }[] }
+  }) => {
+    if (collection === backfillsCollectionSlug) {
+      return Promise.resolve({
+        docs: (docs[collection] ?? []).filter(({ status }) => status === 'running'),
+      })
+    }
+
+    // the cursor is the second branch: created at the same time, with a greater id
+    const [createdAt, id] = where.and.find(({ or }) => or?.[1]?.and)?.or?.[1]?.and ?? []
+    const videos = pending(
+      createdAt && id
+        ? { id: id.id.greater_than, createdAt: createdAt.createdAt.equals }
+        : undefined,
+    )
+
+    return Promise.resolve({ docs: videos.slice(0, limit), hasNextPage: videos.length > limit })
+  },
+}))
+
+/**
+ * Video documents of the media collection that were never copied, after the cursor
+ * in creation order
+ */
+const pending = (cursor?: { createdAt: string; id: string }) =>
+  (docs.media ?? [])
+    .filter(
+      (doc) =>
+        doc.mimeType.startsWith('video/') &&
+        !doc.stream?.videoId &&
+        (!cursor ||
+          doc.createdAt > cursor.createdAt ||
+          (doc.createdAt === cursor.createdAt && doc.id > cursor.id)),
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+
+const createRequest = (roles = ['admin']) => {
+  return {
+    payload,
+    routeParams: { collection: 'media' },
+    user: { id: 'user-1', roles },
+  } as unknown as PayloadRequest
+}
+
+const video = (index: number, stream: JsonObject = {}) => ({
+  id: `doc-${index}`,
+  createdAt: `2026-01-01T00:00:0${index}.000Z`,
+  filename: `video-${index}.mp4`,
+  mimeType: 'video/mp4',
+  stream,
+  url: `https://example.com/video-${index}.mp4`,
+})
+
+const backfillJobs = () => queued().filter(({ task }) => task === backfillTaskSlug)
+
+const copyJobs = () =>
+  queued()
+    .filter(({ task }) => task === 'payloadStreamCopyVideoFormemory')
+    .map(({ input }) => (input as JsonObject).documentId)
+
+const [getEndpoint, startEndpoint] = backfillEndpoints({
+  access: ({ req }) => Boolean(req.user?.roles?.includes('admin')),
+  streamCollections,
+})
+
+beforeEach(() => {
+  adapter.reset()
+  reset()
+  docs.media = [
+    video(1),
+    video(2, { readyToStream: true, videoId: 'streamed' }),
+    video(3),
+    video(4),
+    { ...video(5), mimeType: 'image/png' },
+  ]
+})
+
+describe('backfill', () => {
+  test('queues the copy of the videos without a stream a batch at a time', async () => {
+    const req = createRequest()
+    const service = backfillService({ req })
+
+    const { backfill, started } = await service.start('media')
+
+    expect(started).toBe(true)
+    expect(backfill).toMatchObject({ collection: 'media', status: 'running', total: 3 })
+    expect(backfillJobs()).toHaveLength(1)
+
+    const run = () =>
+      service.runBatch({
+        backfillId: backfill.id as string,
+        concurrency: 2,
+        streamCollections,
+      })
+
+    expect(await run()).toBe(2)
+    expect(backfillJobs()).toHaveLength(2)
+    expect(await run()).toBe(1)
+    // the last batch doesn't queue another one
+    expect(backfillJobs()).toHaveLength(2)
+
+    expect(docs[backfillsCollectionSlug]?.[0]).toMatchObject({
+      failed: 0,
+      processed: 3,
+      queued: 3,
+      status: 'completed',
+    })
+    // every video is copied by its own job, not by the batch
+    expect(copyJobs()).toEqual(['doc-1', 'doc-3', 'doc-4'])
+    expect(adapter.videos.size).toBe(0)
+  })
+
+  test('does not skip videos created at the same time as the last video of a batch', async () => {
+    // bulk imported, the first batch ends among them
+    docs.media = [1, 2, 3, 4, 5].map((index) => ({
+      ...video(index),
+      createdAt: '2026-01-01T00:00:00.000Z',
+    }))
+
+    const service = backfillService({ req: createRequest() })
+    const { backfill } = await service.start('media')
+
+    for (let batch = 0; batch < 3; batch++) {
+      await service.runBatch({
+        backfillId: backfill.id as string,
+        concurrency: 2,
+        streamCollections,
+      })
+    }
+
+    expect(copyJobs()).toEqual(['doc-1', 'doc-2', 'doc-3', 'doc-4', 'doc-5'])
+    expect(docs[backfillsCollectionSlug]?.[0]).toMatchObject({
+      processed: 5,
+      status: 'completed',
+    })
+  })
+
+  test('counts the copies that could not be queued and keeps going', async () => {
+    const req = createRequest()
+    const service = backfillService({ req })
+    const { backfill } = await service.start('media')
+
+    payload.jobs.queue.mockRejectedValueOnce(new Error('Queue unavailable'))
+
+    await service.runBatch({
+      backfillId: backfill.id as string,
+      concurrency: 5,
+      streamCollections,
+    })
+
+    expect(docs[backfillsCollectionSlug]?.[0]).toMatchObject({
+      failed: 1,
+      processed: 3,
+      queued: 2,
+      status: 'completed',
+    })
+  })
+
+  test('refuses a second backfill while one is running', async () => {
+    const first = await startEndpoint.handler(createRequest())
+
+    expect(first.status).toBe(202)
+
+    const second = await startEndpoint.handler(createRequest())
+
+    expect(second.status).toBe(409)
+    expect(docs[backfillsCollectionSlug]).toHaveLength(1)
+
+    const progress = await getEndpoint.handler(createRequest())
+
+    expect(await progress.json()).toMatchObject({ backfill: { status: 'running' }, remaining: 3 })
+  })
+
+  test('rejects users without access', async () => {
+    const response = await startEndpoint.handler(createRequest(['editor']))
+
+    expect(response.status).toBe(403)
+    expect(docs[backfillsCollectionSlug]).toBeUndefined()
+  })
+})
@@ -0,0 +1,241 @@
+import type { AddressInfo } from 'net'
+
+import { createHash } from 'crypto'
+import { createServer, type IncomingMessage, type Server } from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest'
+
+import { bunnyStreamAdapter } from '../src/adapters/index.js'
+
+type RecordedRequest = {
+  accessKey?: string
+  body: string
+  method?: string
+  url?: string
+}
+
+const videos: Record<string, unknown> = {
+  'video-failed': {
+    guid: 'video-failed',
+    status: 5,
+    title: 'failed.mp4',
+  },
+  'video-new': {
+    dateUploaded: '2026-01-01T00:00:00',
+    encodeProgress: 0,
+    guid: 'video-new',
+    status: 1,
+    title: 'video.mp4',
+  },
+  'video-ready': {
+    dateUploaded: '2026-01-01T00:00:00',
+    encodeProgress: 100,
+    guid: 'video-ready',
+    height: 1080,
+    length: 42,
+    status: 4,
+    storageSize: 1024,
+    thumbnailFileName: 'thumbnail.jpg',
+    title: 'video.mp4',
+    width: 1920,
+  },
+}
+
+let requests: RecordedRequest[] = []
+let server: Server
+let baseUrl: string
+
+const readBody = (req: IncomingMessage): Promise<string> => {
+  return new Promise((resolve) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => resolve(body))
+  })
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const body = await readBody(req)
+
+    requests.push({
+      accessKey: req.headers.accesskey as string | undefined,
+      body,
+      method: req.method,
+      url: req.url,
+    })
+
+    res.setHeader('Content-Type', 'application/json')
+
+    if (req.method === 'POST' && req.url?.startsWith('/library/123/videos/fetch')) {
+      res.end(JSON.stringify({ id: 'video-new', success: true }))
+      return
+    }
+
+    const id = req.url?.replace('/library/123/videos/', '') ?? ''
+
+    if (!videos[id]) {
+      res.statusCode = 404
+      res.end(JSON.stringify({ message: 'Video not found', success: false }))
+      return
+    }
+
+    if (req.method === 'DELETE') {
+      res.end(JSON.stringify({ success: true }))
+      return
+    }
+
+    res.end(JSON.stringify(videos[id]))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests = []
+})
+
+describe('bunnyStreamAdapter', () => {
+  test('fetches the video from its url into the library', async () => {
+    const adapter = bunnyStreamAdapter({
+      apiKey: 'key',
+      baseUrl,
+      cdnHostname: 'vz-123.b-cdn.net',
+      collectionId: 'collection-1',
+      libraryId: 123,
+    })
+
+    const response = await adapter.copyVideo({
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+    })
+
+    expect(requests[0]).toMatchObject({
+      accessKey: 'key',
+      method: 'POST',
+      url: '/library/123/videos/fetch?collectionId=collection-1',
+    })
+    expect(JSON.parse(requests[0]?.body ?? '')).toEqual({
+      title: 'video.mp4',
+      url: 'https://example.com/video.mp4',
+    })
+    expect(response.result).toMatchObject({
+      created: '2026-01-01T00:00:00.000Z',
+      meta: { name: 'video.mp4' },
+      readyToStream: false,
+      status: { progress: 0, state: 'queued' },
+      videoId: 'video-new',
+    })
+  })
+
+  test('maps a finished video into a stream response', async () => {
+    const adapter = bunnyStreamAdapter({
+      apiKey: 'key',
+      baseUrl,
+      cdnHostname: 'vz-123.b-cdn.net',
+      libraryId: 123,
+    })
+
+    const response = await adapter.getStatus('video-ready')
+
+    expect(response.result).toMatchObject({
+      durationInSeconds: 42,
+      height: 1080,
+      playback: { hls: 'https://vz-123.b-cdn.net/video-ready/playlist.m3u8' },
+      readyToStream: true,
+      requireSignedURLs: false,
+      size: 1024,
+      status: { progress: 100, state: 'ready' },
+      thumbnail: 'https://vz-123.b-cdn.net/video-ready/thumbnail.jpg',
+      videoId: 'video-ready',
+      width: 1920,
+    })
+  })
+
+  test('maps encoding errors into the stream status', async () => {
+    const adapter = bunnyStreamAdapter({ apiKey: 'key', baseUrl, libraryId: 123 })
+
+    const response = await adapter.getStatus('video-failed')
+
+    expect(response.result?.readyToStream).toBe(false)
+    expect(response.result?.status).toMatchObject({
+      errorReasonCode: 'ERR_ENCODING',
+      errorReasonText: 'The video could not be encoded',
+      state: 'error',
+    })
+  })
+
+  test('throws when the video does not exist', async () => {
+    const adapter = bunnyStreamAdapter({ apiKey: 'key', baseUrl, libraryId: 123 })
+
+    await expect(adapter.getStatus('missing')).rejects.toThrow('Failed to get video status')
+    await expect(adapter.delete('missing')).rejects.toThrow('Failed to delete video')
+  })
+
+  test('deletes a video', async () => {
+    const adapter = bunnyStreamAdapter({ apiKey: 'key', baseUrl, libraryId: 123 })
+
+    await adapter.delete('video-ready')
+
+    expect(requests[0]).toMatchObject({
+      accessKey: 'key',
+      method: 'DELETE',
+      url: '/library/123/videos/video-ready',
+    })
+  })
+
+  test('signs the embed token and adds its expiry to the player url', async () => {
+    const adapter = bunnyStreamAdapter({
+      apiKey: 'key',
+      baseUrl,
+      libraryId: 123,
+      tokenAuthenticationKey: 'secret',
+    })
+
+    const signed = new URLSearchParams((await adapter.getSignedToken('video-ready')) ?? '')
+    const signedExpires = Number(signed.get('expires'))
+
+    expect(signedExpires).toBeGreaterThan(Date.now() / 1000)
+    expect(signed.get('token')).toBe(
+      createHash('sha256').update(`secretvideo-ready${signedExpires}`).digest('hex'),
+    )
+
+    const html = await adapter.getHTMLVideoPlayer({
+      error: '',
+      provider: 'bunny_stream',
+      readyToStream: true,
+      requireSignedURLs: true,
+      thumbnailUrl: '',
+      videoId: 'video-ready',
+    })
+
+    const src = new URL(/src="([^"]+)"/.exec(html ?? '')?.[1] ?? '')
+    const expires = Number(src.searchParams.get('expires'))
+
+    expect(src.origin + src.pathname).toBe('https://iframe.mediadelivery.net/embed/123/video-ready')
+    expect(expires).toBeGreaterThan(Date.now() / 1000)
+    expect(src.searchParams.get('token')).toBe(
+      createHash('sha256').update(`secretvideo-ready${expires}`).digest('hex'),
+    )
+  })
+
+  test('renders an unsigned player without a token', async () => {
+    const adapter = bunnyStreamAdapter({ apiKey: 'key', baseUrl, libraryId: 123 })
+
+    expect(await adapter.getSignedToken('video-ready')).toBeNull()
+    expect(
+      await adapter.getHTMLVideoPlayer({
+        error: '',
+        provider: 'bunny_stream',
+        readyToStream: true,
+        requireSignedURLs: false,
+        thumbnailUrl: '',
+        videoId: 'video-ready',
+      }),
+    ).toContain('src="https://iframe.mediadelivery.net/embed/123/video-ready"')
+  })
+})
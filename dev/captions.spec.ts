@@ -0,0 +1,185 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { skipCaptionSyncContext, streamingService } from '../src/services/streamingService.js'
+
+const adapter = memoryStreamAdapter()
+
+const vtt = 'WEBVTT\n\n00:00.000 --> 00:02.000\nHello'
+
+const createRequest = () => {
+  const queued: JsonObject[] = []
+  const updates: JsonObject[] = []
+
+  const req = {
+    headers: new Headers(),
+    payload: {
+      jobs: {
+        queue: (args: JsonObject) => {
+          queued.push(args)
+          return Promise.resolve(args)
+        },
+      },
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+      update: (args: JsonObject) => {
+        updates.push(args)
+        return Promise.resolve(args)
+      },
+    },
+  } as unknown as PayloadRequest
+
+  return { queued, req, updates }
+}
+
+const createVideo = async () => {
+  const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+  adapter.tick(result?.videoId, 3)
+  return result?.videoId as string
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('caption sync', () => {
+  test('uploads and generates new caption tracks once the video is ready', async () => {
+    const videoId = await createVideo()
+    const { queued, req, updates } = createRequest()
+
+    await streamingService({ adapter, req }).syncCaptions({
+      collectionSlug: 'media',
+      doc: {
+        id: 'doc-1',
+        stream: {
+          captions: [
+            {
+              id: 'en',
+              label: 'English',
+              language: 'en',
+              source: 'upload',
+              status: 'pending',
+              vtt,
+            },
+            { id: 'de', language: 'de', source: 'generated', status: 'pending' },
+          ],
+          readyToStream: true,
+          videoId,
+        },
+      },
+    })
+
+    expect(adapter.videos.get(videoId)?.captions).toEqual([
+      { generated: false, label: 'English', language: 'en', status: 'ready', vtt },
+      { generated: true, language: 'de', status: 'inprogress' },
+    ])
+    expect(updates[0]).toMatchObject({
+      context: { [skipCaptionSyncContext]: true },
+      data: {
+        stream: {
+          captions: [
+            { error: '', language: 'en', status: 'ready' },
+            { error: '', language: 'de', status: 'inprogress' },
+          ],
+        },
+      },
+    })
+    // generated captions are polled by the status task
+    expect(queued).toHaveLength(1)
+  })
+
+  test('waits for the video to be ready', async () => {
+    const { req, updates } = createRequest()
+
+    await streamingService({ adapter, req }).syncCaptions({
+      collectionSlug: 'media',
+      doc: {
+        id: 'doc-1',
+        stream: {
+          captions: [{ id: 'en', language: 'en', source: 'upload', status: 'pending', vtt }],
+          readyToStream: false,
+          videoId: 'video-1',
+        },
+      },
+    })
+
+    expect(adapter.calls).toHaveLength(0)
+    expect(updates).toHaveLength(0)
+  })
+
+  test('deletes removed tracks and skips unchanged ones', async () => {
+    const videoId = await createVideo()
+    await adapter.uploadCaption(videoId, { language: 'en', vtt })
+    await adapter.uploadCaption(videoId, { language: 'fr', vtt })
+    adapter.calls.length = 0
+
+    const { req, updates } = createRequest()
+    const english = { id: 'en', language: 'en', source: 'upload', status: 'ready', vtt }
+
+    await streamingService({ adapter, req }).syncCaptions({
+      collectionSlug: 'media',
+      doc: { id: 'doc-1', stream: { captions: [english], readyToStream: true, videoId } },
+      previousDoc: {
+        stream: {
+          captions: [english, { id: 'fr', language: 'fr', source: 'upload', status: 'ready', vtt }],
+        },
+      },
+    })
+
+    expect(adapter.calls).toEqual([{ args: [videoId, 'fr'], method: 'deleteCaption' }])
+    expect(adapter.videos.get(videoId)?.captions?.map(({ language }) => language)).toEqual(['en'])
+    expect(updates).toHaveLength(0)
+  })
+
+  test('stores the error of a failed upload on the track', async () => {
+    const videoId = await createVideo()
+    const { req, updates } = createRequest()
+
+    adapter.failNext('uploadCaption', new Error('Invalid WebVTT'))
+
+    await streamingService({ adapter, req }).syncCaptions({
+      collectionSlug: 'media',
+      doc: {
+        id: 'doc-1',
+        stream: {
+          captions: [{ id: 'en', language: 'en', source: 'upload', vtt: 'nope' }],
+          readyToStream: true,
+          videoId,
+        },
+      },
+    })
+
+    expect(updates[0]).toMatchObject({
+      data: { stream: { captions: [{ error: 'Invalid WebVTT', status: 'error' }] } },
+    })
+  })
+
+  test('updates the status of generated captions', async () => {
+    const videoId = await createVideo()
+    await adapter.generateCaption(videoId, 'de')
+
+    const { req, updates } = createRequest()
+    const service = streamingService({ adapter, req })
+    const doc = {
+      id: 'doc-1',
+      stream: {
+        captions: [{ id: 'de', language: 'de', source: 'generated', status: 'inprogress' }],
+        readyToStream: true,
+        videoId,
+      },
+    }
+
+    expect(await service.updateCaptionStatus({ collectionSlug: 'media', doc })).toBe(true)
+
+    adapter.tick(videoId)
+
+    expect(await service.updateCaptionStatus({ collectionSlug: 'media', doc })).toBe(false)
+    expect(updates[1]).toMatchObject({
+      data: { stream: { captions: [{ language: 'de', status: 'ready' }] } },
+    })
+  })
+})
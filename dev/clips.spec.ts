@@ -0,0 +1,136 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { clipEndpoint } from '../src/endpoints/clip.js'
+
+const adapter = memoryStreamAdapter()
+
+const endpoint = clipEndpoint([{ slug: 'media', adapter, clips: true }])
+
+const createRequest = (
+  source: JsonObject,
+  body: JsonObject,
+  { canCreate = true, createError }: { canCreate?: boolean; createError?: Error } = {},
+) => {
+  const created: JsonObject[] = []
+
+  const req = {
+    json: () => Promise.resolve(body),
+    payload: {
+      collections: { media: { config: { access: { create: () => canCreate } } } },
+      create: (args: JsonObject) => {
+        if (createError) {
+          return Promise.reject(createError)
+        }
+
+        created.push(args)
+        return Promise.resolve({ id: 'clip-1', ...args.data })
+      },
+      findByID: () => Promise.resolve(source),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+    },
+    routeParams: { id: 'doc-1', collection: 'media' },
+    user: { id: 'user-1' },
+  } as unknown as PayloadRequest
+
+  return { created, req }
+}
+
+const createSource = async () => {
+  const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+  adapter.tick(result?.videoId, 3)
+
+  return {
+    id: 'doc-1',
+    filename: 'video.mp4',
+    mimeType: 'video/mp4',
+    stream: { durationInSeconds: 10, readyToStream: true, videoId: result?.videoId },
+  }
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('clip endpoint', () => {
+  test('creates a document tracking the clip of a ready video', async () => {
+    const source = await createSource()
+    const { created, req } = createRequest(source, { endTimeSeconds: 6, startTimeSeconds: 2 })
+
+    const response = await endpoint.handler(req)
+    const { stream } = (await response.json()) as { stream: JsonObject }
+
+    expect(response.status).toBe(201)
+    expect(adapter.videos.get(stream.videoId as string)?.clip).toEqual({
+      endTimeSeconds: 6,
+      startTimeSeconds: 2,
+      videoId: source.stream.videoId,
+    })
+    expect(created[0]).toMatchObject({
+      collection: 'media',
+      data: {
+        filename: `clip-video-${stream.videoId as string}.mp4`,
+        mimeType: 'video/mp4',
+        stream: { clippedFrom: 'doc-1', provider: 'memory', readyToStream: false },
+      },
+      overrideAccess: false,
+    })
+  })
+
+  test('rejects clips outside of the video', async () => {
+    const { created, req } = createRequest(await createSource(), {
+      endTimeSeconds: 12,
+      startTimeSeconds: 8,
+    })
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(400)
+    expect(created).toHaveLength(0)
+  })
+
+  test('rejects videos that are not ready to stream', async () => {
+    const source = await createSource()
+    const { req } = createRequest(
+      { ...source, stream: { ...source.stream, readyToStream: false } },
+      { endTimeSeconds: 6, startTimeSeconds: 2 },
+    )
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(400)
+    expect(adapter.calls.some(({ method }) => method === 'createClip')).toBe(false)
+  })
+
+  test('does not create a clip the user may not store', async () => {
+    const { req } = createRequest(
+      await createSource(),
+      { endTimeSeconds: 6, startTimeSeconds: 2 },
+      { canCreate: false },
+    )
+
+    await expect(endpoint.handler(req)).rejects.toThrow()
+    expect(adapter.calls.some(({ method }) => method === 'createClip')).toBe(false)
+  })
+
+  test('deletes the clip from the provider when its document is not created', async () => {
+    const { req } = createRequest(
+      await createSource(),
+      { endTimeSeconds: 6, startTimeSeconds: 2 },
+      { createError: new Error('ValidationError') },
+    )
+
+    await expect(endpoint.handler(req)).rejects.toThrow('ValidationError')
+
+    const clipId = adapter.calls.find(({ method }) => method === 'delete')?.args[0]
+
+    expect(clipId).toBeDefined()
+    expect(adapter.videos.has(clipId as string)).toBe(false)
+    expect(adapter.videos.size).toBe(1)
+  })
+})
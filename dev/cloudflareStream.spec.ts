@@ -0,0 +1,487 @@
+import { generateKeyPairSync, verify } from 'crypto'
+import { afterEach, describe, expect, test, vi } from 'vitest'
+
+import { cloudflareStreamAdapter } from '../src/adapters/index.js'
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+const decode = (token: string) => {
+  const [header = '', payload = '', signature = ''] = token.split('.')
+
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+    valid: verify(
+      'RSA-SHA256',
+      Buffer.from(`${header}.${payload}`),
+      publicKey,
+      Buffer.from(signature, 'base64url'),
+    ),
+  }
+}
+
+const options = {
+  accountId: 'account',
+  apiToken: 'token',
+  customerSubdomain: 'https://customer.cloudflarestream.com',
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('cloudflareStreamAdapter status', () => {
+  test('maps the processing progress of a video', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: {
+          readyToStream: false,
+          status: { pctComplete: '45.500000', state: 'inprogress' },
+          uid: 'v1',
+        },
+        success: true,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect((await adapter.getStatus('v1')).result?.status).toMatchObject({
+      progress: 45.5,
+      state: 'inprogress',
+    })
+  })
+})
+
+describe('cloudflareStreamAdapter signed tokens', () => {
+  test('signs tokens locally with the signing key', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch')
+
+    const adapter = cloudflareStreamAdapter({
+      ...options,
+      signedTokens: {
+        accessRules: [
+          { type: 'ip.geoip.country', action: 'allow', country: ['NL', 'BE'] },
+          { type: 'ip.src', action: 'block', ip: ['192.0.2.0/24'] },
+          { type: 'any', action: 'block' },
+        ],
+        downloadable: true,
+        expiresIn: 300,
+        notBefore: -30,
+      },
+      signingKey: {
+        id: 'key-1',
+        // Cloudflare returns the key as base64 encoded PEM
+        pem: Buffer.from(privateKey.export({ type: 'pkcs1', format: 'pem' })).toString('base64'),
+      },
+    })
+
+    const now = Math.floor(Date.now() / 1000)
+    const token = decode((await adapter.getSignedToken('video-1')) as string)
+
+    expect(fetch).not.toHaveBeenCalled()
+    expect(token.valid).toBe(true)
+    expect(token.header).toEqual({ alg: 'RS256', kid: 'key-1', typ: 'JWT' })
+    expect(token.payload).toMatchObject({
+      accessRules: [
+        { type: 'ip.geoip.country', action: 'allow', country: ['NL', 'BE'] },
+        { type: 'ip.src', action: 'block', ip: ['192.0.2.0/24'] },
+        { type: 'any', action: 'block' },
+      ],
+      downloadable: true,
+      kid: 'key-1',
+      sub: 'video-1',
+    })
+    expect(token.payload.exp).toBeGreaterThanOrEqual(now + 300)
+    expect(token.payload.exp).toBeLessThanOrEqual(now + 301)
+    expect(token.payload.nbf).toBeLessThanOrEqual(now - 29)
+  })
+
+  test('accepts JWK signing keys', async () => {
+    const adapter = cloudflareStreamAdapter({
+      ...options,
+      signingKey: {
+        id: 'key-2',
+        pem: Buffer.from(JSON.stringify(privateKey.export({ format: 'jwk' }))).toString('base64'),
+      },
+    })
+
+    const token = decode((await adapter.getSignedToken('video-2')) as string)
+
+    expect(token.valid).toBe(true)
+    expect(token.payload).toMatchObject({ kid: 'key-2', sub: 'video-2' })
+    expect(token.payload).not.toHaveProperty('nbf')
+  })
+
+  test('signs with the key of the loader once it was rotated', async () => {
+    const pem = Buffer.from(privateKey.export({ type: 'pkcs1', format: 'pem' })).toString('base64')
+    const adapter = cloudflareStreamAdapter({ ...options, signingKey: { id: 'key-1', pem } })
+
+    let stored: { id: string; pem: string } | null = null
+    adapter.setSigningKeyLoader?.(() => Promise.resolve(stored))
+
+    // nothing stored yet, the configured key signs
+    expect(decode((await adapter.getSignedToken('video-1')) as string).header.kid).toBe('key-1')
+
+    stored = { id: 'key-2', pem }
+
+    const token = decode((await adapter.getSignedToken('video-1')) as string)
+
+    expect(token.valid).toBe(true)
+    expect(token.header.kid).toBe('key-2')
+  })
+
+  test('falls back to the token API without a signing key', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ result: { token: 'api-token' }, success: true }))
+
+    const adapter = cloudflareStreamAdapter({
+      ...options,
+      signedTokens: { downloadable: true, expiresIn: 60 },
+    })
+
+    expect(await adapter.getSignedToken('video-3')).toBe('api-token')
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.cloudflare.com/client/v4/accounts/account/stream/video-3/token',
+      expect.objectContaining({ method: 'POST' }),
+    )
+
+    const body = JSON.parse(fetch.mock.calls[0]?.[1]?.body as string)
+
+    expect(body).toEqual({ downloadable: true, exp: expect.any(Number) })
+  })
+})
+
+describe('cloudflareStreamAdapter captions', () => {
+  test('lists uploaded and generated captions', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: [
+          { label: 'English', language: 'en' },
+          {
+            generated: true,
+            label: 'Deutsch (auto-generated)',
+            language: 'de',
+            status: 'inprogress',
+          },
+        ],
+        success: true,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(await adapter.listCaptions?.('video-1')).toEqual([
+      { generated: false, label: 'English', language: 'en', status: 'ready' },
+      { generated: true, label: 'Deutsch (auto-generated)', language: 'de', status: 'inprogress' },
+    ])
+  })
+
+  test('uploads WebVTT files as multipart form data', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ result: { label: 'English', language: 'en' } }))
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(
+      await adapter.uploadCaption?.('video-1', {
+        label: 'English (US)',
+        language: 'en',
+        vtt: 'WEBVTT',
+      }),
+    ).toEqual({ generated: false, label: 'English (US)', language: 'en', status: 'ready' })
+
+    const [url, init] = fetch.mock.calls[0] ?? []
+    const file = (init?.body as FormData).get('file') as File
+
+    expect(url).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/account/stream/video-1/captions/en',
+    )
+    expect(init?.method).toBe('PUT')
+    expect(await file.text()).toBe('WEBVTT')
+  })
+})
+
+describe('cloudflareStreamAdapter watermarks', () => {
+  test('registers watermark profiles as multipart form data', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ result: { created: '2026-01-01', uid: 'watermark-1' } }))
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(
+      await adapter.createWatermark?.({
+        name: 'logo',
+        file: new Blob(['png'], { type: 'image/png' }),
+        opacity: 0.5,
+        position: 'lowerLeft',
+      }),
+    ).toEqual({ id: 'watermark-1', created: '2026-01-01' })
+
+    const [url, init] = fetch.mock.calls[0] ?? []
+    const body = init?.body as FormData
+
+    expect(url).toBe('https://api.cloudflare.com/client/v4/accounts/account/stream/watermarks')
+    expect(body.get('name')).toBe('logo')
+    expect(body.get('opacity')).toBe('0.5')
+    expect(body.get('position')).toBe('lowerLeft')
+    expect(body.has('scale')).toBe(false)
+    expect(await (body.get('file') as File).text()).toBe('png')
+  })
+
+  test('copies videos with the watermark uid', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ result: { readyToStream: false, uid: 'video-1' } }))
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    await adapter.copyVideo({
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+      watermarkId: 'watermark-1',
+    })
+
+    const [, init] = fetch.mock.calls[0] ?? []
+
+    expect(JSON.parse(init?.body as string)).toEqual({
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+      watermark: { uid: 'watermark-1' },
+    })
+  })
+})
+
+describe('cloudflareStreamAdapter clips', () => {
+  test('creates clips from the source video', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(
+        Response.json({ result: { readyToStream: false, uid: 'clip-1' }, success: true }),
+      )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    const response = await adapter.createClip?.({
+      endTimeSeconds: 20,
+      meta: { name: 'clip.mp4' },
+      startTimeSeconds: 5,
+      videoId: 'video-1',
+    })
+
+    const [url, init] = fetch.mock.calls[0] ?? []
+
+    expect(url).toBe('https://api.cloudflare.com/client/v4/accounts/account/stream/clip')
+    expect(JSON.parse(init?.body as string)).toEqual({
+      clippedFromVideoUID: 'video-1',
+      endTimeSeconds: 20,
+      meta: { name: 'clip.mp4' },
+      requireSignedURLs: false,
+      startTimeSeconds: 5,
+    })
+    expect(response?.result?.videoId).toBe('clip-1')
+  })
+})
+
+describe('cloudflareStreamAdapter analytics', () => {
+  test('maps the daily minutes viewed of the GraphQL Analytics API', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        data: {
+          viewer: {
+            accounts: [
+              {
+                streamMinutesViewedAdaptiveGroups: [
+                  {
+                    count: 3,
+                    dimensions: { date: '2026-03-10', uid: 'v1' },
+                    sum: { minutesViewed: 9 },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        errors: null,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+    const range = { since: '2026-03-08', until: '2026-03-10' }
+
+    expect(await adapter.getAnalytics?.(['v1'], range)).toEqual([
+      { date: '2026-03-10', minutesViewed: 9, videoId: 'v1', views: 3 },
+    ])
+
+    const [url, init] = fetch.mock.calls[0] ?? []
+
+    expect(url).toBe('https://api.cloudflare.com/client/v4/graphql')
+    expect(JSON.parse(init?.body as string).variables).toEqual({
+      accountTag: 'account',
+      since: '2026-03-08',
+      uids: ['v1'],
+      until: '2026-03-10',
+    })
+  })
+
+  test('throws the errors of the GraphQL Analytics API', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ data: null, errors: [{ message: 'not authorized' }] }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    await expect(
+      adapter.getAnalytics?.(['v1'], { since: '2026-03-08', until: '2026-03-10' }),
+    ).rejects.toThrow('not authorized')
+  })
+})
+
+describe('cloudflareStreamAdapter storage usage', () => {
+  test('maps the storage minutes of the account', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: { totalStorageMinutes: 950, totalStorageMinutesLimit: 1000, videoCount: 12 },
+        success: true,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(await adapter.getStorageUsage?.()).toEqual({
+      limitMinutes: 1000,
+      usedMinutes: 950,
+      videoCount: 12,
+    })
+    expect(fetch.mock.calls[0]?.[0]).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/account/stream/storage-usage',
+    )
+  })
+
+  test('passes the maximum duration when copying videos', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ result: { readyToStream: false, uid: 'v1' } }))
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    await adapter.copyVideo({
+      maxDurationSeconds: 300,
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+    })
+
+    expect(JSON.parse(fetch.mock.calls[0]?.[1]?.body as string)).toMatchObject({
+      maxDurationSeconds: 300,
+    })
+  })
+})
+
+describe('cloudflareStreamAdapter live inputs', () => {
+  test('creates recorded live inputs and maps their ingest urls', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: {
+          rtmps: { streamKey: 'key', url: 'rtmps://live.cloudflare.com:443/live/' },
+          srt: { passphrase: 'secret', streamId: 'stream', url: 'srt://live.cloudflare.com:778' },
+          status: null,
+          uid: 'live-1',
+        },
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(await adapter.createLiveInput?.({ meta: { name: 'Weekly event' } })).toEqual({
+      id: 'live-1',
+      rtmps: { streamKey: 'key', url: 'rtmps://live.cloudflare.com:443/live/' },
+      srt: { passphrase: 'secret', streamId: 'stream', url: 'srt://live.cloudflare.com:778' },
+      status: 'disconnected',
+    })
+
+    const [url, init] = fetch.mock.calls[0] ?? []
+
+    expect(url).toBe('https://api.cloudflare.com/client/v4/accounts/account/stream/live_inputs')
+    expect(JSON.parse(init?.body as string)).toEqual({
+      meta: { name: 'Weekly event' },
+      recording: { mode: 'automatic', requireSignedURLs: false },
+    })
+  })
+
+  test('maps the connection state of a live input', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({ result: { status: { current: { state: 'reconnected' } }, uid: 'live-1' } }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(await adapter.getLiveInput?.('live-1')).toMatchObject({ status: 'connected' })
+  })
+
+  test('lists the recordings of a live input', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: [{ created: '2026-01-01T00:00:00Z', duration: 60, readyToStream: true, uid: 'v1' }],
+        success: true,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    expect(await adapter.listLiveInputRecordings?.('live-1')).toMatchObject([
+      {
+        created: '2026-01-01T00:00:00Z',
+        durationInSeconds: 60,
+        liveInputId: 'live-1',
+        readyToStream: true,
+        videoId: 'v1',
+      },
+    ])
+    expect(fetch.mock.calls[0]?.[0]).toBe(
+      'https://api.cloudflare.com/client/v4/accounts/account/stream/live_inputs/live-1/videos',
+    )
+  })
+})
+
+describe('cloudflareStreamAdapter library', () => {
+  test('lists videos a page at a time using the upload date as cursor', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      Response.json({
+        result: [
+          {
+            created: '2026-01-02T00:00:00Z',
+            meta: { name: 'b.mp4' },
+            readyToStream: true,
+            uid: 'v2',
+          },
+          {
+            created: '2026-01-01T00:00:00Z',
+            meta: { name: 'a.mp4' },
+            readyToStream: true,
+            uid: 'v1',
+          },
+        ],
+        success: true,
+      }),
+    )
+
+    const adapter = cloudflareStreamAdapter(options)
+
+    const page = await adapter.list?.({ cursor: '2026-01-03T00:00:00Z', limit: 2, search: 'mp4' })
+
+    expect(page?.videos.map(({ videoId }) => videoId)).toEqual(['v2', 'v1'])
+    expect(page?.nextCursor).toBe('2026-01-01T00:00:00Z')
+
+    const url = new URL(fetch.mock.calls[0]?.[0] as string)
+
+    expect(url.pathname).toBe('/client/v4/accounts/account/stream')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      asc: 'false',
+      before: '2026-01-03T00:00:00Z',
+      limit: '2',
+      search: 'mp4',
+    })
+  })
+})
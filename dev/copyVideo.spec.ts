@@ -0,0 +1,164 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+import type { StreamCollection } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { copyVideo } from '../src/hooks/afterOperation.js'
+import { copyVideoTask } from '../src/tasks/index.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter()
+
+const streamCollections: StreamCollection[] = [{ slug: 'media', adapter }]
+
+/**
+ * Storage handler of the media collection, signing downloads like `s3Storage` with `signedDownloads`
+ */
+const storageHandler = vi.fn(
+  (_req: PayloadRequest, { params }: { params: { filename: string } }) =>
+    new Response(null, {
+      headers: { location: `https://bucket.example.com/media/${params.filename}?signature=1` },
+      status: 302,
+    }),
+)
+
+const { docs, queued, req, reset } = createFakePayload(() => ({
+  collections: {
+    media: {
+      config: {
+        upload: {
+          handlers: [storageHandler],
+        },
+      },
+    },
+  },
+  config: {
+    serverURL: 'http://localhost:3000',
+  },
+}))
+
+const doc = () => docs.media?.[0]
+
+const runTask = async (input: JsonObject = {}, requireSignedURLs = false) => {
+  const { handler } = copyVideoTask(adapter, { requireSignedURLs, streamCollections })
+
+  if (typeof handler !== 'function') {
+    throw new Error('Expected an inline task handler')
+  }
+
+  return await handler({
+    input: { collectionSlug: 'media', documentId: 'doc-1', ...input },
+    req,
+  } as unknown as Parameters<typeof handler>[0])
+}
+
+const queuedTasks = () => queued().map(({ task }) => task as string)
+
+beforeEach(() => {
+  adapter.reset()
+  reset()
+  storageHandler.mockClear()
+  docs.media = [
+    {
+      id: 'doc-1',
+      filename: 'video.mp4',
+      mimeType: 'video/mp4',
+      stream: { readyToStream: false },
+      url: 'https://example.com/video.mp4',
+    },
+  ]
+})
+
+describe('copy video task', () => {
+  test('is queued when a video document is created', async () => {
+    const hook = copyVideo(adapter, 'media')
+
+    await hook({ operation: 'create', req, result: doc() } as unknown as Parameters<typeof hook>[0])
+
+    expect(queuedTasks()).toEqual(['payloadStreamCopyVideoFormemory'])
+    expect(adapter.videos.size).toBe(0)
+  })
+
+  test('copies the video and chains into the status task', async () => {
+    await runTask()
+
+    expect(adapter.videos.size).toBe(1)
+    expect(doc().stream.videoId).toBe([...adapter.videos.keys()][0])
+    expect(queuedTasks()).toEqual(['payloadStreamUpdateStatusFormemory'])
+  })
+
+  test('fails so the job queue retries a failed copy', async () => {
+    adapter.failNext('copyVideo', new Error('Service Unavailable'))
+
+    await expect(runTask()).rejects.toThrow('Error copying video to streaming service')
+    expect(doc().stream.error).toBe('Error copying video to streaming service')
+
+    await runTask()
+
+    expect(doc().stream).toMatchObject({ error: '', videoId: expect.any(String) })
+    expect(adapter.videos.size).toBe(1)
+  })
+
+  test('does not copy a video twice', async () => {
+    await runTask()
+    await runTask()
+
+    expect(adapter.videos.size).toBe(1)
+    expect(adapter.calls.filter(({ method }) => method === 'copyVideo')).toHaveLength(1)
+  })
+
+  test('copies a replaced file next to the current video', async () => {
+    await runTask()
+    const videoId = doc().stream.videoId
+
+    docs.media = [{ ...doc(), filename: 'replaced.mp4', url: 'https://example.com/replaced.mp4' }]
+
+    await runTask({ replacement: true })
+
+    expect(doc().stream.videoId).toBe(videoId)
+    expect(adapter.videos.get(doc().stream.replacementVideoId)?.url).toBe(
+      'https://example.com/replaced.mp4',
+    )
+  })
+
+  test('resolves relative file urls from the server url', async () => {
+    doc().url = '/api/media/file/video.mp4'
+
+    await runTask()
+
+    expect([...adapter.videos.values()][0]?.url).toBe(
+      'http://localhost:3000/api/media/file/video.mp4',
+    )
+  })
+
+  test('signs the file url with the storage adapter when the job runs', async () => {
+    const hook = copyVideo(adapter, 'media')
+
+    await hook({ operation: 'create', req, result: doc() } as unknown as Parameters<typeof hook>[0])
+
+    const [{ input }] = queued()
+
+    // nothing is signed before the document is committed
+    expect(input).toEqual({ collectionSlug: 'media', documentId: 'doc-1' })
+    expect(storageHandler).not.toHaveBeenCalled()
+
+    await runTask(input as JsonObject, true)
+
+    expect(storageHandler).toHaveBeenCalledWith(
+      req,
+      expect.objectContaining({ params: { collection: 'media', filename: 'video.mp4' } }),
+    )
+    expect([...adapter.videos.values()][0]?.url).toBe(
+      'https://bucket.example.com/media/video.mp4?signature=1',
+    )
+  })
+
+  test('fails instead of copying an unsigned url when the storage does not sign downloads', async () => {
+    storageHandler.mockReturnValueOnce(new Response('video', { status: 200 }))
+
+    await expect(runTask({}, true)).rejects.toThrow('Error copying video to streaming service')
+    expect(adapter.videos.size).toBe(0)
+  })
+})
@@ -0,0 +1,128 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import {
+  directUploadEndpoint,
+  directUploadStatusEndpoint,
+  resumableUploadEndpoint,
+} from '../src/endpoints/directUpload.js'
+
+const adapter = memoryStreamAdapter()
+
+const streamCollections = [
+  { slug: 'media', adapter, directUploads: { maxDurationSeconds: 60 } },
+  { slug: 'documents', adapter },
+]
+
+const endpoint = directUploadEndpoint(streamCollections)
+
+const createRequest = (
+  collection: string,
+  user: JsonObject | null = { id: 'user-1' },
+  body: JsonObject = { filename: 'holiday.mp4' },
+  videoId?: string,
+) => {
+  return {
+    json: () => Promise.resolve(body),
+    payload: {
+      collections: {
+        documents: { config: { access: { create: () => true } } },
+        media: { config: { access: { create: () => true } } },
+      },
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+    },
+    routeParams: { collection, videoId },
+    user,
+  } as unknown as PayloadRequest
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('direct upload endpoint', () => {
+  test('creates a one-time upload url on the provider', async () => {
+    const response = await endpoint.handler(createRequest('media'))
+    const data = (await response.json()) as JsonObject
+
+    expect(response.status).toBe(200)
+    expect(data).toMatchObject({
+      filename: `holiday-${data.videoId}.mp4`,
+      provider: 'memory',
+      uploadURL: `https://stream.memory.local/uploads/${data.videoId}`,
+    })
+    expect(adapter.calls[0]).toEqual({
+      args: [{ maxDurationSeconds: 60, meta: { name: 'holiday.mp4' } }],
+      method: 'createDirectUpload',
+    })
+  })
+
+  test('responds with not found for collections without direct uploads', async () => {
+    const response = await endpoint.handler(createRequest('documents'))
+
+    expect(response.status).toBe(404)
+    expect(adapter.calls).toHaveLength(0)
+  })
+
+  test('rejects anonymous requests', async () => {
+    const response = await endpoint.handler(createRequest('media', null))
+
+    expect(response.status).toBe(401)
+    expect(adapter.calls).toHaveLength(0)
+  })
+})
+
+describe('resumable upload endpoint', () => {
+  const resumableEndpoint = resumableUploadEndpoint(streamCollections)
+
+  test('creates a tus upload session for the file size', async () => {
+    const response = await resumableEndpoint.handler(
+      createRequest('media', undefined, { filename: 'recording.mov', size: 5_000_000_000 }),
+    )
+    const data = (await response.json()) as JsonObject
+
+    expect(response.status).toBe(200)
+    expect(data).toMatchObject({
+      filename: `recording-${data.videoId}.mov`,
+      provider: 'memory',
+      uploadURL: `https://stream.memory.local/tus/${data.videoId}`,
+    })
+    expect(adapter.calls[0]).toEqual({
+      args: [{ maxDurationSeconds: 60, meta: { name: 'recording.mov' }, size: 5_000_000_000 }],
+      method: 'createResumableUpload',
+    })
+  })
+
+  test('requires the file size', async () => {
+    const response = await resumableEndpoint.handler(createRequest('media'))
+
+    expect(response.status).toBe(400)
+    expect(adapter.calls).toHaveLength(0)
+  })
+})
+
+describe('direct upload status endpoint', () => {
+  test('responds with the stream fields of the uploaded video', async () => {
+    const { videoId } = await adapter.createDirectUpload({ meta: { name: 'holiday.mp4' } })
+
+    const response = await directUploadStatusEndpoint(streamCollections).handler(
+      createRequest('media', undefined, undefined, videoId),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      stream: {
+        provider: 'memory',
+        readyToStream: false,
+        requireSignedURLs: false,
+        thumbnailUrl: `https://stream.memory.local/${videoId}/thumbnails/thumbnail.jpg`,
+        videoId,
+      },
+    })
+  })
+})
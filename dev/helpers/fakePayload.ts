@@ -0,0 +1,95 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { vi } from 'vitest'
+
+/**
+ * Documents of the fake Payload by collection slug
+ */
+export type FakeDocs = Record<string, JsonObject[]>
+
+/**
+ * Merge the data of an update into a document, the stream group is merged like Payload does
+ *
+ * @param doc
+ * @param data
+ * @returns
+ */
+const mergeDoc = (doc: JsonObject, data: JsonObject): JsonObject => {
+  return {
+    ...doc,
+    ...data,
+    stream: data.stream ? { ...doc.stream, ...data.stream } : doc.stream,
+  }
+}
+
+/**
+ * In memory stand-in for the local API calls of the plugin services, tasks and endpoints
+ *
+ * @param overrides replaces methods of the fake, e.g. `find` with `where` support
+ * @returns
+ */
+export const createFakePayload = <Overrides extends JsonObject = JsonObject>(
+  overrides?: (docs: FakeDocs) => Overrides,
+) => {
+  const docs: FakeDocs = {}
+  const updates: JsonObject[] = []
+
+  const findDoc = (collection: string, id: number | string) =>
+    docs[collection]?.find((doc) => doc.id === id)
+
+  const payload = {
+    count: ({ collection }: { collection: string }) =>
+      Promise.resolve({ totalDocs: docs[collection]?.length ?? 0 }),
+    create: ({ collection, data }: { collection: string; data: JsonObject }) => {
+      const doc = { id: `${collection}-${docs[collection]?.length ?? 0}`, ...data }
+      docs[collection] = [...(docs[collection] ?? []), doc]
+      return Promise.resolve(doc)
+    },
+    delete: ({ id, collection }: { collection: string; id: string }) => {
+      docs[collection] = (docs[collection] ?? []).filter((doc) => doc.id !== id)
+      return Promise.resolve({ id })
+    },
+    find: ({ collection }: { collection: string }) =>
+      Promise.resolve({ docs: docs[collection] ?? [], hasNextPage: false }),
+    findByID: ({ id, collection }: { collection: string; id: number | string }) =>
+      Promise.resolve(findDoc(collection, id)),
+    jobs: {
+      queue: vi.fn(),
+    },
+    logger: {
+      error: () => undefined,
+      info: () => undefined,
+    },
+    update: (args: { collection: string; data: JsonObject; id: number | string }) => {
+      const { id, collection, data } = args
+      updates.push(args)
+      docs[collection] = (docs[collection] ?? []).map((doc) =>
+        doc.id === id ? mergeDoc(doc, data) : doc,
+      )
+      return Promise.resolve(findDoc(collection, id))
+    },
+    ...overrides?.(docs),
+  }
+
+  return {
+    docs,
+    payload,
+    /**
+     * Arguments of the queued jobs, in order
+     */
+    queued: () => payload.jobs.queue.mock.calls.map(([args]) => args as JsonObject),
+    req: { payload } as unknown as PayloadRequest,
+    /**
+     * Remove the documents, the updates and the queued jobs
+     */
+    reset: () => {
+      for (const collection of Object.keys(docs)) {
+        delete docs[collection]
+      }
+
+      updates.length = 0
+      payload.jobs.queue.mockClear()
+    },
+    updates,
+  }
+}
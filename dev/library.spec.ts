@@ -0,0 +1,211 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+import type { StreamCollection } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { libraryEndpoints } from '../src/endpoints/library.js'
+
+const adapter = memoryStreamAdapter({ autoTick: false })
+
+const streamCollections: StreamCollection[] = [{ slug: 'media', adapter }]
+
+const [listEndpoint, deleteEndpoint, linkEndpoint] = libraryEndpoints({
+  access: ({ req }) => Boolean(req.user?.roles?.includes('admin')),
+  streamCollections,
+})
+
+let docs: JsonObject[] = []
+
+const payload = {
+  find: ({ where }: { where: { or: Record<string, { in: string[] }>[] } }) =>
+    Promise.resolve({
+      docs: docs.filter((doc) =>
+        where.or.some((condition) =>
+          Object.entries(condition).some(([path, { in: videoIds }]) =>
+            videoIds.includes(doc.stream?.[path.replace('stream.', '')]),
+          ),
+        ),
+      ),
+    }),
+  findByID: ({ id }: { id: string }) => Promise.resolve(docs.find((doc) => doc.id === id)),
+  jobs: {
+    queue: vi.fn(),
+  },
+  logger: {
+    error: () => undefined,
+    info: () => undefined,
+  },
+  update: ({ id, data }: { data: JsonObject; id: string }) => {
+    docs = docs.map((doc) => (doc.id === id ? { ...doc, ...data } : doc))
+    return Promise.resolve(docs.find((doc) => doc.id === id))
+  },
+}
+
+const createRequest = ({
+  body,
+  roles = ['admin'],
+  routeParams = {},
+  search = '',
+}: {
+  body?: JsonObject
+  roles?: string[]
+  routeParams?: JsonObject
+  search?: string
+} = {}) => {
+  return {
+    json: () => Promise.resolve(body),
+    payload,
+    routeParams: { provider: 'memory', ...routeParams },
+    searchParams: new URLSearchParams(search),
+    user: { id: 'user-1', roles },
+  } as unknown as PayloadRequest
+}
+
+const copy = async (name: string): Promise<string> => {
+  const { result } = await adapter.copyVideo({ meta: { name }, url: `https://example.com/${name}` })
+
+  return result?.videoId ?? ''
+}
+
+beforeEach(() => {
+  adapter.reset()
+  payload.jobs.queue.mockClear()
+  docs = []
+})
+
+describe('library endpoints', () => {
+  test('lists the videos newest first and marks the linked ones', async () => {
+    const linked = await copy('linked.mp4')
+    const orphan = await copy('orphan.mp4')
+
+    docs = [{ id: 'doc-1', filename: 'linked.mp4', stream: { videoId: linked } }]
+
+    const response = await listEndpoint.handler(createRequest())
+    const { videos } = (await response.json()) as {
+      videos: { documents: JsonObject[]; videoId: string }[]
+    }
+
+    expect(videos.map(({ videoId }) => videoId)).toEqual([orphan, linked])
+    expect(videos[0]?.documents).toEqual([])
+    expect(videos[1]?.documents).toEqual([
+      { id: 'doc-1', collection: 'media', filename: 'linked.mp4' },
+    ])
+  })
+
+  test('pages through the videos and searches by name', async () => {
+    await copy('intro.mp4')
+    await copy('outro.mp4')
+    await copy('intro-long.mp4')
+
+    const first = (await (
+      await listEndpoint.handler(createRequest({ search: 'limit=2' }))
+    ).json()) as { nextCursor?: string; videos: JsonObject[] }
+
+    expect(first.videos).toHaveLength(2)
+    expect(first.nextCursor).toBeDefined()
+
+    const second = (await (
+      await listEndpoint.handler(createRequest({ search: `limit=2&cursor=${first.nextCursor}` }))
+    ).json()) as { nextCursor?: string; videos: JsonObject[] }
+
+    expect(second.videos).toHaveLength(1)
+    expect(second.nextCursor).toBeUndefined()
+
+    const search = (await (
+      await listEndpoint.handler(createRequest({ search: 'search=INTRO' }))
+    ).json()) as { videos: { meta: { name: string } }[] }
+
+    expect(search.videos.map(({ meta }) => meta.name)).toEqual(['intro-long.mp4', 'intro.mp4'])
+  })
+
+  test('only deletes orphaned videos', async () => {
+    const linked = await copy('linked.mp4')
+    const orphan = await copy('orphan.mp4')
+
+    docs = [{ id: 'doc-1', stream: { videoId: linked } }]
+
+    const refused = await deleteEndpoint.handler(
+      createRequest({ routeParams: { videoId: linked } }),
+    )
+
+    expect(refused.status).toBe(409)
+    expect(adapter.videos.has(linked)).toBe(true)
+
+    const deleted = await deleteEndpoint.handler(
+      createRequest({ routeParams: { videoId: orphan } }),
+    )
+
+    expect(deleted.status).toBe(200)
+    expect(adapter.videos.has(orphan)).toBe(false)
+  })
+
+  test('does not delete the video of a replaced file that is still processing', async () => {
+    const current = await copy('current.mp4')
+    const replacement = await copy('replaced.mp4')
+
+    docs = [{ id: 'doc-1', stream: { replacementVideoId: replacement, videoId: current } }]
+
+    const { videos } = (await (await listEndpoint.handler(createRequest())).json()) as {
+      videos: { documents: JsonObject[]; videoId: string }[]
+    }
+
+    expect(videos.map(({ documents }) => documents.length)).toEqual([1, 1])
+
+    const refused = await deleteEndpoint.handler(
+      createRequest({ routeParams: { videoId: replacement } }),
+    )
+
+    expect(refused.status).toBe(409)
+    expect(adapter.videos.has(replacement)).toBe(true)
+  })
+
+  test('links an orphaned video to a document without a video', async () => {
+    const orphan = await copy('orphan.mp4')
+    const other = await copy('other.mp4')
+
+    docs = [
+      { id: 'doc-1', stream: { videoId: other } },
+      { id: 'doc-2', stream: { readyToStream: false } },
+    ]
+
+    const refused = await linkEndpoint.handler(
+      createRequest({
+        body: { id: 'doc-1', collection: 'media' },
+        routeParams: { videoId: orphan },
+      }),
+    )
+
+    expect(refused.status).toBe(409)
+
+    const response = await linkEndpoint.handler(
+      createRequest({
+        body: { id: 'doc-2', collection: 'media' },
+        routeParams: { videoId: orphan },
+      }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(docs[1]?.stream).toMatchObject({
+      provider: 'memory',
+      readyToStream: false,
+      videoId: orphan,
+    })
+    // the video is still processing, its status is polled like a copied video
+    expect(payload.jobs.queue).toHaveBeenCalledWith(
+      expect.objectContaining({ input: { collectionSlug: 'media', documentId: 'doc-2' } }),
+    )
+  })
+
+  test('rejects users without access', async () => {
+    const orphan = await copy('orphan.mp4')
+
+    const response = await deleteEndpoint.handler(
+      createRequest({ roles: ['editor'], routeParams: { videoId: orphan } }),
+    )
+
+    expect(response.status).toBe(403)
+    expect(adapter.videos.has(orphan)).toBe(true)
+  })
+})
@@ -0,0 +1,108 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { liveInputService, skipLiveInputSyncContext } from '../src/services/liveInputService.js'
+
+const adapter = memoryStreamAdapter()
+
+const createRequest = () => {
+  const updates: JsonObject[] = []
+
+  const req = {
+    payload: {
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+      update: (args: JsonObject) => {
+        updates.push(args)
+        return Promise.resolve(args)
+      },
+    },
+  } as unknown as PayloadRequest
+
+  return { req, updates }
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('live inputs', () => {
+  test('creates the live input of a new document and stores its ingest urls', async () => {
+    const { req, updates } = createRequest()
+
+    await liveInputService({ adapter, req }).sync({
+      doc: { id: 'doc-1', name: 'Weekly event', recording: true },
+    })
+
+    const [liveInput] = adapter.liveInputs.values()
+
+    expect(liveInput).toMatchObject({ meta: { name: 'Weekly event' }, recording: true })
+    expect(updates[0]).toMatchObject({
+      id: 'doc-1',
+      collection: 'live-inputs',
+      context: { [skipLiveInputSyncContext]: true },
+      data: {
+        error: '',
+        ingest: {
+          rtmpsStreamKey: liveInput?.rtmps?.streamKey,
+          rtmpsUrl: liveInput?.rtmps?.url,
+          srtStreamId: liveInput?.id,
+        },
+        liveInputId: liveInput?.id,
+        status: 'disconnected',
+      },
+    })
+  })
+
+  test('updates the live input when its settings change', async () => {
+    const { id } = await adapter.createLiveInput({ meta: { name: 'Weekly event' } })
+    const { req } = createRequest()
+    const service = liveInputService({ adapter, req })
+
+    const doc = { id: 'doc-1', name: 'Weekly event', liveInputId: id, recording: true }
+
+    await service.sync({ doc, previousDoc: doc })
+    await service.sync({ doc: { ...doc, recording: false }, previousDoc: doc })
+
+    expect(adapter.calls.filter(({ method }) => method === 'updateLiveInput')).toHaveLength(1)
+    expect(adapter.liveInputs.get(id)?.recording).toBe(false)
+  })
+
+  test('stores sync errors on the document', async () => {
+    adapter.failNext('createLiveInput', new Error('Quota exceeded'))
+    const { req, updates } = createRequest()
+
+    await liveInputService({ adapter, req }).sync({ doc: { id: 'doc-1', name: 'Weekly event' } })
+
+    expect(updates[0]).toMatchObject({ data: { error: 'Quota exceeded' } })
+  })
+
+  test('writes the connection status when it changes', async () => {
+    const { id } = await adapter.createLiveInput({ meta: { name: 'Weekly event' } })
+    const { req, updates } = createRequest()
+    const service = liveInputService({ adapter, req })
+
+    const doc = { id: 'doc-1', liveInputId: id, status: 'disconnected' }
+
+    expect(await service.updateStatus(doc)).toBe('disconnected')
+    expect(updates).toHaveLength(0)
+
+    adapter.setLiveInputStatus(id, 'connected')
+
+    expect(await service.updateStatus(doc)).toBe('connected')
+    expect(updates[0]).toMatchObject({ data: { status: 'connected' } })
+  })
+
+  test('deletes the live input of a deleted document', async () => {
+    const { id } = await adapter.createLiveInput({ meta: { name: 'Weekly event' } })
+    const { req } = createRequest()
+
+    await liveInputService({ adapter, req }).delete({ id: 'doc-1', liveInputId: id })
+
+    expect(adapter.liveInputs.size).toBe(0)
+  })
+})
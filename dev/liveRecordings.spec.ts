@@ -0,0 +1,97 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { liveRecordingService } from '../src/services/liveRecordingService.js'
+
+const adapter = memoryStreamAdapter()
+
+const createRequest = (existing: JsonObject[] = []) => {
+  const created: JsonObject[] = []
+
+  const req = {
+    payload: {
+      create: (args: JsonObject) => {
+        created.push(args)
+        return Promise.resolve({ id: `doc-${created.length}`, ...args.data })
+      },
+      find: () => Promise.resolve({ docs: existing }),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+    },
+  } as unknown as PayloadRequest
+
+  return { created, req }
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('live recordings', () => {
+  test('imports the finished recordings of the watched live inputs', async () => {
+    const videoId = adapter.recordLiveInput('live-1', { name: 'Weekly event' })
+    adapter.recordLiveInput('live-2')
+    adapter.tick(undefined, 3)
+
+    const { created, req } = createRequest()
+
+    const imported = await liveRecordingService({ adapter, req }).importRecordings({
+      collectionSlug: 'media',
+      liveInputIds: ['live-1'],
+    })
+
+    expect(imported).toBe(1)
+    expect(created[0]).toMatchObject({
+      collection: 'media',
+      data: {
+        filename: `Weekly event-${videoId}.mp4`,
+        mimeType: 'video/mp4',
+        stream: {
+          durationInSeconds: 10,
+          liveInputId: 'live-1',
+          provider: 'memory',
+          readyToStream: true,
+          recordedAt: adapter.videos.get(videoId)?.created,
+          thumbnailUrl: `https://stream.memory.local/${videoId}/thumbnails/thumbnail.jpg`,
+          videoId,
+        },
+      },
+    })
+  })
+
+  test('skips recordings that are still processing or already imported', async () => {
+    const importedId = adapter.recordLiveInput('live-1')
+    adapter.tick(importedId, 3)
+    adapter.recordLiveInput('live-1')
+
+    const { created, req } = createRequest([{ id: 'doc-1', stream: { videoId: importedId } }])
+
+    const imported = await liveRecordingService({ adapter, req }).importRecordings({
+      collectionSlug: 'media',
+      liveInputIds: ['live-1'],
+    })
+
+    expect(imported).toBe(0)
+    expect(created).toHaveLength(0)
+  })
+
+  test('keeps importing when listing the recordings of a live input fails', async () => {
+    adapter.failNext('listLiveInputRecordings', new Error('Live input not found'))
+    adapter.recordLiveInput('live-2')
+    adapter.tick(undefined, 3)
+
+    const { created, req } = createRequest()
+
+    const imported = await liveRecordingService({ adapter, req }).importRecordings({
+      collectionSlug: 'media',
+      liveInputIds: ['live-1', 'live-2'],
+    })
+
+    expect(imported).toBe(1)
+    expect(created[0]).toMatchObject({ data: { stream: { liveInputId: 'live-2' } } })
+  })
+})
@@ -0,0 +1,237 @@
+import type { AddressInfo } from 'net'
+
+import { existsSync } from 'fs'
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { createServer, type Server } from 'http'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest'
+
+import type { StreamAdapter } from '../src/adapters/streamAdapter.js'
+
+import { localHlsAdapter } from '../src/adapters/index.js'
+import { parseTimestamp } from '../src/adapters/localHls.js'
+
+/**
+ * Stands in for ffmpeg: reports a 10 seconds 1080p source, writes the playlists and the poster
+ * and holds the transcoding halfway until the `release` file exists
+ */
+const fakeFfmpeg = `#!/usr/bin/env node
+const fs = require('fs')
+const path = require('path')
+
+const args = process.argv.slice(2)
+const output = args[args.length - 1]
+
+if (!args.includes('-y')) {
+  process.stderr.write('Duration: 00:00:10.00, start: 0.000000, bitrate: 1000 kb/s\\n')
+  process.stderr.write('  Stream #0:0(und): Video: h264 (High), yuv420p, 1920x1080, 30 fps\\n')
+  process.exit(1)
+}
+
+fs.mkdirSync(path.dirname(output), { recursive: true })
+
+if (!args.includes('hls')) {
+  fs.writeFileSync(output, 'poster')
+  process.exit(0)
+}
+
+process.stderr.write('frame=  150 fps=30 q=28.0 size=N/A time=00:00:05.00 bitrate=N/A speed=1x\\n')
+
+setInterval(() => {
+  if (fs.existsSync(path.join(__dirname, 'release'))) {
+    fs.writeFileSync(path.join(path.dirname(output), 'segment_0000.ts'), 'segment')
+    fs.writeFileSync(output, '#EXTM3U\\n')
+    process.exit(0)
+  }
+}, 10)
+`
+
+let dir: string
+let ffmpegPath: string
+let outputDir: string
+let server: Server
+let sourceUrl: string
+
+const createAdapter = (): StreamAdapter =>
+  localHlsAdapter({
+    ffmpegPath,
+    outputDir,
+    publicUrl: 'https://example.com/hls/',
+    renditions: [{ height: 360, videoBitrate: 800 }],
+    workDir: dir,
+  })
+
+const release = () => writeFile(join(dir, 'release'), '')
+
+/**
+ * Poll until the condition holds, transcoding runs in the background
+ */
+const waitFor = async (condition: () => Promise<boolean>) => {
+  for (let attempt = 0; attempt < 500; attempt++) {
+    if (await condition()) {
+      return
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+
+  throw new Error('Timed out waiting for the condition')
+}
+
+const copy = async (adapter: StreamAdapter) => {
+  const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: sourceUrl })
+
+  return result?.videoId as string
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'local-hls-spec-'))
+  ffmpegPath = join(dir, 'ffmpeg.cjs')
+
+  await writeFile(ffmpegPath, fakeFfmpeg)
+  await chmod(ffmpegPath, 0o755)
+
+  server = createServer((_req, res) => res.end('video'))
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  sourceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/video.mp4`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+  await rm(dir, { force: true, recursive: true })
+})
+
+beforeEach(async () => {
+  outputDir = join(dir, `output-${Date.now()}`)
+  await rm(join(dir, 'release'), { force: true })
+})
+
+describe('localHlsAdapter', () => {
+  test('parses ffmpeg timestamps', () => {
+    expect(parseTimestamp('00:00:05.00')).toBe(5)
+    expect(parseTimestamp('01:02:03.5')).toBe(3723.5)
+  })
+
+  test('reports the progress parsed from the ffmpeg output until the video is ready', async () => {
+    const adapter = createAdapter()
+    const videoId = await copy(adapter)
+
+    await waitFor(async () => (await adapter.getStatus(videoId)).result?.status?.progress === 50)
+
+    expect((await adapter.getStatus(videoId)).result).toMatchObject({
+      durationInSeconds: 10,
+      readyToStream: false,
+      status: { state: 'inprogress' },
+    })
+
+    await release()
+    await waitFor(async () => Boolean((await adapter.getStatus(videoId)).result?.readyToStream))
+
+    expect((await adapter.getStatus(videoId)).result).toMatchObject({
+      height: 360,
+      playback: { hls: `https://example.com/hls/${videoId}/master.m3u8` },
+      status: { progress: 100, state: 'ready' },
+      thumbnail: `https://example.com/hls/${videoId}/poster.jpg`,
+      width: 640,
+    })
+    expect(existsSync(join(outputDir, videoId, '360p', 'segment_0000.ts'))).toBe(true)
+  })
+
+  test('restores the status from status.json after a restart', async () => {
+    await release()
+
+    const adapter = createAdapter()
+    const ready = await copy(adapter)
+
+    await waitFor(async () => Boolean((await adapter.getStatus(ready)).result?.readyToStream))
+
+    const interrupted = 'interrupted-video'
+    await mkdir(join(outputDir, interrupted))
+    await writeFile(
+      join(outputDir, interrupted, 'status.json'),
+      JSON.stringify({
+        name: 'video.mp4',
+        progress: 40,
+        state: 'inprogress',
+        videoId: interrupted,
+      }),
+    )
+
+    const restarted = createAdapter()
+
+    expect((await restarted.getStatus(ready)).result).toMatchObject({
+      readyToStream: true,
+      status: { progress: 100, state: 'ready' },
+    })
+    // the job was lost with the process that ran it
+    expect((await restarted.getStatus(interrupted)).result?.status).toMatchObject({
+      errorReasonCode: 'ERR_INTERRUPTED',
+      state: 'error',
+    })
+    await expect(restarted.getStatus('unknown-video')).rejects.toThrow('not found')
+  })
+
+  test('reports a job of another process as interrupted once its heartbeat is stale', async () => {
+    const writeStatus = async (videoId: string, heartbeatAt: Date) => {
+      await mkdir(join(outputDir, videoId), { recursive: true })
+      await writeFile(
+        join(outputDir, videoId, 'status.json'),
+        JSON.stringify({
+          name: 'video.mp4',
+          heartbeatAt: heartbeatAt.toISOString(),
+          progress: 40,
+          state: 'inprogress',
+          videoId,
+        }),
+      )
+    }
+
+    await writeStatus('running-video', new Date())
+    await writeStatus('stale-video', new Date(Date.now() - 5 * 60 * 1000))
+
+    const adapter = createAdapter()
+
+    expect((await adapter.getStatus('running-video')).result?.status).toMatchObject({
+      progress: 40,
+      state: 'inprogress',
+    })
+    expect((await adapter.getStatus('stale-video')).result?.status).toMatchObject({
+      errorReasonCode: 'ERR_INTERRUPTED',
+      state: 'error',
+    })
+  })
+
+  test('cancels a video deleted while it is transcoding', async () => {
+    const adapter = createAdapter()
+    const deleted = await copy(adapter)
+
+    await waitFor(async () => (await adapter.getStatus(deleted)).result?.status?.progress === 50)
+
+    await adapter.delete(deleted)
+    await release()
+
+    // videos are transcoded one at a time, the next one starts once the deleted one settled
+    const next = await copy(adapter)
+
+    await waitFor(async () => Boolean((await adapter.getStatus(next)).result?.readyToStream))
+
+    expect(existsSync(join(outputDir, deleted))).toBe(false)
+    await expect(adapter.getStatus(deleted)).rejects.toThrow('not found')
+  })
+
+  test('renders a player falling back to hls.js', async () => {
+    const html = await createAdapter().getHTMLVideoPlayer({ videoId: 'video-1' } as Parameters<
+      StreamAdapter['getHTMLVideoPlayer']
+    >[0])
+
+    expect(html).toContain('<iframe')
+    const { version } = JSON.parse(
+      await readFile(join('node_modules', 'hls.js', 'package.json'), 'utf8'),
+    ) as { version: string }
+
+    expect(html).toContain(`https://example.com/hls/hls.js/${version}/hls.min.js`)
+    expect(existsSync(join(outputDir, 'hls.js', version, 'hls.min.js'))).toBe(true)
+    expect(html).toContain('&quot;https://example.com/hls/video-1/master.m3u8&quot;')
+  })
+})
@@ -0,0 +1,224 @@
+import type { JsonObject } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import type { StatusPollingConfig } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { updateStatusHook } from '../src/hooks/afterOperation.js'
+import { getStatusPollingDelay, updateStreamStatusTask } from '../src/tasks/index.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter({ ticksToReady: 2 })
+
+const { docs, queued, req, reset, updates } = createFakePayload()
+
+const doc = () => docs.media?.[0]
+
+const runTask = async (
+  documentId: string,
+  input: JsonObject = {},
+  config?: StatusPollingConfig,
+) => {
+  const { handler } = updateStreamStatusTask(adapter, config)
+
+  if (typeof handler !== 'function') {
+    throw new Error('Expected an inline task handler')
+  }
+
+  return await handler({
+    input: { collectionSlug: 'media', documentId, ...input },
+    req,
+  } as unknown as Parameters<typeof handler>[0])
+}
+
+beforeEach(() => {
+  adapter.reset()
+  reset()
+})
+
+describe('memoryStreamAdapter', () => {
+  test('simulates processing over ticks', async () => {
+    const { result } = await adapter.copyVideo({
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+    })
+
+    const videoId = result?.videoId as string
+
+    expect(result).toMatchObject({ readyToStream: false, status: { progress: 0 } })
+    expect((await adapter.getStatus(videoId)).result).toMatchObject({
+      readyToStream: false,
+      status: { progress: 50, state: 'inprogress' },
+    })
+    expect((await adapter.getStatus(videoId)).result).toMatchObject({
+      readyToStream: true,
+      status: { progress: 100, state: 'ready' },
+    })
+    expect(adapter.calls.map(({ method }) => method)).toEqual([
+      'copyVideo',
+      'getStatus',
+      'getStatus',
+    ])
+  })
+
+  test('reports failures with an error reason code', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    const videoId = result?.videoId as string
+
+    adapter.failVideo(videoId, { errorReasonCode: 'ERR_NON_VIDEO', errorReasonText: 'Not a video' })
+    adapter.tick(videoId, 2)
+
+    expect((await adapter.getStatus(videoId)).result).toMatchObject({
+      readyToStream: false,
+      status: { errorReasonCode: 'ERR_NON_VIDEO', errorReasonText: 'Not a video', state: 'error' },
+    })
+  })
+
+  test('injects faults into the next calls', async () => {
+    adapter.failNext('copyVideo', new Error('Provider unavailable'))
+
+    await expect(adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })).rejects.toThrow(
+      'Provider unavailable',
+    )
+    await expect(
+      adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' }),
+    ).resolves.toMatchObject({ success: true })
+  })
+})
+
+describe('updateStreamStatusTask with memoryStreamAdapter', () => {
+  test('re-queues until the video is ready and stores the stream status', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+
+    docs.media = [
+      {
+        id: 'doc-1',
+        mimeType: 'video/mp4',
+        stream: { readyToStream: false, videoId: result?.videoId },
+      },
+    ]
+
+    await runTask('doc-1')
+
+    expect(queued()).toHaveLength(1)
+    expect((updates[0]?.data as JsonObject).stream).toMatchObject({
+      provider: 'memory',
+      readyToStream: false,
+    })
+
+    await runTask('doc-1')
+
+    expect(queued()).toHaveLength(1)
+    expect(doc()?.stream).toMatchObject({ durationInSeconds: 10, readyToStream: true })
+  })
+
+  test('re-queues with the next backoff delay when the provider call fails', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+
+    docs.media = [
+      {
+        id: 'doc-1',
+        mimeType: 'video/mp4',
+        stream: { readyToStream: false, videoId: result?.videoId },
+      },
+    ]
+
+    adapter.failNext('getStatus')
+
+    await runTask('doc-1', { attempt: 2 })
+
+    expect(updates).toHaveLength(0)
+    expect(queued()).toHaveLength(1)
+    expect(queued()[0]?.input).toMatchObject({ attempt: 3, pollingStartedAt: expect.any(String) })
+  })
+
+  test('backs off between the status checks', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+
+    docs.media = [
+      {
+        id: 'doc-1',
+        mimeType: 'video/mp4',
+        stream: { readyToStream: false, videoId: result?.videoId },
+      },
+    ]
+
+    await runTask('doc-1', { attempt: 7 }, { backoffSeconds: [1, 2] })
+
+    const [job] = queued()
+
+    expect(job?.input).toMatchObject({ attempt: 8, pollingStartedAt: expect.any(String) })
+    expect((job?.waitUntil as Date).getTime() - Date.now()).toBeGreaterThan(1000)
+    expect((job?.waitUntil as Date).getTime() - Date.now()).toBeLessThanOrEqual(2000)
+
+    expect(getStatusPollingDelay({}, 1)).toBe(5)
+    expect(getStatusPollingDelay({}, 100)).toBe(300)
+  })
+
+  test('stops polling when the provider fails to process the video', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    const videoId = result?.videoId as string
+
+    docs.media = [{ id: 'doc-1', mimeType: 'video/mp4', stream: { readyToStream: false, videoId } }]
+
+    adapter.failVideo(videoId, { errorReasonCode: 'ERR_DURATION_EXCEED_CONSTRAINT' })
+    adapter.tick(videoId, 2)
+
+    await runTask('doc-1')
+
+    expect(queued()).toHaveLength(0)
+    expect(doc()?.stream).toMatchObject({
+      error: 'The provider failed to process the video: ERR_DURATION_EXCEED_CONSTRAINT',
+      errorAt: expect.any(String),
+      errorReasonCode: 'ERR_DURATION_EXCEED_CONSTRAINT',
+    })
+  })
+
+  test('does not refresh the status of failed videos when they are fetched', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    const hook = updateStatusHook(adapter, 'media')
+    const failed = {
+      id: 'doc-1',
+      mimeType: 'video/mp4',
+      stream: {
+        error: 'The provider failed to process the video: ERR_NON_VIDEO',
+        errorReasonCode: 'ERR_NON_VIDEO',
+        readyToStream: false,
+        videoId: result?.videoId,
+      },
+    }
+
+    adapter.calls.length = 0
+
+    await hook({ operation: 'findByID', req, result: failed } as unknown as Parameters<
+      typeof hook
+    >[0])
+
+    expect(adapter.calls).toHaveLength(0)
+  })
+
+  test('marks the video failed once the polling window is over', async () => {
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+
+    docs.media = [
+      {
+        id: 'doc-1',
+        mimeType: 'video/mp4',
+        stream: { readyToStream: false, videoId: result?.videoId },
+      },
+    ]
+
+    await runTask(
+      'doc-1',
+      { attempt: 40, pollingStartedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString() },
+      { maxPollingHours: 2 },
+    )
+
+    expect(queued()).toHaveLength(0)
+    expect(doc()?.stream).toMatchObject({
+      error: 'The video was not ready to stream after 2 hours',
+      errorAt: expect.any(String),
+    })
+  })
+})
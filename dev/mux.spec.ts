@@ -0,0 +1,237 @@
+import type { AddressInfo } from 'net'
+
+import { createPublicKey, generateKeyPairSync, verify } from 'crypto'
+import { createServer, type IncomingMessage, type Server } from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest'
+
+import { muxAdapter } from '../src/adapters/index.js'
+
+type RecordedRequest = {
+  authorization?: string
+  body: string
+  method?: string
+  url?: string
+}
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+const privateKeyBase64 = Buffer.from(
+  privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+).toString('base64')
+
+const assets: Record<string, unknown> = {
+  'asset-errored': {
+    id: 'asset-errored',
+    errors: { type: 'invalid_input', messages: ['The input file could not be decoded'] },
+    playback_ids: [{ id: 'playback-errored', policy: 'public' }],
+    status: 'errored',
+  },
+  'asset-ready': {
+    id: 'asset-ready',
+    created_at: '1700000000',
+    duration: 42.5,
+    passthrough: 'video.mp4',
+    playback_ids: [{ id: 'playback-ready', policy: 'signed' }],
+    status: 'ready',
+    tracks: [{ type: 'video', max_height: 1080, max_width: 1920 }, { type: 'audio' }],
+  },
+}
+
+let requests: RecordedRequest[] = []
+let server: Server
+let baseUrl: string
+
+const readBody = (req: IncomingMessage): Promise<string> => {
+  return new Promise((resolve) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => resolve(body))
+  })
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const body = await readBody(req)
+
+    requests.push({
+      authorization: req.headers.authorization,
+      body,
+      method: req.method,
+      url: req.url,
+    })
+
+    res.setHeader('Content-Type', 'application/json')
+
+    if (req.method === 'POST' && req.url === '/video/v1/assets') {
+      const input = JSON.parse(body)
+      res.statusCode = 201
+      res.end(
+        JSON.stringify({
+          data: {
+            id: 'asset-new',
+            created_at: '1700000000',
+            passthrough: input.passthrough,
+            playback_ids: [{ id: 'playback-new', policy: input.playback_policies[0] }],
+            status: 'preparing',
+          },
+        }),
+      )
+      return
+    }
+
+    const id = req.url?.replace('/video/v1/assets/', '') ?? ''
+
+    if (!assets[id]) {
+      res.statusCode = 404
+      res.end(JSON.stringify({ error: { type: 'not_found', messages: ['Asset not found'] } }))
+      return
+    }
+
+    if (req.method === 'DELETE') {
+      res.statusCode = 204
+      res.end()
+      return
+    }
+
+    res.end(JSON.stringify({ data: assets[id] }))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests = []
+})
+
+describe('muxAdapter', () => {
+  test('creates an asset from the video url', async () => {
+    const adapter = muxAdapter({ baseUrl, tokenId: 'id', tokenSecret: 'secret' })
+
+    const response = await adapter.copyVideo({
+      meta: { name: 'video.mp4' },
+      url: 'https://example.com/video.mp4',
+    })
+
+    expect(requests[0]?.authorization).toBe(`Basic ${Buffer.from('id:secret').toString('base64')}`)
+    expect(JSON.parse(requests[0]?.body ?? '')).toEqual({
+      input: [{ url: 'https://example.com/video.mp4' }],
+      passthrough: 'video.mp4',
+      playback_policies: ['public'],
+    })
+    expect(response.success).toBe(true)
+    expect(response.result).toMatchObject({
+      created: new Date(1700000000 * 1000).toISOString(),
+      meta: { name: 'video.mp4' },
+      readyToStream: false,
+      requireSignedURLs: false,
+      status: { state: 'inprogress' },
+      thumbnail: 'https://image.mux.com/playback-new/thumbnail.jpg',
+      videoId: 'asset-new',
+    })
+  })
+
+  test('maps a ready asset into a stream response', async () => {
+    const adapter = muxAdapter({ baseUrl, tokenId: 'id', tokenSecret: 'secret' })
+
+    const response = await adapter.getStatus('asset-ready')
+
+    expect(response.result).toMatchObject({
+      durationInSeconds: 42.5,
+      height: 1080,
+      playback: { hls: 'https://stream.mux.com/playback-ready.m3u8' },
+      readyToStream: true,
+      requireSignedURLs: true,
+      status: { state: 'ready' },
+      thumbnail: undefined,
+      videoId: 'asset-ready',
+      width: 1920,
+    })
+  })
+
+  test('maps asset errors into the stream status', async () => {
+    const adapter = muxAdapter({ baseUrl, tokenId: 'id', tokenSecret: 'secret' })
+
+    const response = await adapter.getStatus('asset-errored')
+
+    expect(response.result?.readyToStream).toBe(false)
+    expect(response.result?.status).toMatchObject({
+      errorReasonCode: 'invalid_input',
+      errorReasonText: 'The input file could not be decoded',
+      state: 'error',
+    })
+  })
+
+  test('throws when the asset does not exist', async () => {
+    const adapter = muxAdapter({ baseUrl, tokenId: 'id', tokenSecret: 'secret' })
+
+    await expect(adapter.getStatus('missing')).rejects.toThrow('Failed to get video status')
+  })
+
+  test('deletes an asset', async () => {
+    const adapter = muxAdapter({ baseUrl, tokenId: 'id', tokenSecret: 'secret' })
+
+    await adapter.delete('asset-ready')
+
+    expect(requests[0]).toMatchObject({ method: 'DELETE', url: '/video/v1/assets/asset-ready' })
+  })
+
+  test('mints a signed playback token for the playback ID', async () => {
+    const adapter = muxAdapter({
+      baseUrl,
+      signingKeyId: 'signing-key',
+      signingKeyPrivateKey: privateKeyBase64,
+      tokenId: 'id',
+      tokenSecret: 'secret',
+    })
+
+    const token = await adapter.getSignedToken('asset-ready')
+    const [header, payload, signature] = (token ?? '').split('.')
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+      alg: 'RS256',
+      kid: 'signing-key',
+      typ: 'JWT',
+    })
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toMatchObject({
+      aud: 'v',
+      sub: 'playback-ready',
+    })
+    expect(
+      verify(
+        'RSA-SHA256',
+        Buffer.from(`${header}.${payload}`),
+        createPublicKey(publicKey.export({ type: 'spki', format: 'pem' })),
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true)
+  })
+
+  test('renders a player with a playback token for signed assets', async () => {
+    const adapter = muxAdapter({
+      baseUrl,
+      signingKeyId: 'signing-key',
+      signingKeyPrivateKey: privateKeyBase64,
+      tokenId: 'id',
+      tokenSecret: 'secret',
+    })
+
+    const html = await adapter.getHTMLVideoPlayer({
+      error: '',
+      provider: 'mux',
+      readyToStream: true,
+      requireSignedURLs: true,
+      thumbnailUrl: '',
+      videoId: 'asset-ready',
+    })
+
+    expect(html).toContain('https://player.mux.com/playback-ready?playback-token=')
+    // the playback ID is cached after the first lookup
+    expect(requests).toHaveLength(1)
+  })
+})
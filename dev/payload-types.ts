@@ -69,6 +69,11 @@ export interface Config {
   collections: {
     posts: Post;
     media: Media;
+    'video-stream-watermarks': VideoStreamWatermark;
+    'live-inputs': LiveInput;
+    'video-stream-analytics': VideoStreamAnalytic;
+    'video-stream-backfills': VideoStreamBackfill;
+    'video-stream-drift': VideoStreamDrift;
     'payload-kv': PayloadKv;
     users: User;
     'payload-jobs': PayloadJob;
@@ -80,6 +85,11 @@ export interface Config {
   collectionsSelect: {
     posts: PostsSelect<false> | PostsSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
+    'video-stream-watermarks': VideoStreamWatermarksSelect<false> | VideoStreamWatermarksSelect<true>;
+    'live-inputs': LiveInputsSelect<false> | LiveInputsSelect<true>;
+    'video-stream-analytics': VideoStreamAnalyticsSelect<false> | VideoStreamAnalyticsSelect<true>;
+    'video-stream-backfills': VideoStreamBackfillsSelect<false> | VideoStreamBackfillsSelect<true>;
+    'video-stream-drift': VideoStreamDriftSelect<false> | VideoStreamDriftSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
     users: UsersSelect<false> | UsersSelect<true>;
     'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
@@ -90,16 +100,31 @@ export interface Config {
   db: {
     defaultIDType: number;
   };
-  globals: {};
-  globalsSelect: {};
+  fallbackLocale: null;
+  globals: {
+    'video-stream-signing-keys': VideoStreamSigningKey;
+    'payload-jobs-stats': PayloadJobsStat;
+  };
+  globalsSelect: {
+    'video-stream-signing-keys': VideoStreamSigningKeysSelect<false> | VideoStreamSigningKeysSelect<true>;
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
+  };
   locale: null;
-  user: User & {
-    collection: 'users';
+  widgets: {
+    collections: CollectionsWidget;
   };
+  user: User;
   jobs: {
     tasks: {
       testTask: TaskTestTask;
       payloadStreamUpdateStatusForcloudflare_stream: TaskPayloadStreamUpdateStatusForcloudflareStream;
+      payloadStreamCopyVideoForcloudflare_stream: TaskPayloadStreamCopyVideoForcloudflareStream;
+      payloadVideoStreamImportLiveRecordings: TaskPayloadVideoStreamImportLiveRecordings;
+      payloadVideoStreamCopyQueuedVideos: TaskPayloadVideoStreamCopyQueuedVideos;
+      payloadVideoStreamSyncAnalytics: TaskPayloadVideoStreamSyncAnalytics;
+      payloadVideoStreamBackfill: TaskPayloadVideoStreamBackfill;
+      payloadVideoStreamReconcile: TaskPayloadVideoStreamReconcile;
+      payloadVideoStreamState: TaskPayloadVideoStreamState;
       inline: {
         input: unknown;
         output: unknown;
@@ -145,6 +170,27 @@ export interface Media {
   id: number;
   prefix?: string | null;
   stream?: {
+    thumbnailTimestampPct?: number | null;
+    /**
+     * Animated preview of a part of the video, e.g. for hover previews
+     */
+    animatedPreview?: {
+      enabled?: boolean | null;
+      format?: ('webp' | 'gif') | null;
+      /**
+       * Start of the preview in seconds
+       */
+      start?: number | null;
+      /**
+       * Length of the preview in seconds
+       */
+      duration?: number | null;
+      url?: string | null;
+    };
+    /**
+     * Derived from the stream fields, used to filter and sort list views.
+     */
+    state?: ('pending' | 'queued' | 'processing' | 'ready' | 'error') | null;
     videoId?: string | null;
     thumbnailUrl?: string | null;
     readyToStream?: boolean | null;
@@ -153,13 +199,48 @@ export interface Media {
     width?: number | null;
     height?: number | null;
     size?: number | null;
+    progress?: number | null;
     provider?: string | null;
     error?: string | null;
     errorAt?: string | null;
+    errorReasonCode?: string | null;
+    replacementVideoId?: string | null;
+    /**
+     * The replaced file could not be streamed, the previous video keeps playing.
+     */
+    replacementError?: string | null;
+    waitingForQuota?: boolean | null;
     /**
      * If enabled, the video stream URLs will require signed URLs for access, enhancing security.
      */
     requireSignedURLs?: boolean | null;
+    /**
+     * Live input the video was recorded from
+     */
+    liveInputId?: string | null;
+    recordedAt?: string | null;
+    clippedFrom?: (number | null) | Media;
+    /**
+     * Burned into the video when it is copied to the streaming provider, defaults to the watermark of the collection.
+     */
+    watermark?: (number | null) | VideoStreamWatermark;
+    /**
+     * Text tracks synced to the streaming provider once the video is ready to stream.
+     */
+    captions?:
+      | {
+          /**
+           * BCP 47 language tag, e.g. en or pt-BR
+           */
+          language: string;
+          label?: string | null;
+          source: 'upload' | 'generated';
+          vtt?: string | null;
+          status?: ('pending' | 'inprogress' | 'ready' | 'error') | null;
+          error?: string | null;
+          id?: string | null;
+        }[]
+      | null;
   };
   updatedAt: string;
   createdAt: string;
@@ -173,6 +254,170 @@ export interface Media {
   focalX?: number | null;
   focalY?: number | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-watermarks".
+ */
+export interface VideoStreamWatermark {
+  id: number;
+  /**
+   * Used to choose the default watermark of a collection
+   */
+  name: string;
+  position: 'upperRight' | 'upperLeft' | 'lowerLeft' | 'lowerRight' | 'center';
+  /**
+   * Size of the image relative to the video, from 0 to 1
+   */
+  scale?: number | null;
+  /**
+   * From 0 (transparent) to 1 (opaque)
+   */
+  opacity?: number | null;
+  /**
+   * Space between the image and the edge of the video, from 0 to 1
+   */
+  padding?: number | null;
+  /**
+   * Watermark profiles registered with the streaming providers
+   */
+  providers?:
+    | {
+        provider: string;
+        watermarkId: string;
+        id?: string | null;
+      }[]
+    | null;
+  error?: string | null;
+  updatedAt: string;
+  createdAt: string;
+  url?: string | null;
+  thumbnailURL?: string | null;
+  filename?: string | null;
+  mimeType?: string | null;
+  filesize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  focalX?: number | null;
+  focalY?: number | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "live-inputs".
+ */
+export interface LiveInput {
+  id: number;
+  name: string;
+  /**
+   * Record broadcasts as videos that can be played back after the event
+   */
+  recording?: boolean | null;
+  /**
+   * Broadcast to one of these urls, e.g. from OBS. Keep the keys secret.
+   */
+  ingest?: {
+    rtmpsUrl?: string | null;
+    rtmpsStreamKey?: string | null;
+    srtUrl?: string | null;
+    srtStreamId?: string | null;
+    srtPassphrase?: string | null;
+    webRTCUrl?: string | null;
+  };
+  liveInputId?: string | null;
+  status?: ('connected' | 'reconnecting' | 'disconnected' | 'error') | null;
+  error?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-analytics".
+ */
+export interface VideoStreamAnalytic {
+  id: number;
+  document: {
+    relationTo: 'media';
+    value: number | Media;
+  };
+  documentKey: string;
+  videoId?: string | null;
+  /**
+   * Views over the synced days
+   */
+  views?: number | null;
+  /**
+   * Minutes watched over the synced days
+   */
+  minutesViewed?: number | null;
+  daily?:
+    | {
+        date: string;
+        views?: number | null;
+        minutesViewed?: number | null;
+        id?: string | null;
+      }[]
+    | null;
+  syncedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-backfills".
+ */
+export interface VideoStreamBackfill {
+  id: number;
+  collection: 'media';
+  status: 'running' | 'completed' | 'failed';
+  /**
+   * Videos without a streaming video when the backfill started
+   */
+  total?: number | null;
+  processed?: number | null;
+  /**
+   * Every video is copied by its own copy job
+   */
+  queued?: number | null;
+  waitingForQuota?: number | null;
+  /**
+   * Videos whose copy job could not be queued
+   */
+  failed?: number | null;
+  error?: string | null;
+  cursor?: string | null;
+  cursorId?: string | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-drift".
+ */
+export interface VideoStreamDrift {
+  id: number;
+  issueKey: string;
+  type: 'orphan' | 'missing' | 'stale';
+  provider?: string | null;
+  videoId?: string | null;
+  /**
+   * Document of missing videos and stale statuses, orphaned videos have none
+   */
+  document?: {
+    relationTo: 'media';
+    value: number | Media;
+  } | null;
+  detail?: string | null;
+  /**
+   * Action taken by the auto-fix, the issue is removed once it is gone
+   */
+  fix?: string | null;
+  firstSeenAt?: string | null;
+  lastSeenAt?: string | null;
+  fixedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv".
@@ -213,6 +458,7 @@ export interface User {
       }[]
     | null;
   password?: string | null;
+  collection: 'users';
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -266,7 +512,17 @@ export interface PayloadJob {
     | {
         executedAt: string;
         completedAt: string;
-        taskSlug: 'inline' | 'testTask' | 'payloadStreamUpdateStatusForcloudflare_stream';
+        taskSlug:
+          | 'inline'
+          | 'testTask'
+          | 'payloadStreamUpdateStatusForcloudflare_stream'
+          | 'payloadStreamCopyVideoForcloudflare_stream'
+          | 'payloadVideoStreamImportLiveRecordings'
+          | 'payloadVideoStreamCopyQueuedVideos'
+          | 'payloadVideoStreamSyncAnalytics'
+          | 'payloadVideoStreamBackfill'
+          | 'payloadVideoStreamReconcile'
+          | 'payloadVideoStreamState';
         taskID: string;
         input?:
           | {
@@ -299,10 +555,32 @@ export interface PayloadJob {
         id?: string | null;
       }[]
     | null;
-  taskSlug?: ('inline' | 'testTask' | 'payloadStreamUpdateStatusForcloudflare_stream') | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'testTask'
+        | 'payloadStreamUpdateStatusForcloudflare_stream'
+        | 'payloadStreamCopyVideoForcloudflare_stream'
+        | 'payloadVideoStreamImportLiveRecordings'
+        | 'payloadVideoStreamCopyQueuedVideos'
+        | 'payloadVideoStreamSyncAnalytics'
+        | 'payloadVideoStreamBackfill'
+        | 'payloadVideoStreamReconcile'
+        | 'payloadVideoStreamState'
+      )
+    | null;
   queue?: string | null;
   waitUntil?: string | null;
   processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -321,6 +599,26 @@ export interface PayloadLockedDocument {
         relationTo: 'media';
         value: number | Media;
       } | null)
+    | ({
+        relationTo: 'video-stream-watermarks';
+        value: number | VideoStreamWatermark;
+      } | null)
+    | ({
+        relationTo: 'live-inputs';
+        value: number | LiveInput;
+      } | null)
+    | ({
+        relationTo: 'video-stream-analytics';
+        value: number | VideoStreamAnalytic;
+      } | null)
+    | ({
+        relationTo: 'video-stream-backfills';
+        value: number | VideoStreamBackfill;
+      } | null)
+    | ({
+        relationTo: 'video-stream-drift';
+        value: number | VideoStreamDrift;
+      } | null)
     | ({
         relationTo: 'users';
         value: number | User;
@@ -386,6 +684,17 @@ export interface MediaSelect<T extends boolean = true> {
   stream?:
     | T
     | {
+        thumbnailTimestampPct?: T;
+        animatedPreview?:
+          | T
+          | {
+              enabled?: T;
+              format?: T;
+              start?: T;
+              duration?: T;
+              url?: T;
+            };
+        state?: T;
         videoId?: T;
         thumbnailUrl?: T;
         readyToStream?: T;
@@ -394,11 +703,61 @@ export interface MediaSelect<T extends boolean = true> {
         width?: T;
         height?: T;
         size?: T;
+        progress?: T;
         provider?: T;
         error?: T;
         errorAt?: T;
+        errorReasonCode?: T;
+        replacementVideoId?: T;
+        replacementError?: T;
+        waitingForQuota?: T;
         requireSignedURLs?: T;
+        liveInputId?: T;
+        recordedAt?: T;
+        clippedFrom?: T;
+        watermark?: T;
+        captions?:
+          | T
+          | {
+              language?: T;
+              label?: T;
+              source?: T;
+              vtt?: T;
+              status?: T;
+              error?: T;
+              id?: T;
+            };
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  url?: T;
+  thumbnailURL?: T;
+  filename?: T;
+  mimeType?: T;
+  filesize?: T;
+  width?: T;
+  height?: T;
+  focalX?: T;
+  focalY?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-watermarks_select".
+ */
+export interface VideoStreamWatermarksSelect<T extends boolean = true> {
+  name?: T;
+  position?: T;
+  scale?: T;
+  opacity?: T;
+  padding?: T;
+  providers?:
+    | T
+    | {
+        provider?: T;
+        watermarkId?: T;
+        id?: T;
       };
+  error?: T;
   updatedAt?: T;
   createdAt?: T;
   url?: T;
@@ -411,6 +770,89 @@ export interface MediaSelect<T extends boolean = true> {
   focalX?: T;
   focalY?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "live-inputs_select".
+ */
+export interface LiveInputsSelect<T extends boolean = true> {
+  name?: T;
+  recording?: T;
+  ingest?:
+    | T
+    | {
+        rtmpsUrl?: T;
+        rtmpsStreamKey?: T;
+        srtUrl?: T;
+        srtStreamId?: T;
+        srtPassphrase?: T;
+        webRTCUrl?: T;
+      };
+  liveInputId?: T;
+  status?: T;
+  error?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-analytics_select".
+ */
+export interface VideoStreamAnalyticsSelect<T extends boolean = true> {
+  document?: T;
+  documentKey?: T;
+  videoId?: T;
+  views?: T;
+  minutesViewed?: T;
+  daily?:
+    | T
+    | {
+        date?: T;
+        views?: T;
+        minutesViewed?: T;
+        id?: T;
+      };
+  syncedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-backfills_select".
+ */
+export interface VideoStreamBackfillsSelect<T extends boolean = true> {
+  collection?: T;
+  status?: T;
+  total?: T;
+  processed?: T;
+  queued?: T;
+  waitingForQuota?: T;
+  failed?: T;
+  error?: T;
+  cursor?: T;
+  cursorId?: T;
+  startedAt?: T;
+  finishedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-drift_select".
+ */
+export interface VideoStreamDriftSelect<T extends boolean = true> {
+  issueKey?: T;
+  type?: T;
+  provider?: T;
+  videoId?: T;
+  document?: T;
+  detail?: T;
+  fix?: T;
+  firstSeenAt?: T;
+  lastSeenAt?: T;
+  fixedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv_select".
@@ -469,6 +911,7 @@ export interface PayloadJobsSelect<T extends boolean = true> {
   queue?: T;
   waitUntil?: T;
   processing?: T;
+  meta?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -504,6 +947,80 @@ export interface PayloadMigrationsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-signing-keys".
+ */
+export interface VideoStreamSigningKey {
+  id: number;
+  keys?:
+    | {
+        provider: string;
+        keyId: string;
+        privateKey: string;
+        activatedAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: number;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "video-stream-signing-keys_select".
+ */
+export interface VideoStreamSigningKeysSelect<T extends boolean = true> {
+  keys?:
+    | T
+    | {
+        provider?: T;
+        keyId?: T;
+        privateKey?: T;
+        activatedAt?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "collections_widget".
+ */
+export interface CollectionsWidget {
+  data?: {
+    [k: string]: unknown;
+  };
+  width: 'full';
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "TaskTestTask".
@@ -523,9 +1040,73 @@ export interface TaskPayloadStreamUpdateStatusForcloudflareStream {
   input: {
     collectionSlug: string;
     documentId: string;
+    attempt?: number | null;
+    pollingStartedAt?: string | null;
+  };
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadStreamCopyVideoForcloudflare_stream".
+ */
+export interface TaskPayloadStreamCopyVideoForcloudflareStream {
+  input: {
+    collectionSlug: string;
+    documentId: string;
+    replacement?: boolean | null;
   };
   output?: unknown;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamImportLiveRecordings".
+ */
+export interface TaskPayloadVideoStreamImportLiveRecordings {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamCopyQueuedVideos".
+ */
+export interface TaskPayloadVideoStreamCopyQueuedVideos {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamSyncAnalytics".
+ */
+export interface TaskPayloadVideoStreamSyncAnalytics {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamBackfill".
+ */
+export interface TaskPayloadVideoStreamBackfill {
+  input: {
+    backfillId: string;
+  };
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamReconcile".
+ */
+export interface TaskPayloadVideoStreamReconcile {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPayloadVideoStreamState".
+ */
+export interface TaskPayloadVideoStreamState {
+  input?: unknown;
+  output?: unknown;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
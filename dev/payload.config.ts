@@ -157,6 +157,10 @@ const buildConfigWithMemoryDB = async () => {
         }, // enable signed download URLs
       }),
       videoStream({
+        adminAccess: ({ req }) => Boolean(req.user),
+        analytics: true,
+        backfill: true,
+        clips: true,
         collections: {
           media: true,
         },
@@ -167,7 +171,20 @@ const buildConfigWithMemoryDB = async () => {
           generateDownloads: true,
           requireSignedURLs: true,
         }),
+        directUploads: true,
+        liveInputs: true,
+        liveRecordings: {
+          collection: 'media',
+          liveInputIds: (process.env.CLOUDFLARE_STREAM_LIVE_INPUT_IDS || '')
+            .split(',')
+            .filter(Boolean),
+        },
+        quota: {
+          onExceeded: 'queue',
+        },
+        reconciliation: true,
         requireSignedURLs: true,
+        watermarks: true,
       }),
     ],
     secret: process.env.PAYLOAD_SECRET || 'test-secret_key',
@@ -0,0 +1,146 @@
+import type { JsonObject, TaskConfig } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { streamingService } from '../src/services/streamingService.js'
+import { copyQueuedVideosTask } from '../src/tasks/copyQueuedVideos.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const doc = {
+  id: 'doc-1',
+  filename: 'video.mp4',
+  mimeType: 'video/mp4',
+  url: 'https://example.com/video.mp4',
+}
+
+const { docs, queued, req, reset, updates } = createFakePayload(() => ({
+  collections: {
+    media: {
+      config: {
+        upload: {
+          // signs downloads like `s3Storage` with `signedDownloads`
+          handlers: [
+            () =>
+              new Response(null, {
+                headers: { location: 'https://bucket.example.com/media/video.mp4?signature=1' },
+                status: 302,
+              }),
+          ],
+        },
+      },
+    },
+  },
+}))
+
+/**
+ * Run a task handler with the fake request
+ */
+const runTask = async ({ handler }: TaskConfig) => {
+  if (typeof handler !== 'function') {
+    throw new Error('Expected an inline task handler')
+  }
+
+  return await handler({ input: {}, req } as unknown as Parameters<typeof handler>[0])
+}
+
+/**
+ * Memory adapter with one 10 seconds video stored
+ */
+const createAdapter = async (storageLimitMinutes: number) => {
+  const adapter = memoryStreamAdapter({ durationInSeconds: 10, storageLimitMinutes })
+  await adapter.copyVideo({ meta: { name: 'stored.mp4' }, url: '' })
+
+  return adapter
+}
+
+beforeEach(() => {
+  reset()
+  docs.media = [doc]
+})
+
+describe('quota guard', () => {
+  test('passes the minutes left on the account as the maximum duration', async () => {
+    const adapter = await createAdapter(1)
+
+    const result = await streamingService({ adapter, req }).copyVideoToStreamingPlatform({
+      collectionSlug: 'media',
+      doc,
+      quota: { reserveMinutes: 0.5 },
+    })
+
+    expect(result).toEqual({ success: true })
+    expect([...adapter.videos.values()][1]?.maxDurationSeconds).toBe(20)
+    expect(updates[0]).toMatchObject({ data: { stream: { error: '', waitingForQuota: false } } })
+  })
+
+  test('refuses videos once the quota is used up', async () => {
+    const adapter = await createAdapter(10 / 60)
+
+    const result = await streamingService({ adapter, req }).copyVideoToStreamingPlatform({
+      collectionSlug: 'media',
+      doc,
+      quota: {},
+    })
+
+    expect(result).toMatchObject({ queued: false, success: false })
+    expect(adapter.videos.size).toBe(1)
+    expect(updates[0]).toMatchObject({
+      id: 'doc-1',
+      data: { stream: { waitingForQuota: false } },
+    })
+    expect((updates[0]?.data as JsonObject).stream).toMatchObject({
+      error: expect.stringContaining('quota'),
+    })
+  })
+
+  test('queues videos once the quota is used up when configured', async () => {
+    const adapter = await createAdapter(10 / 60)
+
+    const result = await streamingService({ adapter, req }).copyVideoToStreamingPlatform({
+      collectionSlug: 'media',
+      doc,
+      quota: { onExceeded: 'queue' },
+    })
+
+    expect(result).toMatchObject({ queued: true, success: false })
+    expect(updates[0]).toMatchObject({ data: { stream: { waitingForQuota: true } } })
+  })
+
+  test('fails videos longer than the maximum duration', async () => {
+    const adapter = memoryStreamAdapter({ durationInSeconds: 120 })
+    const { result } = await adapter.copyVideo({
+      maxDurationSeconds: 60,
+      meta: { name: 'long.mp4' },
+      url: '',
+    })
+    adapter.tick(result?.videoId, 3)
+
+    const status = await adapter.getStatus(result?.videoId ?? '')
+
+    expect(status.result).toMatchObject({
+      readyToStream: false,
+      status: { errorReasonCode: 'ERR_DURATION_EXCEED_CONSTRAINT', state: 'error' },
+    })
+  })
+
+  test('copies the queued videos with a signed url once minutes are available', async () => {
+    const adapter = await createAdapter(1)
+
+    docs.media = [{ ...doc, stream: { waitingForQuota: true } }]
+
+    await runTask(
+      copyQueuedVideosTask({
+        quota: { onExceeded: 'queue' },
+        requireSignedURLs: true,
+        streamCollections: [{ slug: 'media', adapter }],
+      }),
+    )
+
+    expect([...adapter.videos.values()][1]?.url).toBe(
+      'https://bucket.example.com/media/video.mp4?signature=1',
+    )
+    expect(docs.media[0]?.stream).toMatchObject({ error: '', waitingForQuota: false })
+    expect(queued()).toHaveLength(1)
+  })
+})
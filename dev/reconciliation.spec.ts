@@ -0,0 +1,263 @@
+import type { JsonObject } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import type { StreamCollection } from '../src/types.js'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { reconciliationCollectionSlug } from '../src/collections/reconciliation.js'
+import { reconciliationService } from '../src/services/reconciliationService.js'
+import { streamingService } from '../src/services/streamingService.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter({ autoTick: false })
+
+const streamCollections: StreamCollection[] = [{ slug: 'media', adapter }]
+
+const { docs, payload, req, reset } = createFakePayload(() => ({
+  collections: {
+    media: {
+      config: {
+        upload: {
+          // signs downloads like `s3Storage` with `signedDownloads`
+          handlers: [
+            (_req: unknown, { params }: { params: { filename: string } }) =>
+              new Response(null, {
+                headers: { location: `https://bucket.example.com/${params.filename}?signature=1` },
+                status: 302,
+              }),
+          ],
+        },
+      },
+    },
+  },
+}))
+
+const copy = async (name: string): Promise<string> => {
+  const { result } = await adapter.copyVideo({ meta: { name }, url: `https://example.com/${name}` })
+
+  return result?.videoId ?? ''
+}
+
+const video = (id: string, stream: JsonObject) => ({
+  id,
+  filename: `${id}.mp4`,
+  mimeType: 'video/mp4',
+  stream: { provider: 'memory', ...stream },
+  url: `https://example.com/${id}.mp4`,
+})
+
+const report = () =>
+  (docs[reconciliationCollectionSlug] ?? []).map(({ type, fix, issueKey }) => ({
+    type,
+    fix,
+    issueKey,
+  }))
+
+beforeEach(() => {
+  adapter.reset()
+  reset()
+})
+
+describe('reconciliationService', () => {
+  test('reports orphaned videos, missing videos and stale statuses', async () => {
+    const linked = await copy('linked.mp4')
+    const stale = await copy('stale.mp4')
+    await copy('orphan.mp4')
+    adapter.tick(stale, 3)
+
+    docs.media = [
+      video('doc-1', { readyToStream: false, videoId: linked }),
+      video('doc-2', { readyToStream: false, videoId: stale }),
+      video('doc-3', { readyToStream: true, videoId: 'deleted-video' }),
+      // failed copy, the stream group has no video
+      video('doc-4', { error: 'Failed to copy video: Bad Request' }),
+      // waiting for the quota, not drift
+      video('doc-5', { error: 'Quota used up', waitingForQuota: true }),
+    ]
+
+    const result = await reconciliationService({ adapter, req }).reconcile({
+      config: {},
+      requireSignedURLs: false,
+      streamCollections,
+    })
+
+    expect(result).toEqual({ fixed: 0, missing: 2, orphans: 1, stale: 1 })
+    expect(report().map(({ issueKey }) => issueKey)).toEqual([
+      'stale:memory:media:doc-2',
+      'missing:memory:media:doc-3',
+      'missing:memory:media:doc-4',
+      expect.stringMatching(/^orphan:memory:/),
+    ])
+    expect(adapter.videos.size).toBe(3)
+  })
+
+  test('fixes the drift when enabled and removes resolved issues', async () => {
+    const stale = await copy('stale.mp4')
+    adapter.tick(stale, 3)
+
+    docs.media = [
+      video('doc-1', { readyToStream: false, videoId: stale }),
+      video('doc-2', { readyToStream: true, videoId: 'deleted-video' }),
+    ]
+
+    const service = reconciliationService({ adapter, req })
+    const config = { autoFix: { missing: true, stale: true } }
+
+    const result = await service.reconcile({
+      config,
+      requireSignedURLs: false,
+      streamCollections,
+    })
+
+    expect(result).toMatchObject({ fixed: 2, missing: 1, stale: 1 })
+    expect(docs.media?.[0]?.stream).toMatchObject({ readyToStream: true })
+    expect(docs.media?.[1]?.stream).toMatchObject({ readyToStream: false })
+    expect(adapter.videos.has(docs.media?.[1]?.stream.videoId)).toBe(true)
+    expect(payload.jobs.queue).toHaveBeenCalledOnce()
+    expect(report().map(({ fix }) => fix)).toEqual(['Status refreshed', 'Copied again'])
+
+    // the new copy is still processing, everything else is in sync
+    await service.reconcile({ config, requireSignedURLs: false, streamCollections })
+
+    expect(report()).toEqual([])
+  })
+
+  test('does not report errors stored by the plugin or live recordings as drift', async () => {
+    const failed = await copy('failed.mp4')
+    const timedOut = await copy('timed-out.mp4')
+    adapter.recordLiveInput('live-input')
+    adapter.failVideo(failed, { errorReasonCode: 'ERR_NON_VIDEO' })
+    adapter.tick(failed, 3)
+
+    docs.media = [
+      video('doc-1', { readyToStream: false, videoId: failed }),
+      video('doc-2', {
+        error: 'The video was not ready to stream after 24 hours',
+        readyToStream: false,
+        videoId: timedOut,
+      }),
+    ]
+
+    const service = reconciliationService({ adapter, req })
+    const config = { autoFix: { stale: true } }
+
+    // the failure only has an error code, the stored error text is the one of the plugin
+    expect(
+      await service.reconcile({ config, requireSignedURLs: false, streamCollections }),
+    ).toEqual({ fixed: 1, missing: 0, orphans: 0, stale: 1 })
+    expect(docs.media?.[0]?.stream).toMatchObject({ errorReasonCode: 'ERR_NON_VIDEO' })
+
+    expect(
+      await service.reconcile({ config, requireSignedURLs: false, streamCollections }),
+    ).toEqual({ fixed: 0, missing: 0, orphans: 0, stale: 0 })
+  })
+
+  test('does not report the video of a replaced file as orphaned', async () => {
+    const current = await copy('current.mp4')
+    const replacement = await copy('replaced.mp4')
+    adapter.tick(current, 3)
+
+    docs.media = [
+      video('doc-1', { readyToStream: true, replacementVideoId: replacement, videoId: current }),
+    ]
+
+    const result = await reconciliationService({ adapter, req }).reconcile({
+      config: { autoFix: { orphans: true }, orphanGracePeriodHours: 0 },
+      requireSignedURLs: false,
+      streamCollections,
+    })
+
+    expect(result).toEqual({ fixed: 0, missing: 0, orphans: 0, stale: 0 })
+    expect(adapter.videos.has(replacement)).toBe(true)
+  })
+
+  test('copies missing videos again with a signed url', async () => {
+    docs.media = [video('doc-1', { readyToStream: true, videoId: 'deleted-video' })]
+
+    const result = await reconciliationService({ adapter, req }).reconcile({
+      config: { autoFix: { missing: true } },
+      requireSignedURLs: true,
+      streamCollections,
+    })
+
+    expect(result).toMatchObject({ fixed: 1, missing: 1 })
+    expect([...adapter.videos.values()][0]?.url).toBe(
+      'https://bucket.example.com/doc-1.mp4?signature=1',
+    )
+  })
+
+  test('links the videos of every adapter of the provider sharing the account', async () => {
+    // a second adapter instance on the same account, e.g. with other options for its collection
+    const sameAccount = Object.create(adapter) as typeof adapter
+    const collections: StreamCollection[] = [
+      { slug: 'media', adapter },
+      { slug: 'clips', adapter: sameAccount },
+    ]
+
+    const clip = await copy('clip.mp4')
+    adapter.tick(clip, 3)
+
+    docs.media = []
+    docs.clips = [video('clip-1', { readyToStream: false, videoId: clip })]
+
+    const config = { autoFix: { orphans: true }, orphanGracePeriodHours: 0 }
+
+    expect(
+      await reconciliationService({ adapter: sameAccount, req }).reconcile({
+        config,
+        requireSignedURLs: false,
+        streamCollections: collections,
+      }),
+    ).toEqual({ fixed: 0, missing: 0, orphans: 0, stale: 1 })
+
+    // the clip is neither an orphan nor compared again by the adapter of the media collection
+    expect(
+      await reconciliationService({ adapter, req }).reconcile({
+        config,
+        requireSignedURLs: false,
+        streamCollections: collections,
+      }),
+    ).toEqual({ fixed: 0, missing: 0, orphans: 0, stale: 0 })
+    expect(adapter.videos.has(clip)).toBe(true)
+    expect(report().map(({ issueKey }) => issueKey)).toEqual(['stale:memory:clips:clip-1'])
+  })
+
+  test('deletes orphaned videos once the grace period passed', async () => {
+    const orphan = await copy('orphan.mp4')
+    const service = reconciliationService({ adapter, req })
+    const config = { autoFix: { orphans: true }, orphanGracePeriodHours: 24 }
+
+    await service.reconcile({
+      config,
+      now: new Date('2026-01-01T00:00:00Z'),
+      requireSignedURLs: false,
+      streamCollections,
+    })
+
+    expect(adapter.videos.has(orphan)).toBe(true)
+
+    const result = await service.reconcile({
+      config,
+      now: new Date('2026-01-02T00:00:00Z'),
+      requireSignedURLs: false,
+      streamCollections,
+    })
+
+    expect(result).toEqual({ fixed: 1, missing: 0, orphans: 1, stale: 0 })
+    expect(adapter.videos.has(orphan)).toBe(false)
+    expect(report()).toEqual([
+      { type: 'orphan', fix: 'Deleted from the provider', issueKey: `orphan:memory:${orphan}` },
+    ])
+  })
+})
+
+describe('streamingService delete', () => {
+  test('deletes the video of a deleted document from the provider', async () => {
+    const videoId = await copy('deleted.mp4')
+
+    await streamingService({ adapter, req }).delete(video('doc-1', { videoId }))
+
+    expect(adapter.videos.has(videoId)).toBe(false)
+  })
+})
@@ -0,0 +1,135 @@
+import type { JsonObject, TypeWithID } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { isFileReplaced, streamingService } from '../src/services/streamingService.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const adapter = memoryStreamAdapter({ autoTick: false })
+
+const { docs, req, reset } = createFakePayload()
+
+const doc = () => docs.media?.[0] as JsonObject & TypeWithID
+
+const createVideo = async (name: string) => {
+  const { result } = await adapter.copyVideo({ meta: { name }, url: '' })
+  adapter.tick(result?.videoId, 3)
+  return result?.videoId as string
+}
+
+let previousVideoId: string
+
+beforeEach(async () => {
+  adapter.reset()
+  reset()
+  previousVideoId = await createVideo('video.mp4')
+  docs.media = [
+    {
+      id: 'doc-1',
+      filename: 'replaced.mp4',
+      filesize: 2048,
+      mimeType: 'video/mp4',
+      stream: { readyToStream: true, thumbnailTimestampPct: 0.5, videoId: previousVideoId },
+      url: 'https://example.com/replaced.mp4',
+    },
+  ]
+})
+
+const replace = async () => {
+  const service = streamingService({ adapter, req })
+
+  expect(await service.copyReplacement({ collectionSlug: 'media', doc: doc() })).toBe(true)
+
+  return service
+}
+
+describe('file replacement', () => {
+  test('detects a replaced file', () => {
+    const previous = {
+      filename: 'video.mp4',
+      filesize: 1024,
+      url: 'https://example.com/video.mp4',
+    }
+
+    expect(isFileReplaced({ ...previous, title: 'New title' }, previous)).toBe(false)
+    expect(isFileReplaced({ ...previous, filesize: 2048 }, previous)).toBe(true)
+    expect(isFileReplaced({ ...previous, filename: 'other.mp4' }, previous)).toBe(true)
+    expect(isFileReplaced({}, previous)).toBe(false)
+  })
+
+  test('keeps the previous video until the replacement is ready to stream', async () => {
+    const service = await replace()
+    const replacementVideoId = doc().stream.replacementVideoId
+
+    expect(adapter.videos.get(replacementVideoId)?.url).toBe('https://example.com/replaced.mp4')
+    expect(doc().stream.videoId).toBe(previousVideoId)
+
+    expect(await service.updateReplacementStatus({ collectionSlug: 'media', doc: doc() })).toBe(
+      true,
+    )
+    expect(doc().stream.videoId).toBe(previousVideoId)
+
+    adapter.tick(replacementVideoId, 3)
+
+    expect(await service.updateReplacementStatus({ collectionSlug: 'media', doc: doc() })).toBe(
+      false,
+    )
+    expect(doc().stream).toMatchObject({
+      readyToStream: true,
+      replacementVideoId: '',
+      thumbnailTimestampPct: null,
+      videoId: replacementVideoId,
+    })
+    // the previous video is deleted only after the swap
+    expect(adapter.videos.has(previousVideoId)).toBe(false)
+    expect(adapter.videos.has(replacementVideoId)).toBe(true)
+  })
+
+  test('keeps the previous video when the replacement fails', async () => {
+    const service = await replace()
+    const replacementVideoId = doc().stream.replacementVideoId
+
+    adapter.failVideo(replacementVideoId, {
+      errorReasonCode: 'ERR_NON_VIDEO',
+      errorReasonText: 'The file was not recognized as a valid video file.',
+    })
+    adapter.tick(replacementVideoId, 3)
+
+    expect(await service.updateReplacementStatus({ collectionSlug: 'media', doc: doc() })).toBe(
+      false,
+    )
+    expect(doc().stream).toMatchObject({
+      readyToStream: true,
+      replacementError: 'The file was not recognized as a valid video file.',
+      replacementVideoId: '',
+      videoId: previousVideoId,
+    })
+    expect(adapter.videos.has(previousVideoId)).toBe(true)
+    expect(adapter.videos.has(replacementVideoId)).toBe(false)
+  })
+
+  test('replaces a pending replacement when the file changes again', async () => {
+    await replace()
+    const firstReplacementId = doc().stream.replacementVideoId
+
+    await replace()
+
+    expect(adapter.videos.has(firstReplacementId)).toBe(false)
+    expect(doc().stream.replacementVideoId).not.toBe(firstReplacementId)
+    expect(adapter.videos.size).toBe(2)
+  })
+
+  test('records a failed copy without touching the current video', async () => {
+    adapter.failNext('copyVideo', new Error('Bad Request'))
+
+    const service = streamingService({ adapter, req })
+
+    expect(await service.copyReplacement({ collectionSlug: 'media', doc: doc() })).toBe(false)
+    expect(doc().stream).toMatchObject({
+      replacementError: 'Bad Request',
+      replacementVideoId: '',
+      videoId: previousVideoId,
+    })
+  })
+})
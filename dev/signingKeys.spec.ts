@@ -0,0 +1,143 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { signingKeysEndpoints } from '../src/endpoints/signingKeys.js'
+import { signingKeyService } from '../src/services/signingKeyService.js'
+
+const adapter = memoryStreamAdapter()
+
+const [listEndpoint, createEndpoint, revokeEndpoint] = signingKeysEndpoints({
+  access: ({ req }) => Boolean(req.user?.roles?.includes('admin')),
+  adapters: [adapter, adapter],
+})
+
+let global: JsonObject = {}
+
+const payload = {
+  decrypt: (value: string) => value.replace(/^encrypted:/, ''),
+  encrypt: (value: string) => `encrypted:${value}`,
+  findGlobal: () => Promise.resolve(global),
+  logger: {
+    error: () => undefined,
+    info: () => undefined,
+  },
+  updateGlobal: ({ data }: { data: JsonObject }) => {
+    global = { ...global, ...data }
+    return Promise.resolve(global)
+  },
+}
+
+const createRequest = (routeParams: JsonObject = {}, roles = ['admin']) => {
+  return {
+    payload,
+    routeParams: { provider: 'memory', ...routeParams },
+    user: { id: 'user-1', roles },
+  } as unknown as PayloadRequest
+}
+
+beforeEach(() => {
+  adapter.reset()
+  global = {}
+})
+
+describe('signing keys endpoints', () => {
+  test('creates a key, stores it encrypted and hot-swaps the adapter', async () => {
+    const response = await createEndpoint.handler(createRequest())
+    const { id } = (await response.json()) as { id: string }
+
+    expect(response.status).toBe(201)
+    expect(adapter.signingKey?.id).toBe(id)
+    expect(global.keys).toEqual([
+      expect.objectContaining({
+        keyId: id,
+        privateKey: `encrypted:memory-private-key-${id}`,
+        provider: 'memory',
+      }),
+    ])
+
+    const list = await listEndpoint.handler(createRequest())
+
+    expect(await list.json()).toEqual({
+      providers: [
+        { activeKeyId: id, keys: [{ id, created: expect.any(String) }], provider: 'memory' },
+      ],
+    })
+  })
+
+  test('rotates keys and only revokes inactive keys', async () => {
+    const first = (await (await createEndpoint.handler(createRequest())).json()) as { id: string }
+    const second = (await (await createEndpoint.handler(createRequest())).json()) as {
+      id: string
+    }
+
+    expect(adapter.signingKey?.id).toBe(second.id)
+    expect(global.keys).toHaveLength(1)
+
+    const revokeActive = await revokeEndpoint.handler(createRequest({ keyId: second.id }))
+
+    expect(revokeActive.status).toBe(400)
+    expect(adapter.signingKeys.has(second.id)).toBe(true)
+
+    // other server processes may still sign with the previous key for a minute
+    const revokeEarly = await revokeEndpoint.handler(createRequest({ keyId: first.id }))
+
+    expect(revokeEarly.status).toBe(409)
+    expect(adapter.signingKeys.has(first.id)).toBe(true)
+
+    global.keys = (global.keys as JsonObject[]).map((key) => ({
+      ...key,
+      activatedAt: new Date(Date.now() - 61 * 1000).toISOString(),
+    }))
+
+    const revokeInactive = await revokeEndpoint.handler(createRequest({ keyId: first.id }))
+
+    expect(revokeInactive.status).toBe(200)
+    expect([...adapter.signingKeys.keys()]).toEqual([second.id])
+  })
+
+  test('rejects users without access', async () => {
+    const response = await createEndpoint.handler(createRequest({}, ['editor']))
+
+    expect(response.status).toBe(403)
+    expect(adapter.signingKeys.size).toBe(0)
+  })
+})
+
+describe('signingKeyService', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('switches to a key rotated by another server process when signing', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+
+    const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+    const videoId = result?.videoId as string
+
+    global = {
+      keys: [{ keyId: 'key-1', privateKey: 'encrypted:private-key-1', provider: 'memory' }],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }
+
+    signingKeyService({
+      payload: payload as unknown as PayloadRequest['payload'],
+    }).watchActiveKeys([adapter])
+
+    expect(await adapter.getSignedToken(videoId)).toBe(`signed-key-1-${videoId}`)
+    expect(adapter.signingKey).toEqual({ id: 'key-1', pem: 'private-key-1' })
+
+    // rotated from the admin of another server process
+    global = {
+      keys: [{ keyId: 'key-2', privateKey: 'encrypted:private-key-2', provider: 'memory' }],
+      updatedAt: '2026-01-01T00:00:10.000Z',
+    }
+
+    expect(await adapter.getSignedToken(videoId)).toBe(`signed-key-1-${videoId}`)
+
+    vi.advanceTimersByTime(60 * 1000)
+
+    expect(await adapter.getSignedToken(videoId)).toBe(`signed-key-2-${videoId}`)
+  })
+})
@@ -0,0 +1,83 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { describe, expect, test } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { streamStateHook } from '../src/hooks/beforeChange.js'
+import { streamStateTask } from '../src/tasks/index.js'
+import { getStreamState } from '../src/utils/streamState.js'
+import { createFakePayload } from './helpers/fakePayload.js'
+
+const runHook = (data: Record<string, unknown>, originalDoc?: Record<string, unknown>) =>
+  streamStateHook()({
+    collection: {} as never,
+    context: {},
+    data,
+    operation: originalDoc ? 'update' : 'create',
+    originalDoc,
+    req: {} as PayloadRequest,
+  })
+
+describe('stream state', () => {
+  test('derives the state from the stream fields', () => {
+    expect(getStreamState(undefined)).toBe('pending')
+    expect(getStreamState({ videoId: 'v1' })).toBe('processing')
+    expect(getStreamState({ error: 'Error copying video', videoId: 'v1' })).toBe('error')
+    expect(getStreamState({ error: 'Quota used up', waitingForQuota: true })).toBe('queued')
+    expect(getStreamState({ readyToStream: true, videoId: 'v1' })).toBe('ready')
+  })
+
+  test('stores the state merged with the previous stream fields on change', async () => {
+    const data = await runHook(
+      { stream: { readyToStream: true } },
+      { mimeType: 'video/mp4', stream: { error: '', videoId: 'v1' } },
+    )
+
+    expect(data.stream).toEqual({ readyToStream: true, state: 'ready' })
+  })
+
+  test('leaves documents that are not videos alone', async () => {
+    const data = await runHook({ mimeType: 'image/png', stream: {} })
+
+    expect(data.stream).toEqual({})
+  })
+
+  test('stores the state of the videos saved before it existed', async () => {
+    const { docs, req } = createFakePayload((docs) => ({
+      // videos without a stream state, a page at a time
+      find: ({ collection, limit }: { collection: string; limit: number }) =>
+        Promise.resolve({
+          docs: (docs[collection] ?? [])
+            .filter((doc) => doc.mimeType.startsWith('video/') && !doc.stream?.state)
+            .slice(0, limit),
+        }),
+    }))
+
+    docs.media = [
+      { id: 'doc-1', mimeType: 'video/mp4', stream: { readyToStream: true, videoId: 'v1' } },
+      { id: 'doc-2', mimeType: 'video/mp4', stream: { error: 'Failed', videoId: 'v2' } },
+      { id: 'doc-3', mimeType: 'video/mp4', stream: { state: 'processing', videoId: 'v3' } },
+      { id: 'doc-4', mimeType: 'image/png', stream: {} },
+    ]
+
+    const { handler } = streamStateTask({
+      streamCollections: [{ slug: 'media', adapter: memoryStreamAdapter() }],
+    })
+
+    if (typeof handler !== 'function') {
+      throw new Error('Expected an inline task handler')
+    }
+
+    const { output } = (await handler({ input: {}, req } as unknown as Parameters<
+      typeof handler
+    >[0])) as { output: JsonObject }
+
+    expect(output.data).toEqual({ updated: 2 })
+    expect(docs.media.map(({ stream }) => stream.state)).toEqual([
+      'ready',
+      'error',
+      'processing',
+      undefined,
+    ])
+  })
+})
@@ -0,0 +1,121 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { beforeEach, describe, expect, test } from 'vitest'
+
+import { cloudflareStreamAdapter, memoryStreamAdapter } from '../src/adapters/index.js'
+import { thumbnailEndpoint } from '../src/endpoints/thumbnail.js'
+import { streamingService } from '../src/services/streamingService.js'
+
+const adapter = memoryStreamAdapter()
+
+const createRequest = (doc?: JsonObject, searchParams = '') => {
+  return {
+    payload: {
+      findByID: () => Promise.resolve(doc),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+    },
+    routeParams: { id: 'doc-1', collection: 'media' },
+    searchParams: new URLSearchParams(searchParams),
+    user: { id: 'user-1' },
+  } as unknown as PayloadRequest
+}
+
+const createVideo = async () => {
+  const { result } = await adapter.copyVideo({ meta: { name: 'video.mp4' }, url: '' })
+  adapter.tick(result?.videoId, 3)
+  return result?.videoId as string
+}
+
+beforeEach(() => {
+  adapter.reset()
+})
+
+describe('thumbnails', () => {
+  test('sets the poster frame on the provider when the timestamp changes', async () => {
+    const videoId = await createVideo()
+
+    const stream = await streamingService({ adapter, req: createRequest() }).updateThumbnails({
+      data: { stream: { thumbnailTimestampPct: 0.25 } },
+      originalDoc: { stream: { readyToStream: true, videoId } },
+    })
+
+    expect(adapter.videos.get(videoId)?.thumbnailTimestampPct).toBe(0.25)
+    expect(stream).toMatchObject({
+      thumbnailTimestampPct: 0.25,
+      thumbnailUrl: `https://stream.memory.local/${videoId}/thumbnails/thumbnail.jpg?pct=0.25`,
+      videoId,
+    })
+  })
+
+  test('leaves the provider alone when the timestamp is unchanged', async () => {
+    const videoId = await createVideo()
+
+    await streamingService({ adapter, req: createRequest() }).updateThumbnails({
+      data: { stream: { thumbnailTimestampPct: 0.25 } },
+      originalDoc: { stream: { thumbnailTimestampPct: 0.25, videoId } },
+    })
+
+    expect(adapter.calls.some(({ method }) => method === 'setThumbnailTimestamp')).toBe(false)
+  })
+
+  test('stores the url of an enabled animated preview and clears a disabled one', async () => {
+    const videoId = await createVideo()
+    const service = streamingService({ adapter, req: createRequest() })
+
+    const enabled = await service.updateThumbnails({
+      data: {
+        stream: { animatedPreview: { duration: 3, enabled: true, format: 'gif', start: 5 } },
+      },
+      originalDoc: { stream: { videoId } },
+    })
+
+    expect(enabled.animatedPreview).toMatchObject({
+      url: `https://stream.memory.local/${videoId}/thumbnails/thumbnail.gif?time=5s&duration=3s`,
+    })
+
+    const disabled = await service.updateThumbnails({
+      data: { stream: { animatedPreview: { ...enabled.animatedPreview, enabled: false } } },
+      originalDoc: { stream: { videoId } },
+    })
+
+    expect(disabled.animatedPreview).toMatchObject({ url: null })
+  })
+
+  test('redirects the scrubber to the frame of a document', async () => {
+    const videoId = await createVideo()
+    const endpoint = thumbnailEndpoint([{ slug: 'media', adapter }])
+
+    const response = await endpoint.handler(
+      createRequest({ id: 'doc-1', stream: { videoId } }, 'time=12.5&height=180'),
+    )
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe(
+      `https://stream.memory.local/${videoId}/thumbnails/thumbnail.jpg?time=12.5s`,
+    )
+  })
+
+  test('builds Cloudflare Stream frame and animated preview urls', async () => {
+    const cloudflare = cloudflareStreamAdapter({
+      accountId: 'account',
+      apiToken: 'token',
+      customerSubdomain: 'https://customer.cloudflarestream.com',
+    })
+
+    expect(await cloudflare.getThumbnailUrl?.('video-1', { height: 180, time: 12 })).toBe(
+      'https://customer.cloudflarestream.com/video-1/thumbnails/thumbnail.jpg?time=12s&height=180',
+    )
+    expect(
+      await cloudflare.getAnimatedThumbnailUrl?.('video-1', {
+        duration: 4,
+        format: 'webp',
+        start: 2,
+      }),
+    ).toBe(
+      'https://customer.cloudflarestream.com/video-1/thumbnails/thumbnail.webp?duration=4s&time=2s',
+    )
+  })
+})
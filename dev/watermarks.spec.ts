@@ -0,0 +1,165 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+
+import { memoryStreamAdapter } from '../src/adapters/index.js'
+import { streamingService } from '../src/services/streamingService.js'
+import { skipWatermarkSyncContext, watermarkService } from '../src/services/watermarkService.js'
+
+const adapter = memoryStreamAdapter()
+const otherAdapter = memoryStreamAdapter({ providerName: 'other' })
+
+const image = new Blob(['png'], { type: 'image/png' })
+
+const watermark = {
+  id: 'watermark-doc',
+  name: 'logo',
+  opacity: 0.8,
+  padding: 0.05,
+  position: 'lowerRight',
+  scale: 0.2,
+}
+
+const createRequest = (watermarks: JsonObject[] = []) => {
+  const updates: JsonObject[] = []
+
+  const req = {
+    headers: new Headers(),
+    payload: {
+      find: ({ where }: JsonObject) =>
+        Promise.resolve({
+          docs: watermarks.filter(({ name }) => name === where.name.equals),
+        }),
+      findByID: ({ id }: JsonObject) => Promise.resolve(watermarks.find((doc) => doc.id === id)),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+      update: (args: JsonObject) => {
+        updates.push(args)
+        return Promise.resolve(args)
+      },
+    },
+  } as unknown as PayloadRequest
+
+  return { req, updates }
+}
+
+beforeEach(() => {
+  adapter.reset()
+  otherAdapter.reset()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('watermark profiles', () => {
+  test('registers a profile with every provider', async () => {
+    const { req, updates } = createRequest()
+
+    const registrations = await watermarkService({ req }).register({
+      adapters: [adapter, otherAdapter],
+      doc: watermark,
+      file: image,
+    })
+
+    expect(registrations).toEqual([
+      { provider: 'memory', watermarkId: expect.any(String) },
+      { provider: 'other', watermarkId: expect.any(String) },
+    ])
+    expect(adapter.watermarks.get(registrations[0].watermarkId)).toMatchObject({
+      name: 'logo',
+      opacity: 0.8,
+      position: 'lowerRight',
+      scale: 0.2,
+    })
+    expect(updates[0]).toMatchObject({
+      id: 'watermark-doc',
+      context: { [skipWatermarkSyncContext]: true },
+      data: { error: '', providers: registrations },
+    })
+  })
+
+  test('replaces the previous profile and keeps the profiles of failed providers', async () => {
+    const { id: previousId } = await adapter.createWatermark({ name: 'logo', file: image })
+    const { id: otherId } = await otherAdapter.createWatermark({ name: 'logo', file: image })
+
+    otherAdapter.failNext('createWatermark')
+
+    const { req } = createRequest()
+
+    const registrations = await watermarkService({ req }).register({
+      adapters: [adapter, otherAdapter],
+      doc: {
+        ...watermark,
+        providers: [
+          { provider: 'memory', watermarkId: previousId },
+          { provider: 'other', watermarkId: otherId },
+        ],
+      },
+      file: image,
+    })
+
+    expect(adapter.watermarks.has(previousId)).toBe(false)
+    expect(registrations).toContainEqual({ provider: 'other', watermarkId: otherId })
+    expect(registrations).not.toContainEqual({ provider: 'memory', watermarkId: previousId })
+  })
+
+  test('deletes the profiles of a deleted watermark', async () => {
+    const { id } = await adapter.createWatermark({ name: 'logo', file: image })
+    const { req } = createRequest()
+
+    await watermarkService({ req }).delete({
+      adapters: [adapter],
+      doc: { ...watermark, providers: [{ provider: 'memory', watermarkId: id }] },
+    })
+
+    expect(adapter.watermarks.size).toBe(0)
+  })
+})
+
+describe('watermarked copies', () => {
+  test('copies videos with the default watermark of the collection', async () => {
+    const { req } = createRequest([
+      { ...watermark, providers: [{ provider: 'memory', watermarkId: 'watermark-1' }] },
+    ])
+
+    await streamingService({ adapter, req }).copyVideoToStreamingPlatform({
+      collectionSlug: 'media',
+      defaultWatermark: 'logo',
+      doc: {
+        id: 'doc-1',
+        filename: 'video.mp4',
+        mimeType: 'video/mp4',
+        url: 'https://example.com/video.mp4',
+      },
+    })
+
+    expect([...adapter.videos.values()][0]?.watermarkId).toBe('watermark-1')
+  })
+
+  test('registers the watermark chosen on the document when the provider is missing', async () => {
+    const { req } = createRequest([{ ...watermark, id: 'chosen', name: 'chosen' }])
+
+    // the watermark image is downloaded from the upload collection
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(image))
+
+    await streamingService({ adapter, req }).copyVideoToStreamingPlatform({
+      collectionSlug: 'media',
+      defaultWatermark: 'logo',
+      doc: {
+        id: 'doc-1',
+        filename: 'video.mp4',
+        mimeType: 'video/mp4',
+        stream: { watermark: 'chosen' },
+        url: 'https://example.com/video.mp4',
+      },
+    })
+
+    const [watermarkId] = adapter.watermarks.keys()
+
+    expect(watermarkId).toBeDefined()
+    expect([...adapter.videos.values()][0]?.watermarkId).toBe(watermarkId)
+  })
+})
@@ -0,0 +1,107 @@
+import type { JsonObject, PayloadRequest } from 'payload'
+
+import { createHmac } from 'crypto'
+import { describe, expect, test } from 'vitest'
+
+import { cloudflareStreamAdapter } from '../src/adapters/index.js'
+import { webhookEndpoint } from '../src/endpoints/webhook.js'
+
+const webhookSecret = 'webhook-secret'
+
+const adapter = cloudflareStreamAdapter({
+  accountId: 'account',
+  apiToken: 'token',
+  customerSubdomain: 'https://customer.cloudflarestream.com',
+  webhookSecret,
+})
+
+const endpoint = webhookEndpoint([{ slug: 'media', adapter }])
+
+const body = JSON.stringify({
+  duration: 12,
+  input: { height: 720, width: 1280 },
+  readyToStream: true,
+  status: { state: 'ready' },
+  thumbnail: 'https://customer.cloudflarestream.com/video-1/thumbnails/thumbnail.jpg',
+  uid: 'video-1',
+})
+
+const sign = (payload: string, time = Math.floor(Date.now() / 1000)) => {
+  const signature = createHmac('sha256', webhookSecret).update(`${time}.${payload}`).digest('hex')
+  return `time=${time},sig1=${signature}`
+}
+
+const createRequest = (provider: string, signature?: string) => {
+  const updates: JsonObject[] = []
+
+  const req = {
+    headers: new Headers(signature ? { 'Webhook-Signature': signature } : {}),
+    payload: {
+      find: () => Promise.resolve({ docs: [{ id: 'doc-1', stream: { videoId: 'video-1' } }] }),
+      logger: {
+        error: () => undefined,
+        info: () => undefined,
+      },
+      update: (args: JsonObject) => {
+        updates.push(args)
+        return Promise.resolve(args)
+      },
+    },
+    routeParams: { provider },
+    text: () => Promise.resolve(body),
+  } as unknown as PayloadRequest
+
+  return { req, updates }
+}
+
+describe('webhook endpoint', () => {
+  test('writes the stream status of a signed notification', async () => {
+    const { req, updates } = createRequest('cloudflare_stream', sign(body))
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ updated: 1 })
+    expect(updates[0]).toMatchObject({
+      id: 'doc-1',
+      collection: 'media',
+      data: {
+        stream: {
+          durationInSeconds: 12,
+          height: 720,
+          provider: 'cloudflare_stream',
+          readyToStream: true,
+          width: 1280,
+        },
+      },
+    })
+  })
+
+  test('rejects notifications with an invalid signature', async () => {
+    const { req, updates } = createRequest('cloudflare_stream', sign('{"uid":"other"}'))
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(401)
+    expect(updates).toHaveLength(0)
+  })
+
+  test('rejects replayed notifications', async () => {
+    const { req } = createRequest(
+      'cloudflare_stream',
+      sign(body, Math.floor(Date.now() / 1000) - 60 * 60),
+    )
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(401)
+  })
+
+  test('responds with not found for providers without webhook support', async () => {
+    const { req } = createRequest('mux', sign(body))
+
+    const response = await endpoint.handler(req)
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,292 @@
+import { createHash } from 'crypto'
+
+import type { StreamAdapter } from './streamAdapter.js'
+import type { CopyVideoRequest, StreamFieldData, StreamResponse } from './types.js'
+
+type BunnyVideo = {
+  collectionId?: string
+  dateUploaded?: string
+  encodeProgress?: number
+  guid: string
+  height?: number
+  length?: number
+  status: number
+  storageSize?: number
+  thumbnailFileName?: string
+  title?: string
+  width?: number
+}
+
+type BunnyStatusResponse = {
+  id?: string
+  message?: string
+  statusCode?: number
+  success: boolean
+}
+
+export type BunnyStreamAdapterConfig = {
+  /**
+   * Stream library API key
+   */
+  apiKey: string
+  /**
+   * Bunny Stream API base url
+   */
+  baseUrl?: string
+  /**
+   * Pull zone hostname of the library, e.g. `vz-12345678-123.b-cdn.net`, used to build the
+   * thumbnail and HLS playback urls
+   */
+  cdnHostname?: string
+  /**
+   * Collection to put the fetched videos in
+   */
+  collectionId?: string
+  /**
+   * Bunny embed player base url used by `getHTMLVideoPlayer`
+   */
+  embedBaseUrl?: string
+  libraryId: number | string
+  /**
+   * Embed view token authentication key, enables token authenticated embed urls when set
+   */
+  tokenAuthenticationKey?: string
+  /**
+   * Lifetime of the embed tokens in seconds, defaults to 1 hour
+   */
+  tokenExpiresIn?: number
+}
+
+/**
+ * Bunny encode status
+ *
+ * @see https://docs.bunny.net/reference/video_getvideo
+ */
+const bunnyStatusToState: Record<number, string> = {
+  0: 'pendingupload', // created
+  1: 'queued', // uploaded
+  2: 'inprogress', // processing
+  3: 'inprogress', // transcoding
+  4: 'ready', // finished
+  5: 'error', // error
+  6: 'error', // upload failed
+  7: 'inprogress', // jit segmenting
+  8: 'ready', // jit playlists created
+}
+
+const bunnyErrorReasons: Record<number, { code: string; text: string }> = {
+  5: { code: 'ERR_ENCODING', text: 'The video could not be encoded' },
+  6: { code: 'ERR_UPLOAD', text: 'The video could not be fetched from the source url' },
+}
+
+class BunnyStreamAdapter implements StreamAdapter {
+  private readonly apiKey: string
+  private readonly baseUrl: string
+  private readonly cdnHostname?: string
+  private readonly collectionId?: string
+  private readonly embedBaseUrl: string
+  private readonly libraryId: string
+  private readonly tokenAuthenticationKey?: string
+  private readonly tokenExpiresIn: number
+
+  readonly providerName = 'bunny_stream'
+
+  constructor(config: BunnyStreamAdapterConfig) {
+    this.apiKey = config.apiKey
+    this.libraryId = String(config.libraryId)
+    this.collectionId = config.collectionId
+    this.cdnHostname = config.cdnHostname
+    this.baseUrl = config.baseUrl ?? 'https://video.bunnycdn.com'
+    this.embedBaseUrl = config.embedBaseUrl ?? 'https://iframe.mediadelivery.net'
+    this.tokenAuthenticationKey = config.tokenAuthenticationKey
+    this.tokenExpiresIn = config.tokenExpiresIn ?? 60 * 60
+  }
+
+  /**
+   * Sign an embed url of a video, Bunny checks the token against the `expires` of the url
+   *
+   * @param videoId
+   * @param expires expiry as a unix timestamp in seconds
+   * @returns
+   */
+  private signEmbedToken(videoId: string, expires: number): string {
+    return createHash('sha256')
+      .update(`${this.tokenAuthenticationKey}${videoId}${expires}`)
+      .digest('hex')
+  }
+
+  /**
+   * Map Bunny video response to our StreamResponse type
+   *
+   * @param video
+   * @returns
+   */
+  private streamResponseFromBunnyAPI(video: BunnyVideo): StreamResponse {
+    const state = bunnyStatusToState[video.status] ?? 'inprogress'
+    const error = bunnyErrorReasons[video.status]
+
+    return {
+      result: {
+        created: video.dateUploaded ? new Date(`${video.dateUploaded}Z`).toISOString() : undefined,
+        durationInSeconds: video.length,
+        height: video.height || undefined,
+        meta: {
+          name: video.title ?? '',
+        },
+        playback: this.cdnHostname
+          ? { hls: `https://${this.cdnHostname}/${video.guid}/playlist.m3u8` }
+          : undefined,
+        readyToStream: state === 'ready',
+        requireSignedURLs: Boolean(this.tokenAuthenticationKey),
+        size: video.storageSize,
+        status: {
+          errorReasonCode: error?.code,
+          errorReasonText: error?.text,
+          progress: video.encodeProgress,
+          state,
+        },
+        thumbnail:
+          this.cdnHostname && video.thumbnailFileName
+            ? `https://${this.cdnHostname}/${video.guid}/${video.thumbnailFileName}`
+            : undefined,
+        videoId: video.guid,
+        width: video.width || undefined,
+      },
+      success: true,
+    }
+  }
+
+  /**
+   * Fetch a video into the Bunny Stream library from a url
+   *
+   * @param params
+   * @returns
+   */
+  async copyVideo(params: CopyVideoRequest): Promise<StreamResponse> {
+    const url = new URL(`${this.baseUrl}/library/${this.libraryId}/videos/fetch`)
+
+    if (this.collectionId) {
+      url.searchParams.set('collectionId', this.collectionId)
+    }
+
+    const response = await fetch(url, {
+      body: JSON.stringify({
+        title: params.meta.name,
+        url: params.url,
+      }),
+      headers: {
+        AccessKey: this.apiKey,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    const body = (await response.json()) as BunnyStatusResponse
+
+    if (!response.ok || !body.success) {
+      throw new Error(`Failed to copy video: ${body.message || response.statusText}`)
+    }
+
+    if (!body.id) {
+      throw new Error('Failed to copy video: no video ID returned')
+    }
+
+    return await this.getStatus(body.id)
+  }
+
+  /**
+   * Deletes a video by its ID
+   *
+   * @param videoId
+   */
+  async delete(videoId: string): Promise<void> {
+    const url = `${this.baseUrl}/library/${this.libraryId}/videos/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        AccessKey: this.apiKey,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete video: ${response.statusText}`)
+    }
+  }
+
+  /**
+   * Render the Bunny embed player by video ID
+   *
+   * @param stream
+   * @returns
+   */
+  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
+    const videoUrl = new URL(`${this.embedBaseUrl}/embed/${this.libraryId}/${stream.videoId}`)
+    const signedToken = await this.getSignedToken(stream.videoId)
+
+    if (signedToken) {
+      videoUrl.search = signedToken
+    }
+
+    return `<iframe
+        allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture"
+        allowfullscreen="true"
+        loading="lazy"
+        src="${videoUrl}"
+        style="aspect-ratio: 16/9; border: none; width: 100%"
+        title="Bunny Stream video"
+      ></iframe>`
+  }
+
+  /**
+   * Get the embed token by video ID, valid for `tokenExpiresIn` seconds from now. Bunny checks
+   * the token against the `expires` it was signed with, so both are returned as the query
+   * string of the embed url, e.g. `token=<token>&expires=<unix timestamp>`
+   *
+   * @param videoId
+   * @returns
+   */
+  getSignedToken(videoId: string): Promise<null | string> {
+    if (!this.tokenAuthenticationKey) {
+      return Promise.resolve(null)
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + this.tokenExpiresIn
+
+    return Promise.resolve(
+      new URLSearchParams({
+        expires: String(expires),
+        token: this.signEmbedToken(videoId, expires),
+      }).toString(),
+    )
+  }
+
+  /**
+   * Get the status of a video by its ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getStatus(videoId: string): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/library/${this.libraryId}/videos/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        AccessKey: this.apiKey,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get video status: ${response.statusText}`)
+    }
+
+    const body = (await response.json()) as BunnyVideo
+
+    return this.streamResponseFromBunnyAPI(body)
+  }
+}
+
+export const bunnyStreamAdapter = (config: BunnyStreamAdapterConfig): StreamAdapter => {
+  return new BunnyStreamAdapter(config)
+}
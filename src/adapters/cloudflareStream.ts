@@ -1,5 +1,79 @@
+import { createHmac, type KeyObject, timingSafeEqual } from 'crypto'
+
 import type { StreamAdapter } from './streamAdapter.js'
-import type { CopyVideoRequest, StreamFieldData, StreamResponse } from './types.js'
+import type {
+  AnalyticsRange,
+  AnimatedThumbnailRequest,
+  CaptionTrack,
+  CaptionUploadRequest,
+  ClipRequest,
+  CopyVideoRequest,
+  DirectUploadRequest,
+  DirectUploadResponse,
+  ListVideosRequest,
+  ListVideosResponse,
+  LiveInput,
+  LiveInputRequest,
+  LiveInputStatus,
+  LiveRecording,
+  ResumableUploadRequest,
+  ResumableUploadResponse,
+  SigningKey,
+  SigningKeyInfo,
+  StorageUsage,
+  StreamFieldData,
+  StreamResponse,
+  ThumbnailRequest,
+  VideoAnalytics,
+  WatermarkInfo,
+  WatermarkRequest,
+} from './types.js'
+
+import { parsePrivateKey, signRS256JWT } from '../utils/jwt.js'
+
+/**
+ * Signing key created with `POST /accounts/:account_id/stream/keys`, the private key is the `pem`
+ * or `jwk` value returned by Cloudflare
+ */
+export type CloudflareStreamSigningKey = SigningKey
+
+/**
+ * @see https://developers.cloudflare.com/stream/viewing-videos/securing-your-stream/#step-2-generate-tokens-using-the-key
+ */
+export type CloudflareStreamAccessRule =
+  | {
+      action: 'allow' | 'block'
+      country: string[]
+      type: 'ip.geoip.country'
+    }
+  | {
+      action: 'allow' | 'block'
+      ip: string[]
+      type: 'ip.src'
+    }
+  | {
+      action: 'allow' | 'block'
+      type: 'any'
+    }
+
+export type CloudflareStreamSignedTokenOptions = {
+  /**
+   * Rules evaluated in order, e.g. allow some countries then block `any`
+   */
+  accessRules?: CloudflareStreamAccessRule[]
+  /**
+   * Allow the token to be used for MP4 downloads
+   */
+  downloadable?: boolean
+  /**
+   * Token lifetime in seconds, defaults to 1 hour
+   */
+  expiresIn?: number
+  /**
+   * Seconds from now before the token becomes valid, a negative value tolerates clock skew
+   */
+  notBefore?: number
+}
 
 type CloudflareStreamAPIResponse = {
   errors?: { code: number; message: string }[]
@@ -11,6 +85,10 @@ type CloudflareStreamAPIResponse = {
       height: number
       width: number
     }
+    /**
+     * Live input the video was recorded from
+     */
+    liveInput?: string
     meta?: {
       [key: string]: boolean | null | number | string
     }
@@ -26,6 +104,10 @@ type CloudflareStreamAPIResponse = {
     status?: {
       errorReasonCode?: string
       errorReasonText?: string
+      /**
+       * Processing progress in percent, e.g. `"45.000000"`
+       */
+      pctComplete?: string
       progress?: number
       state: string
     }
@@ -35,6 +117,123 @@ type CloudflareStreamAPIResponse = {
   success: boolean
 }
 
+type CloudflareStreamLiveInput = {
+  created?: string
+  rtmps?: {
+    streamKey: string
+    url: string
+  }
+  srt?: {
+    passphrase?: string
+    streamId: string
+    url: string
+  }
+  status?: {
+    current?: {
+      state?: string
+    }
+  } | null
+  uid: string
+  webRTC?: {
+    url: string
+  }
+}
+
+/**
+ * Map a Cloudflare Stream live input to our LiveInput type
+ *
+ * @param liveInput
+ * @returns
+ */
+const liveInputFromCloudflareStreamAPI = (liveInput: CloudflareStreamLiveInput): LiveInput => {
+  const state = liveInput.status?.current?.state
+
+  let status: LiveInputStatus = 'disconnected'
+
+  if (state === 'connected' || state === 'reconnected') {
+    status = 'connected'
+  } else if (state === 'reconnecting') {
+    status = 'reconnecting'
+  } else if (state?.startsWith('failed')) {
+    status = 'error'
+  }
+
+  return {
+    id: liveInput.uid,
+    created: liveInput.created,
+    rtmps: liveInput.rtmps,
+    srt: liveInput.srt,
+    status,
+    webRTC: liveInput.webRTC,
+  }
+}
+
+type CloudflareStreamAnalyticsResponse = {
+  data?: {
+    viewer: {
+      accounts: {
+        streamMinutesViewedAdaptiveGroups: {
+          count: number
+          dimensions: {
+            date: string
+            uid: string
+          }
+          sum: {
+            minutesViewed: number
+          }
+        }[]
+      }[]
+    }
+  } | null
+  errors?: { message: string }[] | null
+}
+
+/**
+ * GraphQL Analytics API query of the daily minutes viewed and views of videos
+ */
+const streamAnalyticsQuery = `query StreamAnalytics($accountTag: string!, $since: Date!, $until: Date!, $uids: [string!]) {
+  viewer {
+    accounts(filter: { accountTag: $accountTag }) {
+      streamMinutesViewedAdaptiveGroups(
+        filter: { date_geq: $since, date_leq: $until, uid_in: $uids }
+        limit: 10000
+        orderBy: [date_ASC]
+      ) {
+        count
+        dimensions {
+          date
+          uid
+        }
+        sum {
+          minutesViewed
+        }
+      }
+    }
+  }
+}`
+
+type CloudflareStreamCaption = {
+  generated?: boolean
+  label?: string
+  language: string
+  status?: 'error' | 'inprogress' | 'ready'
+}
+
+/**
+ * Map a Cloudflare Stream caption to our CaptionTrack type, uploaded captions have no status
+ *
+ * @param caption
+ * @returns
+ */
+const captionTrackFromCloudflareStreamAPI = (caption: CloudflareStreamCaption): CaptionTrack => {
+  return {
+    generated: caption.generated ?? false,
+    label: caption.label,
+    language: caption.language,
+    status: caption.status ?? 'ready',
+  }
+}
+
 const streamResponseFromCloudflareStreamAPI = (
   response: CloudflareStreamAPIResponse,
 ): StreamResponse => {
@@ -47,6 +246,7 @@ const streamResponseFromCloudflareStreamAPI = (
           ...response.result,
           durationInSeconds: response.result.duration,
           height: response.result.input?.height,
+          liveInputId: response.result.liveInput,
           meta: response.result.meta
             ? {
                 name:
@@ -55,6 +255,16 @@ const streamResponseFromCloudflareStreamAPI = (
               }
             : undefined,
           readyToStreamAt: response.result.readyToStreamAt,
+          status: response.result.status
+            ? {
+                ...response.result.status,
+                progress:
+                  response.result.status.progress ??
+                  (response.result.status.pctComplete
+                    ? Number(response.result.status.pctComplete)
+                    : undefined),
+              }
+            : undefined,
           videoId: response.result.uid,
           width: response.result.input?.width,
         }
@@ -70,6 +280,11 @@ class CloudflareStreamAdapter implements StreamAdapter {
   private readonly customerSubdomain: string
   private readonly generateDownloads: { audio?: boolean; video?: boolean } | boolean
   private readonly requireSignedURLs: boolean
+  private readonly signedTokenOptions: CloudflareStreamSignedTokenOptions
+  private signingKey?: CloudflareStreamSigningKey
+  private signingKeyLoader?: () => Promise<CloudflareStreamSigningKey | null>
+  private signingPrivateKey?: KeyObject
+  private readonly webhookSecret?: string
 
   readonly providerName = 'cloudflare_stream'
 
@@ -79,6 +294,9 @@ class CloudflareStreamAdapter implements StreamAdapter {
     customerSubdomain: string,
     requireSignedURLs = false,
     generateDownloads: { audio?: boolean; video?: boolean } | boolean = true,
+    webhookSecret?: string,
+    signingKey?: CloudflareStreamSigningKey,
+    signedTokenOptions: CloudflareStreamSignedTokenOptions = {},
   ) {
     this.apiToken = apiToken
     this.accountId = accountId
@@ -86,6 +304,9 @@ class CloudflareStreamAdapter implements StreamAdapter {
     this.requireSignedURLs = requireSignedURLs
     this.generateDownloads = generateDownloads
     this.customerSubdomain = customerSubdomain
+    this.webhookSecret = webhookSecret
+    this.signingKey = signingKey
+    this.signedTokenOptions = signedTokenOptions
   }
 
   /**
@@ -127,6 +348,77 @@ class CloudflareStreamAdapter implements StreamAdapter {
     }
   }
 
+  /**
+   * Body of the live input create and update requests
+   *
+   * @param params
+   * @returns
+   */
+  private getLiveInputBody(params: LiveInputRequest) {
+    return {
+      meta: params.meta,
+      recording: {
+        mode: params.recording === false ? 'off' : 'automatic',
+        requireSignedURLs: this.requireSignedURLs,
+      },
+    }
+  }
+
+  /**
+   * Token claims shared by locally signed tokens and the token API
+   *
+   * @returns
+   */
+  private getSignedTokenClaims(): {
+    accessRules?: CloudflareStreamAccessRule[]
+    downloadable?: boolean
+    exp: number
+    nbf?: number
+  } {
+    const { accessRules, downloadable, expiresIn = 60 * 60, notBefore } = this.signedTokenOptions
+    const now = Math.floor(Date.now() / 1000)
+
+    return {
+      accessRules,
+      downloadable,
+      exp: now + expiresIn,
+      nbf: notBefore !== undefined ? now + notBefore : undefined,
+    }
+  }
+
+  /**
+   * Get the key to sign with, switching to the stored key once it was rotated
+   *
+   * @returns
+   */
+  private async getSigningKey(): Promise<CloudflareStreamSigningKey | undefined> {
+    // a failed read keeps signing with the current key
+    const stored = await this.signingKeyLoader?.().catch(() => null)
+
+    if (stored && stored.id !== this.signingKey?.id) {
+      this.setSigningKey(stored)
+    }
+
+    return this.signingKey
+  }
+
+  /**
+   * Mint a signed token locally with the signing key
+   *
+   * @param videoId
+   * @param signingKey
+   * @returns
+   */
+  private signToken(videoId: string, signingKey: CloudflareStreamSigningKey): string {
+    this.signingPrivateKey ??= parsePrivateKey(signingKey.pem)
+
+    return signRS256JWT(
+      { ...this.getSignedTokenClaims(), kid: signingKey.id, sub: videoId },
+      this.signingPrivateKey,
+      signingKey.id,
+    )
+  }
+
   /**
    * Copies a video within Cloudflare Stream.
    *
@@ -137,7 +429,12 @@ class CloudflareStreamAdapter implements StreamAdapter {
     const url = `${this.baseUrl}/accounts/${this.accountId}/stream/copy`
 
     const response = await fetch(url, {
-      body: JSON.stringify(params),
+      body: JSON.stringify({
+        meta: params.meta,
+        url: params.url,
+        ...(params.maxDurationSeconds ? { maxDurationSeconds: params.maxDurationSeconds } : {}),
+        ...(params.watermarkId ? { watermark: { uid: params.watermarkId } } : {}),
+      }),
       headers: {
         Authorization: `Bearer ${this.apiToken}`,
         'Content-Type': 'application/json',
@@ -160,63 +457,84 @@ class CloudflareStreamAdapter implements StreamAdapter {
   }
 
   /**
-   * Deletes a video by its ID
+   * Create a clip of a video, Cloudflare processes it as a new video
    *
-   * @param videoId
+   * @param params
+   * @returns
    */
-  async delete(videoId: string): Promise<void> {
-    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+  async createClip(params: ClipRequest): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/clip`
 
     const response = await fetch(url, {
+      body: JSON.stringify({
+        clippedFromVideoUID: params.videoId,
+        endTimeSeconds: params.endTimeSeconds,
+        meta: params.meta,
+        requireSignedURLs: this.requireSignedURLs,
+        startTimeSeconds: params.startTimeSeconds,
+      }),
       headers: {
         Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
       },
-      method: 'DELETE',
+      method: 'POST',
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to delete video: ${response.statusText}`)
+      throw new Error(`Failed to create clip: ${response.statusText}`)
     }
+
+    const body = await response.json()
+
+    return streamResponseFromCloudflareStreamAPI(body)
   }
 
   /**
-   * Render the video player HTML by video ID
+   * Create a one-time direct creator upload url
    *
-   * @param videoId
+   * @param params
    * @returns
    */
-  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
-    const { requireSignedURLs, videoId } = stream
+  async createDirectUpload(params: DirectUploadRequest): Promise<DirectUploadResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/direct_upload`
 
-    let token = videoId
+    const response = await fetch(url, {
+      body: JSON.stringify({
+        // required by Cloudflare, defaults to the maximum of 6 hours
+        maxDurationSeconds: params.maxDurationSeconds ?? 6 * 60 * 60,
+        meta: params.meta,
+        requireSignedURLs: this.requireSignedURLs,
+      }),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
 
-    if (requireSignedURLs) {
-      const signedToken = await this.getSignedToken(videoId)
-      token = signedToken || videoId
+    if (!response.ok) {
+      throw new Error(`Failed to create direct upload: ${response.statusText}`)
     }
 
-    const videoUrl = `${this.customerSubdomain}/${token}/iframe`
+    const body = await response.json()
 
-    return `<iframe
-        allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
-        frameBorder="0"
-        sandbox="allow-scripts allow-same-origin"
-        src="${videoUrl}"
-        title="Example Stream video"
-        width="100%"
-      />`
+    return {
+      uploadURL: body.result.uploadURL,
+      videoId: body.result.uid,
+    }
   }
 
   /**
-   * Get the signed token by video ID
+   * Create a live input, broadcasts are recorded as videos unless recording is disabled
    *
-   * @param videoId
+   * @param params
    * @returns
    */
-  async getSignedToken(videoId: string): Promise<null | string> {
-    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/token`
+  async createLiveInput(params: LiveInputRequest): Promise<LiveInput> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/live_inputs`
 
     const response = await fetch(url, {
+      body: JSON.stringify(this.getLiveInputBody(params)),
       headers: {
         Authorization: `Bearer ${this.apiToken}`,
         'Content-Type': 'application/json',
@@ -225,112 +543,872 @@ class CloudflareStreamAdapter implements StreamAdapter {
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to get signed token: ${response.statusText}`)
+      throw new Error(`Failed to create live input: ${response.statusText}`)
     }
 
-    const body = await response.json()
+    const { result } = await response.json()
 
-    if (body.result && body.result.token) {
-      return body.result.token as string
+    return liveInputFromCloudflareStreamAPI(result)
+  }
+
+  /**
+   * Create a resumable tus upload session for large files
+   *
+   * @param params
+   * @returns
+   */
+  async createResumableUpload(params: ResumableUploadRequest): Promise<ResumableUploadResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream?direct_user=true`
+
+    const metadata = Object.entries({
+      name: params.meta.name,
+      maxDurationSeconds: String(params.maxDurationSeconds ?? 6 * 60 * 60),
+    }).map(([key, value]) => `${key} ${Buffer.from(value).toString('base64')}`)
+
+    // flags without a value
+    if (this.requireSignedURLs) {
+      metadata.push('requiresignedurls')
     }
 
-    return null
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Tus-Resumable': '1.0.0',
+        'Upload-Length': String(params.size),
+        'Upload-Metadata': metadata.join(','),
+      },
+      method: 'POST',
+    })
+
+    const uploadURL = response.headers.get('location')
+    const videoId = response.headers.get('stream-media-id')
+
+    if (!response.ok || !uploadURL || !videoId) {
+      throw new Error(`Failed to create resumable upload: ${response.statusText}`)
+    }
+
+    return { uploadURL, videoId }
   }
 
   /**
-   * Get the status of a video by its ID
+   * Create a signing key to mint playback tokens locally
    *
-   * @param videoId
    * @returns
    */
-  async getStatus(videoId: string): Promise<StreamResponse> {
-    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+  async createSigningKey(): Promise<SigningKey> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/keys`
 
     const response = await fetch(url, {
       headers: {
         Authorization: `Bearer ${this.apiToken}`,
       },
-      method: 'GET',
+      method: 'POST',
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to get video status: ${response.statusText}`)
+      throw new Error(`Failed to create signing key: ${response.statusText}`)
     }
 
     const body = await response.json()
 
-    const result = streamResponseFromCloudflareStreamAPI(body)
-
-    // Generate download links if enabled
-    if (
-      (this.isGenerateAudioDownloadEnabled || this.isGenerateVideoDownloadEnabled) &&
-      result.result?.readyToStream
-    ) {
-      await this.generateDownloadLinks(videoId)
+    return {
+      id: body.result.id,
+      created: body.result.created,
+      pem: body.result.pem,
     }
-
-    return result
   }
 
   /**
-   * Tag a video as requiring signed URLs
+   * Register a watermark profile, videos copied with its uid get the image burned in
    *
-   * @param videoId
+   * @param params
    * @returns
    */
-  async markRequireSignedURLs(videoId: string): Promise<StreamResponse> {
-    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+  async createWatermark(params: WatermarkRequest): Promise<WatermarkInfo> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/watermarks`
+
+    const body = new FormData()
+    body.append('file', params.file, params.name)
+    body.append('name', params.name)
+
+    for (const key of ['opacity', 'padding', 'position', 'scale'] as const) {
+      if (params[key] !== undefined) {
+        body.append(key, String(params[key]))
+      }
+    }
 
     const response = await fetch(url, {
-      body: JSON.stringify({
-        requireSignedURLs: true,
-        uid: videoId,
-      }),
+      body,
       headers: {
         Authorization: `Bearer ${this.apiToken}`,
-        'Content-Type': 'application/json',
       },
       method: 'POST',
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to mark video as requiring signed URLs: ${response.statusText}`)
+      throw new Error(`Failed to create watermark: ${response.statusText}`)
     }
 
-    const body = await response.json()
+    const { result } = await response.json()
 
-    const result = streamResponseFromCloudflareStreamAPI(body)
+    return {
+      id: result.uid,
+      created: result.created,
+    }
+  }
 
-    return result
+  /**
+   * Deletes a video by its ID
+   *
+   * @param videoId
+   */
+  async delete(videoId: string): Promise<void> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete video: ${response.statusText}`)
+    }
   }
 
-  private get isGenerateAudioDownloadEnabled(): boolean {
-    if (typeof this.generateDownloads === 'boolean') {
-      return this.generateDownloads
+  /**
+   * Delete the caption track of a language
+   *
+   * @param videoId
+   * @param language
+   */
+  async deleteCaption(videoId: string, language: string): Promise<void> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/captions/${language}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete caption: ${response.statusText}`)
     }
-    return this.generateDownloads.audio === true
   }
 
-  private get isGenerateVideoDownloadEnabled(): boolean {
-    if (typeof this.generateDownloads === 'boolean') {
-      return this.generateDownloads
+  /**
+   * Delete a live input
+   *
+   * @param liveInputId
+   */
+  async deleteLiveInput(liveInputId: string): Promise<void> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/live_inputs/${liveInputId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete live input: ${response.statusText}`)
     }
-    return this.generateDownloads.video === true
   }
-}
 
-export const cloudflareStreamAdapter = ({
-  accountId,
-  apiToken,
-  customerSubdomain,
-  generateDownloads,
-  requireSignedURLs,
-}: {
-  accountId: string
+  /**
+   * Revoke a signing key
+   *
+   * @param keyId
+   */
+  async deleteSigningKey(keyId: string): Promise<void> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/keys/${keyId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete signing key: ${response.statusText}`)
+    }
+  }
+
+  /**
+   * Delete a watermark profile
+   *
+   * @param watermarkId
+   */
+  async deleteWatermark(watermarkId: string): Promise<void> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/watermarks/${watermarkId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete watermark: ${response.statusText}`)
+    }
+  }
+
+  /**
+   * Generate a caption track from the audio of the video, processed asynchronously
+   *
+   * @param videoId
+   * @param language
+   * @returns
+   */
+  async generateCaption(videoId: string, language: string): Promise<CaptionTrack> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/captions/${language}/generate`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to generate caption: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    return captionTrackFromCloudflareStreamAPI({
+      generated: true,
+      status: 'inprogress',
+      ...body.result,
+    })
+  }
+
+  /**
+   * Get the daily views of videos from the GraphQL Analytics API
+   *
+   * @param videoIds
+   * @param range
+   * @returns
+   */
+  async getAnalytics(videoIds: string[], range: AnalyticsRange): Promise<VideoAnalytics[]> {
+    const response = await fetch(`${this.baseUrl}/graphql`, {
+      body: JSON.stringify({
+        query: streamAnalyticsQuery,
+        variables: {
+          accountTag: this.accountId,
+          since: range.since,
+          uids: videoIds,
+          until: range.until,
+        },
+      }),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get analytics: ${response.statusText}`)
+    }
+
+    const body = (await response.json()) as CloudflareStreamAnalyticsResponse
+
+    if (body.errors?.length) {
+      throw new Error(
+        `Failed to get analytics: ${body.errors.map(({ message }) => message).join(', ')}`,
+      )
+    }
+
+    const groups = body.data?.viewer.accounts[0]?.streamMinutesViewedAdaptiveGroups ?? []
+
+    return groups.map(({ count, dimensions, sum }) => ({
+      date: dimensions.date,
+      minutesViewed: sum.minutesViewed,
+      videoId: dimensions.uid,
+      views: count,
+    }))
+  }
+
+  /**
+   * Get the url of an animated preview, without a token as the url is stored on the document
+   *
+   * @param videoId
+   * @param params
+   * @returns
+   */
+  getAnimatedThumbnailUrl(videoId: string, params: AnimatedThumbnailRequest): Promise<string> {
+    const query = new URLSearchParams({
+      duration: `${params.duration}s`,
+      time: `${params.start}s`,
+    })
+
+    if (params.height) {
+      query.set('height', String(params.height))
+    }
+
+    return Promise.resolve(
+      `${this.customerSubdomain}/${videoId}/thumbnails/thumbnail.${params.format}?${query.toString()}`,
+    )
+  }
+
+  /**
+   * Render the player HTML of the broadcast of a live input
+   *
+   * @param liveInputId
+   * @returns
+   */
+  async getHTMLLivePlayer(liveInputId: string): Promise<null | string> {
+    const token = this.requireSignedURLs
+      ? (await this.getSignedToken(liveInputId)) || liveInputId
+      : liveInputId
+
+    return `<iframe
+        allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
+        frameBorder="0"
+        sandbox="allow-scripts allow-same-origin"
+        src="${this.customerSubdomain}/${token}/iframe"
+        title="Live stream"
+        width="100%"
+      />`
+  }
+
+  /**
+   * Render the video player HTML by video ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
+    const { requireSignedURLs, videoId } = stream
+
+    let token = videoId
+
+    if (requireSignedURLs) {
+      const signedToken = await this.getSignedToken(videoId)
+      token = signedToken || videoId
+    }
+
+    const videoUrl = `${this.customerSubdomain}/${token}/iframe`
+
+    return `<iframe
+        allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
+        frameBorder="0"
+        sandbox="allow-scripts allow-same-origin"
+        src="${videoUrl}"
+        title="Example Stream video"
+        width="100%"
+      />`
+  }
+
+  /**
+   * Get a live input with its current connection status
+   *
+   * @param liveInputId
+   * @returns
+   */
+  async getLiveInput(liveInputId: string): Promise<LiveInput> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/live_inputs/${liveInputId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get live input: ${response.statusText}`)
+    }
+
+    const { result } = await response.json()
+
+    return liveInputFromCloudflareStreamAPI(result)
+  }
+
+  /**
+   * Get the signed token by video ID, signed locally when a signing key is configured,
+   * otherwise requested from the token API
+   *
+   * @param videoId
+   * @returns
+   */
+  async getSignedToken(videoId: string): Promise<null | string> {
+    const signingKey = await this.getSigningKey()
+
+    if (signingKey) {
+      return this.signToken(videoId, signingKey)
+    }
+
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/token`
+
+    const response = await fetch(url, {
+      body: JSON.stringify(this.getSignedTokenClaims()),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get signed token: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    if (body.result && body.result.token) {
+      return body.result.token as string
+    }
+
+    return null
+  }
+
+  /**
+   * Get the status of a video by its ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getStatus(videoId: string): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get video status: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    const result = streamResponseFromCloudflareStreamAPI(body)
+
+    // Generate download links if enabled
+    if (
+      (this.isGenerateAudioDownloadEnabled || this.isGenerateVideoDownloadEnabled) &&
+      result.result?.readyToStream
+    ) {
+      await this.generateDownloadLinks(videoId)
+    }
+
+    return result
+  }
+
+  /**
+   * Get the minutes of video stored on the account and its quota
+   *
+   * @returns
+   */
+  async getStorageUsage(): Promise<StorageUsage> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/storage-usage`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get storage usage: ${response.statusText}`)
+    }
+
+    const { result } = (await response.json()) as {
+      result: {
+        totalStorageMinutes: number
+        totalStorageMinutesLimit?: null | number
+        videoCount?: number
+      }
+    }
+
+    return {
+      limitMinutes: result.totalStorageMinutesLimit ?? undefined,
+      usedMinutes: result.totalStorageMinutes,
+      videoCount: result.videoCount,
+    }
+  }
+
+  /**
+   * Get the url of the frame at a position of the video, signed when the adapter requires signed URLs
+   *
+   * @param videoId
+   * @param params
+   * @returns
+   */
+  async getThumbnailUrl(videoId: string, params: ThumbnailRequest): Promise<string> {
+    const token = this.requireSignedURLs ? (await this.getSignedToken(videoId)) || videoId : videoId
+
+    const query = new URLSearchParams({ time: `${params.time}s` })
+
+    if (params.height) {
+      query.set('height', String(params.height))
+    }
+
+    return `${this.customerSubdomain}/${token}/thumbnails/thumbnail.jpg?${query.toString()}`
+  }
+
+  /**
+   * List the videos of the account a page at a time, newest first
+   *
+   * @param params
+   * @returns
+   */
+  async list(params: ListVideosRequest): Promise<ListVideosResponse> {
+    const limit = params.limit ?? 50
+    const query = new URLSearchParams({ asc: 'false', limit: String(limit) })
+
+    if (params.search) {
+      query.set('search', params.search)
+    }
+
+    // pages are cut at the upload date of the last video of the previous page
+    if (params.cursor) {
+      query.set('before', params.cursor)
+    }
+
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream?${query.toString()}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to list videos: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    const videos = (body.result as CloudflareStreamAPIResponse['result'][]).flatMap((video) => {
+      const { result } = streamResponseFromCloudflareStreamAPI({ result: video, success: true })
+
+      return result ? [result] : []
+    })
+
+    return {
+      nextCursor: videos.length === limit ? videos[videos.length - 1]?.created : undefined,
+      videos,
+    }
+  }
+
+  /**
+   * List the caption tracks of a video
+   *
+   * @param videoId
+   * @returns
+   */
+  async listCaptions(videoId: string): Promise<CaptionTrack[]> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/captions`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to list captions: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    return (body.result as CloudflareStreamCaption[]).map(captionTrackFromCloudflareStreamAPI)
+  }
+
+  /**
+   * List the videos recorded from the broadcasts of a live input
+   *
+   * @param liveInputId
+   * @returns
+   */
+  async listLiveInputRecordings(liveInputId: string): Promise<LiveRecording[]> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/live_inputs/${liveInputId}/videos`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to list live input recordings: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    return (body.result as CloudflareStreamAPIResponse['result'][]).flatMap((video) => {
+      const { result } = streamResponseFromCloudflareStreamAPI({ result: video, success: true })
+
+      return result ? [{ ...result, liveInputId }] : []
+    })
+  }
+
+  /**
+   * List the signing keys of the account
+   *
+   * @returns
+   */
+  async listSigningKeys(): Promise<SigningKeyInfo[]> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/keys`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to list signing keys: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    return (body.result as SigningKeyInfo[]).map(({ id, created }) => ({ id, created }))
+  }
+
+  /**
+   * Tag a video as requiring signed URLs
+   *
+   * @param videoId
+   * @returns
+   */
+  async markRequireSignedURLs(videoId: string): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+
+    const response = await fetch(url, {
+      body: JSON.stringify({
+        requireSignedURLs: true,
+        uid: videoId,
+      }),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark video as requiring signed URLs: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    const result = streamResponseFromCloudflareStreamAPI(body)
+
+    return result
+  }
+
+  /**
+   * Parse a webhook notification, Cloudflare sends the video details as the body
+   *
+   * @param body
+   * @returns
+   */
+  parseWebhook(body: string): Promise<StreamResponse> {
+    const result = JSON.parse(body) as CloudflareStreamAPIResponse['result']
+
+    return Promise.resolve(streamResponseFromCloudflareStreamAPI({ result, success: true }))
+  }
+
+  /**
+   * Switch to another signing key, tokens are requested from the API when the key is removed
+   *
+   * @param signingKey
+   */
+  setSigningKey(signingKey: CloudflareStreamSigningKey | null): void {
+    this.signingKey = signingKey ?? undefined
+    this.signingPrivateKey = undefined
+  }
+
+  /**
+   * Read the stored signing key before signing, keys created from the admin of another
+   * server process are picked up without a restart
+   *
+   * @param loader
+   */
+  setSigningKeyLoader(loader: () => Promise<CloudflareStreamSigningKey | null>): void {
+    this.signingKeyLoader = loader
+  }
+
+  /**
+   * Use the frame at a position of the video as its thumbnail
+   *
+   * @param videoId
+   * @param timestampPct
+   * @returns
+   */
+  async setThumbnailTimestamp(videoId: string, timestampPct: number): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}`
+
+    const response = await fetch(url, {
+      body: JSON.stringify({
+        thumbnailTimestampPct: timestampPct,
+        uid: videoId,
+      }),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to set thumbnail timestamp: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+
+    return streamResponseFromCloudflareStreamAPI(body)
+  }
+
+  /**
+   * Update the settings of a live input
+   *
+   * @param liveInputId
+   * @param params
+   * @returns
+   */
+  async updateLiveInput(liveInputId: string, params: LiveInputRequest): Promise<LiveInput> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/live_inputs/${liveInputId}`
+
+    const response = await fetch(url, {
+      body: JSON.stringify(this.getLiveInputBody(params)),
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      method: 'PUT',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to update live input: ${response.statusText}`)
+    }
+
+    const { result } = await response.json()
+
+    return liveInputFromCloudflareStreamAPI(result)
+  }
+
+  /**
+   * Upload a WebVTT caption track, replacing the track of the same language
+   *
+   * @param videoId
+   * @param params
+   * @returns
+   */
+  async uploadCaption(videoId: string, params: CaptionUploadRequest): Promise<CaptionTrack> {
+    const url = `${this.baseUrl}/accounts/${this.accountId}/stream/${videoId}/captions/${params.language}`
+
+    const body = new FormData()
+    body.append('file', new Blob([params.vtt], { type: 'text/vtt' }), `${params.language}.vtt`)
+
+    const response = await fetch(url, {
+      body,
+      headers: {
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      method: 'PUT',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload caption: ${response.statusText}`)
+    }
+
+    const result = await response.json()
+
+    return captionTrackFromCloudflareStreamAPI({
+      ...result.result,
+      label: params.label ?? result.result.label,
+    })
+  }
+
+  /**
+   * Verify the `Webhook-Signature` header of a webhook notification
+   *
+   * @see https://developers.cloudflare.com/stream/manage-video-library/using-webhooks/#verify-webhook-authenticity
+   *
+   * @param body
+   * @param headers
+   * @returns
+   */
+  verifyWebhook(body: string, headers: Headers): Promise<boolean> {
+    const signatureHeader = headers.get('webhook-signature')
+
+    if (!this.webhookSecret || !signatureHeader) {
+      return Promise.resolve(false)
+    }
+
+    const { sig1: signature, time } = Object.fromEntries(
+      signatureHeader.split(',').map((part) => part.split('=') as [string, string]),
+    )
+
+    // reject old notifications to prevent replay attacks
+    if (!time || !signature || Math.abs(Date.now() / 1000 - Number(time)) > 5 * 60) {
+      return Promise.resolve(false)
+    }
+
+    const expected = createHmac('sha256', this.webhookSecret).update(`${time}.${body}`).digest()
+    const actual = Buffer.from(signature, 'hex')
+
+    return Promise.resolve(actual.length === expected.length && timingSafeEqual(actual, expected))
+  }
+
+  private get isGenerateAudioDownloadEnabled(): boolean {
+    if (typeof this.generateDownloads === 'boolean') {
+      return this.generateDownloads
+    }
+    return this.generateDownloads.audio === true
+  }
+
+  private get isGenerateVideoDownloadEnabled(): boolean {
+    if (typeof this.generateDownloads === 'boolean') {
+      return this.generateDownloads
+    }
+    return this.generateDownloads.video === true
+  }
+}
+
+export const cloudflareStreamAdapter = ({
+  accountId,
+  apiToken,
+  customerSubdomain,
+  generateDownloads,
+  requireSignedURLs,
+  signedTokens,
+  signingKey,
+  webhookSecret,
+}: {
+  accountId: string
   apiToken: string
   customerSubdomain: string
   generateDownloads?: { audio?: boolean; video?: boolean } | boolean
   requireSignedURLs?: boolean
+  /**
+   * Claims of the signed tokens: lifetime, downloads and access rules
+   */
+  signedTokens?: CloudflareStreamSignedTokenOptions
+  /**
+   * Sign tokens locally instead of calling the token API for every player render
+   */
+  signingKey?: CloudflareStreamSigningKey
+  /**
+   * Secret returned when creating the webhook subscription, used to verify notifications
+   */
+  webhookSecret?: string
 }): StreamAdapter => {
   return new CloudflareStreamAdapter(
     apiToken,
@@ -338,5 +1416,8 @@ export const cloudflareStreamAdapter = ({
     customerSubdomain,
     requireSignedURLs,
     generateDownloads ?? true,
+    webhookSecret,
+    signingKey,
+    signedTokens,
   )
 }
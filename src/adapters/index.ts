@@ -1,3 +1,7 @@
+export * from './bunnyStream.js'
 export * from './cloudflareStream.js'
+export * from './localHls.js'
+export * from './memory.js'
+export * from './mux.js'
 export * from './streamAdapter.js'
 export * from './types.js'
@@ -0,0 +1,699 @@
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { createRequire } from 'module'
+import { tmpdir } from 'os'
+import { dirname, join, relative } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+
+import type { StreamAdapter } from './streamAdapter.js'
+import type { CopyVideoRequest, StreamFieldData, StreamResponse } from './types.js'
+
+export type LocalHlsRendition = {
+  /**
+   * Audio bitrate in kbps, defaults to 128
+   */
+  audioBitrate?: number
+  height: number
+  /**
+   * Video bitrate in kbps
+   */
+  videoBitrate: number
+}
+
+/**
+ * Where the generated files are written to, paths are relative to the video directory
+ * e.g. `<videoId>/720p/index.m3u8`
+ */
+export type LocalHlsStorage = {
+  deleteFiles: (prefix: string) => Promise<void>
+  readFile: (path: string) => Promise<Buffer | null>
+  writeFile: (path: string, data: Buffer, mimeType: string) => Promise<void>
+}
+
+export type LocalHlsAdapterConfig = {
+  /**
+   * Path to the ffmpeg binary, defaults to `ffmpeg` from the PATH
+   */
+  ffmpegPath?: string
+  /**
+   * hls.js build loaded by the player in browsers without native HLS playback, e.g. Chrome and
+   * Firefox, defaults to the bundled build served next to the videos
+   */
+  hlsJsUrl?: string
+  /**
+   * Directory the generated files are written to when no `storage` is provided
+   */
+  outputDir?: string
+  /**
+   * Poster frame position in seconds, defaults to 1 second
+   */
+  posterTimestamp?: number
+  /**
+   * Base url the generated files are served from
+   */
+  publicUrl: string
+  /**
+   * HLS rendition ladder, renditions taller than the source are skipped
+   */
+  renditions?: LocalHlsRendition[]
+  /**
+   * HLS segment duration in seconds, defaults to 6
+   */
+  segmentDuration?: number
+  /**
+   * Custom storage, e.g. to write the files through a Payload storage adapter
+   */
+  storage?: LocalHlsStorage
+  /**
+   * Directory used for downloads and transcoding, defaults to the OS temp directory
+   */
+  workDir?: string
+}
+
+type LocalHlsJob = {
+  created: string
+  durationInSeconds?: number
+  errorReasonCode?: string
+  errorReasonText?: string
+  // refreshed by the process running the job, other processes tell a lost job by its age
+  heartbeatAt?: string
+  height?: number
+  name: string
+  progress: number
+  readyToStreamAt?: string
+  size?: number
+  state: 'downloading' | 'error' | 'inprogress' | 'queued' | 'ready'
+  videoId: string
+  width?: number
+}
+
+const defaultRenditions: LocalHlsRendition[] = [
+  { height: 1080, videoBitrate: 5000 },
+  { height: 720, videoBitrate: 2800 },
+  { height: 480, videoBitrate: 1400 },
+  { height: 360, videoBitrate: 800 },
+]
+
+const mimeTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+}
+
+const require = createRequire(import.meta.url)
+
+/**
+ * Seconds between the writes of the status file of a queued or transcoding job
+ */
+const heartbeatIntervalSeconds = 30
+
+/**
+ * Seconds without a heartbeat after which a job is reported as interrupted
+ */
+const heartbeatTimeoutSeconds = heartbeatIntervalSeconds * 3
+
+/**
+ * Seconds of an ffmpeg timestamp, e.g. `00:01:02.50`
+ *
+ * @param value
+ * @returns
+ */
+export const parseTimestamp = (value: string): number => {
+  const [hours, minutes, seconds] = value.split(':').map(Number)
+  return (hours ?? 0) * 3600 + (minutes ?? 0) * 60 + (seconds ?? 0)
+}
+
+const directoryStorage = (outputDir: string): LocalHlsStorage => ({
+  deleteFiles: async (prefix) => {
+    await rm(join(outputDir, prefix), { force: true, recursive: true })
+  },
+  readFile: async (path) => {
+    try {
+      return await readFile(join(outputDir, path))
+    } catch {
+      return null
+    }
+  },
+  writeFile: async (path, data) => {
+    const filePath = join(outputDir, path)
+    await mkdir(dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+  },
+})
+
+const listFiles = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true })
+
+  const files = await Promise.all(
+    entries.map((entry) =>
+      entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)],
+    ),
+  )
+
+  return files.flat()
+}
+
+/**
+ * Escape a value for a double quoted HTML attribute
+ *
+ * @param value
+ * @returns
+ */
+const escapeAttribute = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+class LocalHlsAdapter implements StreamAdapter {
+  // aborted when the video is deleted while it is queued or transcoding
+  private readonly controllers = new Map<string, AbortController>()
+  private readonly ffmpegPath: string
+  // written to the storage on the first player render
+  private hlsJsUrl?: Promise<string>
+  private readonly jobs = new Map<string, LocalHlsJob>()
+  private readonly posterTimestamp: number
+  private readonly publicUrl: string
+  // transcode one video at a time to keep the CPU usage predictable
+  private queue: Promise<void> = Promise.resolve()
+  private readonly renditions: LocalHlsRendition[]
+  private readonly segmentDuration: number
+  private readonly storage: LocalHlsStorage
+  private readonly workDir: string
+
+  readonly providerName = 'local_hls'
+
+  constructor(config: LocalHlsAdapterConfig) {
+    if (!config.storage && !config.outputDir) {
+      throw new Error('localHlsAdapter requires either an outputDir or a storage')
+    }
+
+    this.ffmpegPath = config.ffmpegPath ?? 'ffmpeg'
+    this.hlsJsUrl = config.hlsJsUrl ? Promise.resolve(config.hlsJsUrl) : undefined
+    this.publicUrl = config.publicUrl.replace(/\/$/, '')
+    this.renditions = [...(config.renditions ?? defaultRenditions)].sort(
+      (a, b) => b.height - a.height,
+    )
+    this.segmentDuration = config.segmentDuration ?? 6
+    this.posterTimestamp = config.posterTimestamp ?? 1
+    this.storage = config.storage ?? directoryStorage(config.outputDir as string)
+    this.workDir = config.workDir ?? tmpdir()
+  }
+
+  /**
+   * Download the source video into the work directory
+   *
+   * @param url
+   * @param filePath
+   * @param signal
+   */
+  private async download(url: string, filePath: string, signal: AbortSignal): Promise<void> {
+    const response = await fetch(url, { signal })
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download video: ${response.statusText}`)
+    }
+
+    await pipeline(
+      Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+      createWriteStream(filePath),
+    )
+  }
+
+  /**
+   * Serve the hls.js build of the plugin next to the videos, so players load nothing from other
+   * hosts. Every hls.js version gets its own path, browsers cache it for good
+   *
+   * @returns the url of the build
+   */
+  private getHlsJsUrl(): Promise<string> {
+    this.hlsJsUrl ??= (async () => {
+      const { version } = require('hls.js/package.json') as { version: string }
+      const path = `hls.js/${version}/hls.min.js`
+
+      if (!(await this.storage.readFile(path))) {
+        await this.storage.writeFile(
+          path,
+          await readFile(require.resolve('hls.js/dist/hls.min.js')),
+          mimeTypes['.js'],
+        )
+      }
+
+      return `${this.publicUrl}/${path}`
+    })().catch((error: unknown) => {
+      // written again by the next render
+      this.hlsJsUrl = undefined
+      throw error
+    })
+
+    return this.hlsJsUrl
+  }
+
+  /**
+   * Read the source duration and resolution from the ffmpeg banner
+   *
+   * @param inputPath
+   * @param signal
+   * @returns
+   */
+  private async probe(
+    inputPath: string,
+    signal: AbortSignal,
+  ): Promise<{ durationInSeconds: number; height: number; width: number }> {
+    // ffmpeg exits with an error without an output file, the input info is all we need
+    const { stderr } = await this.runFfmpeg(['-hide_banner', '-i', inputPath], signal)
+
+    const duration = /Duration: (\d+:\d+:\d+(?:\.\d+)?)/.exec(stderr)
+    const resolution = /Stream #.*Video: .*?, (\d{2,5})x(\d{2,5})/.exec(stderr)
+
+    if (!duration || !resolution) {
+      throw new Error('Failed to read the video duration and resolution')
+    }
+
+    return {
+      durationInSeconds: parseTimestamp(duration[1]),
+      height: Number(resolution[2]),
+      width: Number(resolution[1]),
+    }
+  }
+
+  /**
+   * Download, transcode and store a video
+   *
+   * @param job
+   * @param params
+   * @param signal
+   */
+  private async process(
+    job: LocalHlsJob,
+    params: CopyVideoRequest,
+    signal: AbortSignal,
+  ): Promise<void> {
+    signal.throwIfAborted()
+
+    const tempDir = await mkdtemp(join(this.workDir, 'payload-video-stream-'))
+
+    try {
+      const inputPath = join(tempDir, 'input')
+      const outputDir = join(tempDir, job.videoId)
+
+      await this.updateJob(job, { state: 'downloading' }, signal)
+      await this.download(params.url, inputPath, signal)
+
+      const source = await this.probe(inputPath, signal)
+
+      let renditions = this.renditions.filter((rendition) => rendition.height <= source.height)
+
+      if (!renditions.length) {
+        renditions = this.renditions.slice(-1)
+      }
+
+      await this.updateJob(
+        job,
+        {
+          durationInSeconds: source.durationInSeconds,
+          progress: 0,
+          state: 'inprogress',
+        },
+        signal,
+      )
+
+      const variants: string[] = []
+
+      for (const [index, rendition] of renditions.entries()) {
+        const renditionDir = join(outputDir, `${rendition.height}p`)
+        const audioBitrate = rendition.audioBitrate ?? 128
+        const width = Math.round((source.width * rendition.height) / source.height / 2) * 2
+
+        await mkdir(renditionDir, { recursive: true })
+
+        const { code } = await this.runFfmpeg(
+          [
+            '-hide_banner',
+            '-y',
+            '-i',
+            inputPath,
+            '-vf',
+            `scale=-2:${rendition.height}`,
+            '-c:v',
+            'libx264',
+            '-preset',
+            'veryfast',
+            '-b:v',
+            `${rendition.videoBitrate}k`,
+            '-maxrate',
+            `${Math.round(rendition.videoBitrate * 1.07)}k`,
+            '-bufsize',
+            `${rendition.videoBitrate * 2}k`,
+            '-force_key_frames',
+            `expr:gte(t,n_forced*${this.segmentDuration})`,
+            '-c:a',
+            'aac',
+            '-b:a',
+            `${audioBitrate}k`,
+            '-ac',
+            '2',
+            '-f',
+            'hls',
+            '-hls_time',
+            String(this.segmentDuration),
+            '-hls_playlist_type',
+            'vod',
+            '-hls_segment_filename',
+            join(renditionDir, 'segment_%04d.ts'),
+            join(renditionDir, 'index.m3u8'),
+          ],
+          signal,
+          (line) => {
+            const time = /time=(\d+:\d+:\d+(?:\.\d+)?)/.exec(line)
+
+            if (time && source.durationInSeconds) {
+              const fraction = Math.min(parseTimestamp(time[1]) / source.durationInSeconds, 1)
+              job.progress = Math.round(((index + fraction) / renditions.length) * 100)
+            }
+          },
+        )
+
+        if (code !== 0) {
+          throw new Error(`ffmpeg exited with code ${code} while transcoding ${rendition.height}p`)
+        }
+
+        variants.push(
+          `#EXT-X-STREAM-INF:BANDWIDTH=${(rendition.videoBitrate + audioBitrate) * 1000},RESOLUTION=${width}x${rendition.height}`,
+          `${rendition.height}p/index.m3u8`,
+        )
+      }
+
+      await writeFile(
+        join(outputDir, 'master.m3u8'),
+        ['#EXTM3U', '#EXT-X-VERSION:3', ...variants, ''].join('\n'),
+      )
+
+      const { code } = await this.runFfmpeg(
+        [
+          '-hide_banner',
+          '-y',
+          '-ss',
+          String(Math.min(this.posterTimestamp, source.durationInSeconds / 2)),
+          '-i',
+          inputPath,
+          '-frames:v',
+          '1',
+          '-q:v',
+          '2',
+          join(outputDir, 'poster.jpg'),
+        ],
+        signal,
+      )
+
+      if (code !== 0) {
+        throw new Error(`ffmpeg exited with code ${code} while extracting the poster frame`)
+      }
+
+      let size = 0
+
+      for (const filePath of await listFiles(outputDir)) {
+        signal.throwIfAborted()
+
+        const data = await readFile(filePath)
+        const extension = /\.[^.]+$/.exec(filePath)?.[0] ?? ''
+        size += (await stat(filePath)).size
+
+        await this.storage.writeFile(
+          relative(tempDir, filePath).split('\\').join('/'),
+          data,
+          mimeTypes[extension] ?? 'application/octet-stream',
+        )
+      }
+
+      const largest = renditions[0]
+
+      await this.updateJob(
+        job,
+        {
+          height: largest.height,
+          progress: 100,
+          readyToStreamAt: new Date().toISOString(),
+          size,
+          state: 'ready',
+          width: Math.round((source.width * largest.height) / source.height / 2) * 2,
+        },
+        signal,
+      )
+    } finally {
+      await rm(tempDir, { force: true, recursive: true })
+    }
+  }
+
+  /**
+   * Run ffmpeg and collect its stderr output, the process is killed when the signal aborts
+   *
+   * @param args
+   * @param signal
+   * @param onStderr
+   * @returns
+   */
+  private runFfmpeg(
+    args: string[],
+    signal: AbortSignal,
+    onStderr?: (chunk: string) => void,
+  ): Promise<{ code: null | number; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.ffmpegPath, args, { signal, stdio: ['ignore', 'ignore', 'pipe'] })
+
+      let stderr = ''
+
+      child.stderr.setEncoding('utf8')
+      child.stderr.on('data', (chunk: string) => {
+        stderr += chunk
+        onStderr?.(chunk)
+      })
+
+      child.on('error', reject)
+      child.on('close', (code) => resolve({ code, stderr }))
+    })
+  }
+
+  /**
+   * Map a transcoding job to our StreamResponse type
+   *
+   * @param job
+   * @returns
+   */
+  private streamResponseFromJob(job: LocalHlsJob): StreamResponse {
+    const baseUrl = `${this.publicUrl}/${job.videoId}`
+    const ready = job.state === 'ready'
+
+    return {
+      result: {
+        created: job.created,
+        durationInSeconds: job.durationInSeconds,
+        height: job.height,
+        meta: {
+          name: job.name,
+        },
+        playback: ready ? { hls: `${baseUrl}/master.m3u8` } : undefined,
+        readyToStream: ready,
+        readyToStreamAt: job.readyToStreamAt,
+        requireSignedURLs: false,
+        size: job.size,
+        status: {
+          errorReasonCode: job.errorReasonCode,
+          errorReasonText: job.errorReasonText,
+          progress: job.progress,
+          state: job.state,
+        },
+        thumbnail: ready ? `${baseUrl}/poster.jpg` : undefined,
+        videoId: job.videoId,
+        width: job.width,
+      },
+      success: true,
+    }
+  }
+
+  /**
+   * Update a job and persist its state next to the generated files, so the status survives
+   * a restart once the video is processed and other server processes can report the progress
+   *
+   * @param job
+   * @param data
+   * @param signal
+   */
+  private async updateJob(
+    job: LocalHlsJob,
+    data: Partial<LocalHlsJob>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    // a deleted video must not get its status file back
+    signal?.throwIfAborted()
+
+    Object.assign(job, data, { heartbeatAt: new Date().toISOString() })
+
+    await this.storage.writeFile(
+      `${job.videoId}/status.json`,
+      Buffer.from(JSON.stringify(job)),
+      mimeTypes['.json'],
+    )
+  }
+
+  /**
+   * Queue a video to be downloaded and transcoded
+   *
+   * @param params
+   * @returns
+   */
+  async copyVideo(params: CopyVideoRequest): Promise<StreamResponse> {
+    const job: LocalHlsJob = {
+      name: params.meta.name,
+      created: new Date().toISOString(),
+      progress: 0,
+      state: 'queued',
+      videoId: randomUUID(),
+    }
+
+    const controller = new AbortController()
+    const { signal } = controller
+
+    this.jobs.set(job.videoId, job)
+    this.controllers.set(job.videoId, controller)
+
+    await this.updateJob(job, {})
+
+    // the progress is written along with the heartbeat
+    const heartbeat = setInterval(() => {
+      this.updateJob(job, {}, signal).catch(() => undefined)
+    }, heartbeatIntervalSeconds * 1000)
+
+    heartbeat.unref()
+
+    this.queue = this.queue.then(() =>
+      this.process(job, params, signal)
+        .catch((error: unknown) =>
+          this.updateJob(
+            job,
+            {
+              errorReasonCode: 'ERR_TRANSCODE',
+              errorReasonText: error instanceof Error ? error.message : String(error),
+              state: 'error',
+            },
+            signal,
+          ),
+        )
+        .catch(() => undefined)
+        .then(async () => {
+          clearInterval(heartbeat)
+          this.controllers.delete(job.videoId)
+
+          // a file written while the video was deleted
+          if (signal.aborted) {
+            await this.storage.deleteFiles(`${job.videoId}/`)
+          }
+        })
+        .catch(() => undefined),
+    )
+
+    return this.streamResponseFromJob(job)
+  }
+
+  /**
+   * Deletes the generated files of a video, a video still queued or transcoding is cancelled
+   *
+   * @param videoId
+   */
+  async delete(videoId: string): Promise<void> {
+    this.controllers.get(videoId)?.abort()
+    this.jobs.delete(videoId)
+
+    await this.storage.deleteFiles(`${videoId}/`)
+  }
+
+  /**
+   * Render a video player for the master playlist, Safari plays HLS natively and other browsers
+   * through hls.js. The player runs in an iframe as scripts of inserted HTML are not executed
+   *
+   * @param stream
+   * @returns
+   */
+  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
+    const baseUrl = `${this.publicUrl}/${stream.videoId}`
+    const src = `${baseUrl}/master.m3u8`
+    const hlsJsUrl = await this.getHlsJsUrl()
+
+    const playerDocument = `<!doctype html>
+<html>
+  <body style="margin: 0; background: #000">
+    <video controls playsinline poster="${baseUrl}/poster.jpg" preload="metadata" style="width: 100%; height: 100vh"></video>
+    <script src="${hlsJsUrl}"></script>
+    <script>
+      const video = document.querySelector('video')
+      const src = ${JSON.stringify(src)}
+
+      if (video.canPlayType('application/vnd.apple.mpegurl') || !window.Hls?.isSupported()) {
+        video.src = src
+      } else {
+        const hls = new window.Hls()
+        hls.loadSource(src)
+        hls.attachMedia(video)
+      }
+    </script>
+  </body>
+</html>`
+
+    return `<iframe
+        allow="autoplay; fullscreen; picture-in-picture"
+        allowfullscreen="true"
+        srcdoc="${escapeAttribute(playerDocument)}"
+        style="aspect-ratio: 16/9; border: none; width: 100%"
+        title="Video player"
+      ></iframe>`
+  }
+
+  /**
+   * Generated files are served as is, so there is no token to sign
+   */
+  getSignedToken(): Promise<null | string> {
+    return Promise.resolve(null)
+  }
+
+  /**
+   * Get the transcoding status of a video by its ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getStatus(videoId: string): Promise<StreamResponse> {
+    let job = this.jobs.get(videoId)
+
+    if (!job) {
+      const data = await this.storage.readFile(`${videoId}/status.json`)
+
+      if (!data) {
+        throw new Error(`Failed to get video status: video ${videoId} not found`)
+      }
+
+      job = JSON.parse(data.toString('utf8')) as LocalHlsJob
+
+      const heartbeatAge = job.heartbeatAt ? Date.now() - Date.parse(job.heartbeatAt) : Infinity
+
+      // the process handling this job is gone, it will never finish
+      if (
+        job.state !== 'ready' &&
+        job.state !== 'error' &&
+        heartbeatAge > heartbeatTimeoutSeconds * 1000
+      ) {
+        job.state = 'error'
+        job.errorReasonCode = 'ERR_INTERRUPTED'
+        job.errorReasonText = 'Transcoding was interrupted'
+      }
+    }
+
+    return this.streamResponseFromJob(job)
+  }
+}
+
+export const localHlsAdapter = (config: LocalHlsAdapterConfig): StreamAdapter => {
+  return new LocalHlsAdapter(config)
+}
@@ -0,0 +1,842 @@
+import { randomUUID } from 'crypto'
+
+import type { StreamAdapter } from './streamAdapter.js'
+import type {
+  AnalyticsRange,
+  AnimatedThumbnailRequest,
+  CaptionTrack,
+  CaptionUploadRequest,
+  ClipRequest,
+  CopyVideoRequest,
+  DirectUploadRequest,
+  DirectUploadResponse,
+  ListVideosRequest,
+  ListVideosResponse,
+  LiveInput,
+  LiveInputRequest,
+  LiveInputStatus,
+  LiveRecording,
+  ResumableUploadRequest,
+  ResumableUploadResponse,
+  SigningKey,
+  SigningKeyInfo,
+  StorageUsage,
+  StreamFieldData,
+  StreamResponse,
+  ThumbnailRequest,
+  VideoAnalytics,
+  WatermarkInfo,
+  WatermarkRequest,
+} from './types.js'
+
+type MemoryStreamAdapterMethod =
+  | 'copyVideo'
+  | 'createClip'
+  | 'createDirectUpload'
+  | 'createLiveInput'
+  | 'createResumableUpload'
+  | 'createSigningKey'
+  | 'createWatermark'
+  | 'delete'
+  | 'deleteCaption'
+  | 'deleteLiveInput'
+  | 'deleteSigningKey'
+  | 'deleteWatermark'
+  | 'generateCaption'
+  | 'getAnalytics'
+  | 'getAnimatedThumbnailUrl'
+  | 'getHTMLLivePlayer'
+  | 'getHTMLVideoPlayer'
+  | 'getLiveInput'
+  | 'getSignedToken'
+  | 'getStatus'
+  | 'getStorageUsage'
+  | 'getThumbnailUrl'
+  | 'list'
+  | 'listCaptions'
+  | 'listLiveInputRecordings'
+  | 'listSigningKeys'
+  | 'setSigningKey'
+  | 'setSigningKeyLoader'
+  | 'setThumbnailTimestamp'
+  | 'updateLiveInput'
+  | 'uploadCaption'
+
+export type MemoryStreamAdapterCall = {
+  args: unknown[]
+  method: MemoryStreamAdapterMethod
+}
+
+export type MemoryStreamVideoFailure = {
+  errorReasonCode: string
+  errorReasonText?: string
+}
+
+export type MemoryStreamVideo = {
+  /**
+   * Caption tracks with the uploaded WebVTT contents
+   */
+  captions?: ({ vtt?: string } & CaptionTrack)[]
+  /**
+   * Source video and times of a clip
+   */
+  clip?: Omit<ClipRequest, 'meta'>
+  created: string
+  failure?: MemoryStreamVideoFailure
+  /**
+   * Live input the video was recorded from
+   */
+  liveInputId?: string
+  /**
+   * Longer videos fail to process
+   */
+  maxDurationSeconds?: number
+  meta: CopyVideoRequest['meta']
+  readyToStreamAt?: string
+  requireSignedURLs: boolean
+  thumbnailTimestampPct?: number
+  ticks: number
+  url: string
+  videoId: string
+  /**
+   * Watermark profile the video was copied with
+   */
+  watermarkId?: string
+}
+
+export type MemoryStreamLiveInput = {
+  meta: LiveInputRequest['meta']
+  recording: boolean
+} & LiveInput
+
+export type MemoryStreamAdapterConfig = {
+  /**
+   * Advance processing by one tick on every `getStatus` call, defaults to true
+   */
+  autoTick?: boolean
+  /**
+   * Base url used for the generated playback and thumbnail urls
+   */
+  baseUrl?: string
+  /**
+   * Duration reported for every video
+   */
+  durationInSeconds?: number
+  /**
+   * Make every video fail once processed instead of becoming ready
+   */
+  failWith?: MemoryStreamVideoFailure
+  /**
+   * Provider name, use different names when registering more than one memory adapter
+   */
+  providerName?: string
+  requireSignedURLs?: boolean
+  /**
+   * Minutes of video the account may store, unlimited when not set
+   */
+  storageLimitMinutes?: number
+  /**
+   * Number of ticks a video needs to be processed, defaults to 3
+   */
+  ticksToReady?: number
+}
+
+/**
+ * Stream adapter keeping videos in memory, meant to be used in tests
+ */
+export class MemoryStreamAdapter implements StreamAdapter {
+  private readonly autoTick: boolean
+  private readonly baseUrl: string
+  private readonly durationInSeconds: number
+  private readonly failWith?: MemoryStreamVideoFailure
+  private readonly faults = new Map<MemoryStreamAdapterMethod, Error[]>()
+  private readonly requireSignedURLs: boolean
+  private readonly storageLimitMinutes?: number
+  private readonly ticksToReady: number
+
+  /**
+   * Daily views by video ID and day
+   */
+  readonly analytics = new Map<string, VideoAnalytics>()
+
+  /**
+   * Every call made to the adapter, in order
+   */
+  readonly calls: MemoryStreamAdapterCall[] = []
+
+  /**
+   * Live inputs by live input ID
+   */
+  readonly liveInputs = new Map<string, MemoryStreamLiveInput>()
+
+  readonly providerName: string
+
+  /**
+   * Key the signed tokens are minted with
+   */
+  signingKey: null | SigningKey = null
+
+  /**
+   * Reads the stored signing key before signing, like the Cloudflare adapter
+   */
+  signingKeyLoader: (() => Promise<null | SigningKey>) | null = null
+
+  /**
+   * Signing keys of the account by key ID
+   */
+  readonly signingKeys = new Map<string, SigningKey>()
+
+  /**
+   * Stored videos by video ID
+   */
+  readonly videos = new Map<string, MemoryStreamVideo>()
+
+  /**
+   * Registered watermark profiles by watermark ID
+   */
+  readonly watermarks = new Map<string, Omit<WatermarkRequest, 'file'> & WatermarkInfo>()
+
+  constructor(config: MemoryStreamAdapterConfig = {}) {
+    this.autoTick = config.autoTick ?? true
+    this.baseUrl = config.baseUrl ?? 'https://stream.memory.local'
+    this.durationInSeconds = config.durationInSeconds ?? 10
+    this.failWith = config.failWith
+    this.providerName = config.providerName ?? 'memory'
+    this.requireSignedURLs = config.requireSignedURLs ?? false
+    this.storageLimitMinutes = config.storageLimitMinutes
+    this.ticksToReady = config.ticksToReady ?? 3
+  }
+
+  /**
+   * Duration of a stored video once processed
+   *
+   * @param video
+   * @returns
+   */
+  private getDuration(video: MemoryStreamVideo): number {
+    return video.clip
+      ? video.clip.endTimeSeconds - video.clip.startTimeSeconds
+      : this.durationInSeconds
+  }
+
+  /**
+   * Get a stored live input or throw like a provider would
+   *
+   * @param liveInputId
+   * @returns
+   */
+  private getStoredLiveInput(liveInputId: string): MemoryStreamLiveInput {
+    const liveInput = this.liveInputs.get(liveInputId)
+
+    if (!liveInput) {
+      throw new Error(`Live input ${liveInputId} not found`)
+    }
+
+    return liveInput
+  }
+
+  /**
+   * Get a stored video or throw like a provider would
+   *
+   * @param videoId
+   * @returns
+   */
+  private getVideo(videoId: string): MemoryStreamVideo {
+    const video = this.videos.get(videoId)
+
+    if (!video) {
+      throw new Error(`Video ${videoId} not found`)
+    }
+
+    return video
+  }
+
+  /**
+   * Map a stored live input to our LiveInput type
+   *
+   * @param liveInput
+   * @returns
+   */
+  private liveInputFromStored({
+    meta: _meta,
+    recording: _recording,
+    ...liveInput
+  }: MemoryStreamLiveInput): LiveInput {
+    return structuredClone(liveInput)
+  }
+
+  /**
+   * Record a call and reject with the next injected fault for the method, if any
+   *
+   * @param method
+   * @param args
+   */
+  private record(method: MemoryStreamAdapterMethod, args: unknown[]): Promise<void> {
+    this.calls.push({ args, method })
+
+    const error = this.faults.get(method)?.shift()
+
+    return error ? Promise.reject(error) : Promise.resolve()
+  }
+
+  /**
+   * Add or replace the caption track of a language
+   *
+   * @param videoId
+   * @param caption
+   * @returns
+   */
+  private setCaption(videoId: string, caption: { vtt?: string } & CaptionTrack): CaptionTrack {
+    const video = this.getVideo(videoId)
+
+    video.captions = [
+      ...(video.captions ?? []).filter(({ language }) => language !== caption.language),
+      caption,
+    ]
+
+    const { vtt: _vtt, ...track } = caption
+
+    return track
+  }
+
+  /**
+   * Map a stored video to our StreamResponse type
+   *
+   * @param video
+   * @returns
+   */
+  private streamResponseFromVideo(video: MemoryStreamVideo): StreamResponse {
+    const processed = video.ticks >= this.ticksToReady
+    const durationExceeded =
+      video.maxDurationSeconds !== undefined && this.getDuration(video) > video.maxDurationSeconds
+    const failure = processed
+      ? (video.failure ??
+        this.failWith ??
+        (durationExceeded ? { errorReasonCode: 'ERR_DURATION_EXCEED_CONSTRAINT' } : undefined))
+      : undefined
+    const readyToStream = processed && !failure
+
+    return {
+      result: {
+        created: video.created,
+        durationInSeconds: processed ? this.getDuration(video) : undefined,
+        height: processed ? 1080 : undefined,
+        liveInputId: video.liveInputId,
+        meta: video.meta,
+        playback: readyToStream
+          ? { hls: `${this.baseUrl}/${video.videoId}/manifest/video.m3u8` }
+          : undefined,
+        readyToStream,
+        readyToStreamAt: video.readyToStreamAt,
+        requireSignedURLs: video.requireSignedURLs,
+        status: {
+          errorReasonCode: failure?.errorReasonCode,
+          errorReasonText: failure?.errorReasonText,
+          progress: Math.min(Math.round((video.ticks / this.ticksToReady) * 100), 100),
+          state: failure ? 'error' : readyToStream ? 'ready' : 'inprogress',
+        },
+        thumbnail:
+          video.thumbnailTimestampPct !== undefined
+            ? `${this.baseUrl}/${video.videoId}/thumbnails/thumbnail.jpg?pct=${video.thumbnailTimestampPct}`
+            : `${this.baseUrl}/${video.videoId}/thumbnails/thumbnail.jpg`,
+        videoId: video.videoId,
+        width: processed ? 1920 : undefined,
+      },
+      success: true,
+    }
+  }
+
+  async copyVideo(params: CopyVideoRequest): Promise<StreamResponse> {
+    await this.record('copyVideo', [params])
+
+    const video: MemoryStreamVideo = {
+      created: new Date().toISOString(),
+      maxDurationSeconds: params.maxDurationSeconds,
+      meta: params.meta,
+      requireSignedURLs: this.requireSignedURLs,
+      ticks: 0,
+      url: params.url,
+      videoId: randomUUID(),
+      watermarkId: params.watermarkId,
+    }
+
+    this.videos.set(video.videoId, video)
+
+    return this.streamResponseFromVideo(video)
+  }
+
+  async createClip(params: ClipRequest): Promise<StreamResponse> {
+    await this.record('createClip', [params])
+
+    const source = this.getVideo(params.videoId)
+    const { meta, ...clip } = params
+
+    const video: MemoryStreamVideo = {
+      clip,
+      created: new Date().toISOString(),
+      meta,
+      requireSignedURLs: source.requireSignedURLs,
+      ticks: 0,
+      url: source.url,
+      videoId: randomUUID(),
+    }
+
+    this.videos.set(video.videoId, video)
+
+    return this.streamResponseFromVideo(video)
+  }
+
+  async createDirectUpload(params: DirectUploadRequest): Promise<DirectUploadResponse> {
+    await this.record('createDirectUpload', [params])
+
+    const videoId = randomUUID()
+
+    this.videos.set(videoId, {
+      created: new Date().toISOString(),
+      meta: params.meta,
+      requireSignedURLs: this.requireSignedURLs,
+      ticks: 0,
+      url: '',
+      videoId,
+    })
+
+    return { uploadURL: `${this.baseUrl}/uploads/${videoId}`, videoId }
+  }
+
+  async createLiveInput(params: LiveInputRequest): Promise<LiveInput> {
+    await this.record('createLiveInput', [params])
+
+    const id = randomUUID()
+    const liveInput: MemoryStreamLiveInput = {
+      id,
+      created: new Date().toISOString(),
+      meta: params.meta,
+      recording: params.recording ?? true,
+      rtmps: { streamKey: `memory-stream-key-${id}`, url: 'rtmps://live.memory.local:443/live/' },
+      srt: {
+        passphrase: `memory-passphrase-${id}`,
+        streamId: id,
+        url: 'srt://live.memory.local:778',
+      },
+      status: 'disconnected',
+    }
+
+    this.liveInputs.set(id, liveInput)
+
+    return this.liveInputFromStored(liveInput)
+  }
+
+  async createResumableUpload(params: ResumableUploadRequest): Promise<ResumableUploadResponse> {
+    await this.record('createResumableUpload', [params])
+
+    const videoId = randomUUID()
+
+    this.videos.set(videoId, {
+      created: new Date().toISOString(),
+      meta: params.meta,
+      requireSignedURLs: this.requireSignedURLs,
+      ticks: 0,
+      url: '',
+      videoId,
+    })
+
+    return { uploadURL: `${this.baseUrl}/tus/${videoId}`, videoId }
+  }
+
+  async createSigningKey(): Promise<SigningKey> {
+    await this.record('createSigningKey', [])
+
+    const id = randomUUID()
+    const key = { id, created: new Date().toISOString(), pem: `memory-private-key-${id}` }
+
+    this.signingKeys.set(id, key)
+
+    return key
+  }
+
+  async createWatermark(params: WatermarkRequest): Promise<WatermarkInfo> {
+    await this.record('createWatermark', [params])
+
+    const { file: _file, ...settings } = params
+    const watermark = { ...settings, id: randomUUID(), created: new Date().toISOString() }
+
+    this.watermarks.set(watermark.id, watermark)
+
+    return { id: watermark.id, created: watermark.created }
+  }
+
+  async delete(videoId: string): Promise<void> {
+    await this.record('delete', [videoId])
+
+    if (!this.videos.delete(videoId)) {
+      throw new Error(`Failed to delete video: video ${videoId} not found`)
+    }
+  }
+
+  async deleteCaption(videoId: string, language: string): Promise<void> {
+    await this.record('deleteCaption', [videoId, language])
+
+    const video = this.getVideo(videoId)
+
+    video.captions = video.captions?.filter((caption) => caption.language !== language)
+  }
+
+  async deleteLiveInput(liveInputId: string): Promise<void> {
+    await this.record('deleteLiveInput', [liveInputId])
+
+    if (!this.liveInputs.delete(liveInputId)) {
+      throw new Error(`Failed to delete live input: live input ${liveInputId} not found`)
+    }
+  }
+
+  async deleteSigningKey(keyId: string): Promise<void> {
+    await this.record('deleteSigningKey', [keyId])
+
+    if (!this.signingKeys.delete(keyId)) {
+      throw new Error(`Failed to delete signing key: key ${keyId} not found`)
+    }
+  }
+
+  async deleteWatermark(watermarkId: string): Promise<void> {
+    await this.record('deleteWatermark', [watermarkId])
+
+    if (!this.watermarks.delete(watermarkId)) {
+      throw new Error(`Failed to delete watermark: watermark ${watermarkId} not found`)
+    }
+  }
+
+  /**
+   * Make the next call(s) to a method throw
+   *
+   * @param method
+   * @param error
+   * @param times
+   */
+  failNext(
+    method: MemoryStreamAdapterMethod,
+    error: Error = new Error(`Injected ${method} failure`),
+    times = 1,
+  ): void {
+    const faults = this.faults.get(method) ?? []
+
+    for (let i = 0; i < times; i++) {
+      faults.push(error)
+    }
+
+    this.faults.set(method, faults)
+  }
+
+  /**
+   * Make a video fail once processed
+   *
+   * @param videoId
+   * @param failure
+   */
+  failVideo(videoId: string, failure: MemoryStreamVideoFailure): void {
+    const video = this.videos.get(videoId)
+
+    if (video) {
+      video.failure = failure
+    }
+  }
+
+  /**
+   * Generated captions stay in progress until the video is ticked
+   *
+   * @param videoId
+   * @param language
+   * @returns
+   */
+  async generateCaption(videoId: string, language: string): Promise<CaptionTrack> {
+    await this.record('generateCaption', [videoId, language])
+
+    return this.setCaption(videoId, { generated: true, language, status: 'inprogress' })
+  }
+
+  async getAnalytics(videoIds: string[], range: AnalyticsRange): Promise<VideoAnalytics[]> {
+    await this.record('getAnalytics', [videoIds, range])
+
+    return [...this.analytics.values()]
+      .filter(
+        ({ date, videoId }) =>
+          videoIds.includes(videoId) && date >= range.since && date <= range.until,
+      )
+      .map((analytics) => ({ ...analytics }))
+  }
+
+  async getAnimatedThumbnailUrl(
+    videoId: string,
+    params: AnimatedThumbnailRequest,
+  ): Promise<string> {
+    await this.record('getAnimatedThumbnailUrl', [videoId, params])
+
+    return `${this.baseUrl}/${videoId}/thumbnails/thumbnail.${params.format}?time=${params.start}s&duration=${params.duration}s`
+  }
+
+  async getHTMLLivePlayer(liveInputId: string): Promise<null | string> {
+    await this.record('getHTMLLivePlayer', [liveInputId])
+
+    return `<iframe src="${this.baseUrl}/${liveInputId}/iframe" title="Memory live stream"></iframe>`
+  }
+
+  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
+    await this.record('getHTMLVideoPlayer', [stream])
+
+    let token = stream.videoId
+
+    if (stream.requireSignedURLs) {
+      token = (await this.getSignedToken(stream.videoId)) || stream.videoId
+    }
+
+    return `<iframe src="${this.baseUrl}/${token}/iframe" title="Memory stream video"></iframe>`
+  }
+
+  async getLiveInput(liveInputId: string): Promise<LiveInput> {
+    await this.record('getLiveInput', [liveInputId])
+
+    return this.liveInputFromStored(this.getStoredLiveInput(liveInputId))
+  }
+
+  async getSignedToken(videoId: string): Promise<null | string> {
+    await this.record('getSignedToken', [videoId])
+
+    if (!this.videos.has(videoId)) {
+      return null
+    }
+
+    const stored = await this.signingKeyLoader?.()
+
+    if (stored && stored.id !== this.signingKey?.id) {
+      this.signingKey = stored
+    }
+
+    return this.signingKey ? `signed-${this.signingKey.id}-${videoId}` : `signed-${videoId}`
+  }
+
+  async getStatus(videoId: string): Promise<StreamResponse> {
+    await this.record('getStatus', [videoId])
+
+    const video = this.videos.get(videoId)
+
+    if (!video) {
+      throw new Error(`Failed to get video status: video ${videoId} not found`)
+    }
+
+    if (this.autoTick) {
+      this.tick(videoId)
+    }
+
+    return this.streamResponseFromVideo(video)
+  }
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    await this.record('getStorageUsage', [])
+
+    const usedSeconds = [...this.videos.values()].reduce(
+      (total, video) => total + this.getDuration(video),
+      0,
+    )
+
+    return {
+      limitMinutes: this.storageLimitMinutes,
+      usedMinutes: usedSeconds / 60,
+      videoCount: this.videos.size,
+    }
+  }
+
+  async getThumbnailUrl(videoId: string, params: ThumbnailRequest): Promise<string> {
+    await this.record('getThumbnailUrl', [videoId, params])
+
+    return `${this.baseUrl}/${videoId}/thumbnails/thumbnail.jpg?time=${params.time}s`
+  }
+
+  async list(params: ListVideosRequest): Promise<ListVideosResponse> {
+    await this.record('list', [params])
+
+    const search = params.search?.toLowerCase()
+    const videos = [...this.videos.values()]
+      .filter((video) => !search || video.meta.name.toLowerCase().includes(search))
+      .reverse()
+
+    // the cursor is the offset of the page, newest videos first
+    const start = Number(params.cursor) || 0
+    const end = start + (params.limit ?? 50)
+
+    return {
+      nextCursor: end < videos.length ? String(end) : undefined,
+      videos: videos.slice(start, end).flatMap((video) => {
+        const { result } = this.streamResponseFromVideo(video)
+
+        return result ? [result] : []
+      }),
+    }
+  }
+
+  async listCaptions(videoId: string): Promise<CaptionTrack[]> {
+    await this.record('listCaptions', [videoId])
+
+    return (this.getVideo(videoId).captions ?? []).map(({ vtt: _vtt, ...caption }) => caption)
+  }
+
+  async listLiveInputRecordings(liveInputId: string): Promise<LiveRecording[]> {
+    await this.record('listLiveInputRecordings', [liveInputId])
+
+    return [...this.videos.values()]
+      .filter((video) => video.liveInputId === liveInputId)
+      .flatMap((video) => {
+        const { result } = this.streamResponseFromVideo(video)
+
+        return result ? [{ ...result, liveInputId }] : []
+      })
+  }
+
+  async listSigningKeys(): Promise<SigningKeyInfo[]> {
+    await this.record('listSigningKeys', [])
+
+    return [...this.signingKeys.values()].map(({ id, created }) => ({ id, created }))
+  }
+
+  /**
+   * Store the recording of a finished broadcast to a live input, processed like a copied video
+   *
+   * @param liveInputId
+   * @param meta
+   * @returns the video ID of the recording
+   */
+  recordLiveInput(
+    liveInputId: string,
+    meta: CopyVideoRequest['meta'] = { name: 'Recording' },
+  ): string {
+    const video: MemoryStreamVideo = {
+      created: new Date().toISOString(),
+      liveInputId,
+      meta,
+      requireSignedURLs: this.requireSignedURLs,
+      ticks: 0,
+      url: `${this.baseUrl}/${liveInputId}/recording`,
+      videoId: randomUUID(),
+    }
+
+    this.videos.set(video.videoId, video)
+
+    return video.videoId
+  }
+
+  /**
+   * Add views of a video on a day, as if viewers watched it
+   *
+   * @param videoId
+   * @param date day of the views, e.g. `2026-01-01`
+   * @param minutesViewed
+   * @param views
+   */
+  recordViews(videoId: string, date: string, minutesViewed: number, views = 1): void {
+    const key = `${videoId}:${date}`
+    const analytics = this.analytics.get(key) ?? { date, minutesViewed: 0, videoId, views: 0 }
+
+    analytics.minutesViewed += minutesViewed
+    analytics.views += views
+
+    this.analytics.set(key, analytics)
+  }
+
+  /**
+   * Clear stored videos, signing keys, analytics, recorded calls and injected faults
+   */
+  reset(): void {
+    this.analytics.clear()
+    this.calls.length = 0
+    this.faults.clear()
+    this.liveInputs.clear()
+    this.signingKey = null
+    this.signingKeyLoader = null
+    this.signingKeys.clear()
+    this.videos.clear()
+    this.watermarks.clear()
+  }
+
+  /**
+   * Change the connection status of a live input, as if a broadcaster (dis)connected
+   *
+   * @param liveInputId
+   * @param status
+   */
+  setLiveInputStatus(liveInputId: string, status: LiveInputStatus): void {
+    this.getStoredLiveInput(liveInputId).status = status
+  }
+
+  setSigningKey(signingKey: null | SigningKey): void {
+    this.calls.push({ args: [signingKey], method: 'setSigningKey' })
+    this.signingKey = signingKey
+  }
+
+  setSigningKeyLoader(loader: () => Promise<null | SigningKey>): void {
+    this.calls.push({ args: [loader], method: 'setSigningKeyLoader' })
+    this.signingKeyLoader = loader
+  }
+
+  async setThumbnailTimestamp(videoId: string, timestampPct: number): Promise<StreamResponse> {
+    await this.record('setThumbnailTimestamp', [videoId, timestampPct])
+
+    const video = this.getVideo(videoId)
+
+    video.thumbnailTimestampPct = timestampPct
+
+    return this.streamResponseFromVideo(video)
+  }
+
+  /**
+   * Advance processing of one or every video
+   *
+   * @param videoId
+   * @param ticks
+   */
+  tick(videoId?: string, ticks = 1): void {
+    const videos = videoId ? [this.videos.get(videoId)] : [...this.videos.values()]
+
+    for (const video of videos) {
+      if (!video) {
+        continue
+      }
+
+      video.ticks += ticks
+
+      for (const caption of video.captions ?? []) {
+        if (caption.status === 'inprogress') {
+          caption.status = 'ready'
+        }
+      }
+
+      if (video.ticks >= this.ticksToReady && !video.failure && !this.failWith) {
+        video.readyToStreamAt ??= new Date().toISOString()
+      }
+    }
+  }
+
+  async updateLiveInput(liveInputId: string, params: LiveInputRequest): Promise<LiveInput> {
+    await this.record('updateLiveInput', [liveInputId, params])
+
+    const liveInput = this.getStoredLiveInput(liveInputId)
+
+    liveInput.meta = params.meta
+    liveInput.recording = params.recording ?? true
+
+    return this.liveInputFromStored(liveInput)
+  }
+
+  async uploadCaption(videoId: string, params: CaptionUploadRequest): Promise<CaptionTrack> {
+    await this.record('uploadCaption', [videoId, params])
+
+    return this.setCaption(videoId, {
+      generated: false,
+      label: params.label,
+      language: params.language,
+      status: 'ready',
+      vtt: params.vtt,
+    })
+  }
+}
+
+export const memoryStreamAdapter = (config?: MemoryStreamAdapterConfig): MemoryStreamAdapter => {
+  return new MemoryStreamAdapter(config)
+}
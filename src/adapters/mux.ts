@@ -0,0 +1,324 @@
+import type { StreamAdapter } from './streamAdapter.js'
+import type { CopyVideoRequest, StreamFieldData, StreamResponse } from './types.js'
+
+import { signRS256JWT } from '../utils/jwt.js'
+
+type MuxPlaybackId = {
+  id: string
+  policy: 'drm' | 'public' | 'signed'
+}
+
+type MuxAsset = {
+  created_at?: string
+  duration?: number
+  errors?: {
+    messages?: string[]
+    type?: string
+  }
+  id: string
+  passthrough?: string
+  playback_ids?: MuxPlaybackId[]
+  progress?: {
+    progress?: number
+    state: string
+  }
+  status: 'errored' | 'preparing' | 'ready'
+  tracks?: {
+    max_height?: number
+    max_width?: number
+    type: string
+  }[]
+}
+
+type MuxAPIResponse = {
+  data?: MuxAsset
+  error?: {
+    messages?: string[]
+    type?: string
+  }
+}
+
+export type MuxAdapterConfig = {
+  /**
+   * Mux API base url, useful to point the adapter to a proxy or a fake API in tests
+   */
+  baseUrl?: string
+  /**
+   * Mux player base url used by `getHTMLVideoPlayer`
+   */
+  playerBaseUrl?: string
+  /**
+   * Create assets with a `signed` playback policy instead of a `public` one
+   */
+  requireSignedURLs?: boolean
+  /**
+   * Lifetime of signed playback tokens in seconds, defaults to 1 hour
+   */
+  signedTokenExpiresIn?: number
+  /**
+   * Signing key ID used to mint signed playback tokens
+   */
+  signingKeyId?: string
+  /**
+   * Signing key private key, either PEM or base64 encoded PEM as returned by Mux
+   */
+  signingKeyPrivateKey?: string
+  tokenId: string
+  tokenSecret: string
+}
+
+const muxStatusToState: Record<MuxAsset['status'], string> = {
+  errored: 'error',
+  preparing: 'inprogress',
+  ready: 'ready',
+}
+
+class MuxAdapter implements StreamAdapter {
+  private readonly baseUrl: string
+  private readonly playbackIds = new Map<string, MuxPlaybackId>()
+  private readonly playerBaseUrl: string
+  private readonly requireSignedURLs: boolean
+  private readonly signedTokenExpiresIn: number
+  private readonly signingKeyId?: string
+  private readonly signingKeyPrivateKey?: string
+  private readonly tokenId: string
+  private readonly tokenSecret: string
+
+  readonly providerName = 'mux'
+
+  constructor(config: MuxAdapterConfig) {
+    this.tokenId = config.tokenId
+    this.tokenSecret = config.tokenSecret
+    this.baseUrl = config.baseUrl ?? 'https://api.mux.com'
+    this.playerBaseUrl = config.playerBaseUrl ?? 'https://player.mux.com'
+    this.requireSignedURLs = config.requireSignedURLs ?? false
+    this.signingKeyId = config.signingKeyId
+    this.signingKeyPrivateKey = config.signingKeyPrivateKey
+    this.signedTokenExpiresIn = config.signedTokenExpiresIn ?? 60 * 60
+  }
+
+  /**
+   * Find the playback ID of an asset, Mux plays videos by playback ID instead of asset ID
+   *
+   * @param videoId
+   * @returns
+   */
+  private async getPlaybackId(videoId: string): Promise<MuxPlaybackId | null> {
+    const cached = this.playbackIds.get(videoId)
+
+    if (cached) {
+      return cached
+    }
+
+    await this.getStatus(videoId)
+
+    return this.playbackIds.get(videoId) ?? null
+  }
+
+  /**
+   * Map Mux asset response to our StreamResponse type
+   *
+   * @param body
+   * @param status
+   * @returns
+   */
+  private streamResponseFromMuxAPI(body: MuxAPIResponse, status: number): StreamResponse {
+    const asset = body.data
+
+    if (!asset) {
+      return {
+        errors: body.error
+          ? [{ code: status, message: body.error.messages?.join(', ') || body.error.type || '' }]
+          : undefined,
+        success: false,
+      }
+    }
+
+    const playbackId = asset.playback_ids?.[0]
+
+    if (playbackId) {
+      this.playbackIds.set(asset.id, playbackId)
+    }
+
+    const videoTrack = asset.tracks?.find((track) => track.type === 'video')
+
+    return {
+      result: {
+        created: asset.created_at
+          ? new Date(Number(asset.created_at) * 1000).toISOString()
+          : undefined,
+        durationInSeconds: asset.duration,
+        height: videoTrack?.max_height,
+        meta: {
+          name: asset.passthrough ?? '',
+        },
+        playback:
+          playbackId && asset.status === 'ready'
+            ? { hls: `https://stream.mux.com/${playbackId.id}.m3u8` }
+            : undefined,
+        readyToStream: asset.status === 'ready',
+        requireSignedURLs: playbackId?.policy === 'signed',
+        status: {
+          errorReasonCode: asset.errors?.type,
+          errorReasonText: asset.errors?.messages?.join(', '),
+          progress: asset.progress?.progress,
+          state: muxStatusToState[asset.status] ?? asset.status,
+        },
+        // signed thumbnails need a short-lived token, so only public assets get a stored thumbnail
+        thumbnail:
+          playbackId?.policy === 'public'
+            ? `https://image.mux.com/${playbackId.id}/thumbnail.jpg`
+            : undefined,
+        videoId: asset.id,
+        width: videoTrack?.max_width,
+      },
+      success: true,
+    }
+  }
+
+  /**
+   * Create a Mux asset from a video URL
+   *
+   * @param params
+   * @returns
+   */
+  async copyVideo(params: CopyVideoRequest): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/video/v1/assets`
+
+    const response = await fetch(url, {
+      body: JSON.stringify({
+        input: [{ url: params.url }],
+        passthrough: params.meta.name,
+        playback_policies: [this.requireSignedURLs ? 'signed' : 'public'],
+      }),
+      headers: {
+        Authorization: this.authorizationHeader,
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    const body = (await response.json()) as MuxAPIResponse
+
+    if (!response.ok) {
+      throw new Error(`Failed to copy video: ${response.statusText}`)
+    }
+
+    return this.streamResponseFromMuxAPI(body, response.status)
+  }
+
+  /**
+   * Deletes an asset by its ID
+   *
+   * @param videoId
+   */
+  async delete(videoId: string): Promise<void> {
+    const url = `${this.baseUrl}/video/v1/assets/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: this.authorizationHeader,
+      },
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete video: ${response.statusText}`)
+    }
+
+    this.playbackIds.delete(videoId)
+  }
+
+  /**
+   * Render the Mux player iframe by asset ID
+   *
+   * @param stream
+   * @returns
+   */
+  async getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string> {
+    const playbackId = await this.getPlaybackId(stream.videoId)
+
+    if (!playbackId) {
+      return null
+    }
+
+    let videoUrl = `${this.playerBaseUrl}/${playbackId.id}`
+
+    if (playbackId.policy === 'signed') {
+      const token = await this.getSignedToken(stream.videoId)
+
+      if (token) {
+        videoUrl += `?playback-token=${token}`
+      }
+    }
+
+    return `<iframe
+        allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture"
+        allowfullscreen="true"
+        src="${videoUrl}"
+        style="aspect-ratio: 16/9; border: none; width: 100%"
+        title="Mux video"
+      ></iframe>`
+  }
+
+  /**
+   * Mint a signed playback token for the asset playback ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getSignedToken(videoId: string): Promise<null | string> {
+    if (!this.signingKeyId || !this.signingKeyPrivateKey) {
+      return null
+    }
+
+    const playbackId = await this.getPlaybackId(videoId)
+
+    if (!playbackId) {
+      return null
+    }
+
+    return signRS256JWT(
+      {
+        aud: 'v',
+        exp: Math.floor(Date.now() / 1000) + this.signedTokenExpiresIn,
+        sub: playbackId.id,
+      },
+      this.signingKeyPrivateKey,
+      this.signingKeyId,
+    )
+  }
+
+  /**
+   * Get the status of an asset by its ID
+   *
+   * @param videoId
+   * @returns
+   */
+  async getStatus(videoId: string): Promise<StreamResponse> {
+    const url = `${this.baseUrl}/video/v1/assets/${videoId}`
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: this.authorizationHeader,
+      },
+      method: 'GET',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to get video status: ${response.statusText}`)
+    }
+
+    const body = (await response.json()) as MuxAPIResponse
+
+    return this.streamResponseFromMuxAPI(body, response.status)
+  }
+
+  private get authorizationHeader(): string {
+    return `Basic ${Buffer.from(`${this.tokenId}:${this.tokenSecret}`).toString('base64')}`
+  }
+}
+
+export const muxAdapter = (config: MuxAdapterConfig): StreamAdapter => {
+  return new MuxAdapter(config)
+}
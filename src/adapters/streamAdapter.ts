@@ -1,4 +1,29 @@
-import type { CopyVideoRequest, StreamFieldData, StreamResponse } from './types.js'
+import type {
+  AnalyticsRange,
+  AnimatedThumbnailRequest,
+  CaptionTrack,
+  CaptionUploadRequest,
+  ClipRequest,
+  CopyVideoRequest,
+  DirectUploadRequest,
+  DirectUploadResponse,
+  ListVideosRequest,
+  ListVideosResponse,
+  LiveInput,
+  LiveInputRequest,
+  LiveRecording,
+  ResumableUploadRequest,
+  ResumableUploadResponse,
+  SigningKey,
+  SigningKeyInfo,
+  StorageUsage,
+  StreamFieldData,
+  StreamResponse,
+  ThumbnailRequest,
+  VideoAnalytics,
+  WatermarkInfo,
+  WatermarkRequest,
+} from './types.js'
 
 export abstract class StreamAdapter {
   /**
@@ -13,6 +38,46 @@ export abstract class StreamAdapter {
    */
   abstract copyVideo(params: CopyVideoRequest): Promise<StreamResponse>
 
+  /**
+   * Create a new video from a part of an existing one, processed like a copied video
+   *
+   * @param params
+   */
+  abstract createClip?(params: ClipRequest): Promise<StreamResponse>
+
+  /**
+   * Create a one-time url the browser can upload a video to directly
+   *
+   * @param params
+   */
+  abstract createDirectUpload?(params: DirectUploadRequest): Promise<DirectUploadResponse>
+
+  /**
+   * Create a live input broadcasters stream to
+   *
+   * @param params
+   */
+  abstract createLiveInput?(params: LiveInputRequest): Promise<LiveInput>
+
+  /**
+   * Create a resumable upload session using the tus protocol
+   *
+   * @param params
+   */
+  abstract createResumableUpload?(params: ResumableUploadRequest): Promise<ResumableUploadResponse>
+
+  /**
+   * Create a key to sign playback tokens with
+   */
+  abstract createSigningKey?(): Promise<SigningKey>
+
+  /**
+   * Register a watermark profile videos can be copied with
+   *
+   * @param params
+   */
+  abstract createWatermark?(params: WatermarkRequest): Promise<WatermarkInfo>
+
   /**
    * Delete a video by its ID
    *
@@ -20,6 +85,69 @@ export abstract class StreamAdapter {
    */
   abstract delete(videoId: string): Promise<void>
 
+  /**
+   * Delete the caption track of a language
+   *
+   * @param videoId
+   * @param language
+   */
+  abstract deleteCaption?(videoId: string, language: string): Promise<void>
+
+  /**
+   * Delete a live input, recordings of its broadcasts are kept
+   *
+   * @param liveInputId
+   */
+  abstract deleteLiveInput?(liveInputId: string): Promise<void>
+
+  /**
+   * Revoke a signing key, tokens signed with it stop working
+   *
+   * @param keyId
+   */
+  abstract deleteSigningKey?(keyId: string): Promise<void>
+
+  /**
+   * Delete a watermark profile, videos copied with it keep the watermark
+   *
+   * @param watermarkId
+   */
+  abstract deleteWatermark?(watermarkId: string): Promise<void>
+
+  /**
+   * Generate a caption track from the audio of the video
+   *
+   * @param videoId
+   * @param language
+   */
+  abstract generateCaption?(videoId: string, language: string): Promise<CaptionTrack>
+
+  /**
+   * Get the daily views of videos, days without views may be left out
+   *
+   * @param videoIds
+   * @param range
+   */
+  abstract getAnalytics?(videoIds: string[], range: AnalyticsRange): Promise<VideoAnalytics[]>
+
+  /**
+   * Get the url of an animated GIF or WebP preview of a part of the video
+   *
+   * @param videoId
+   * @param params
+   */
+  abstract getAnimatedThumbnailUrl?(
+    videoId: string,
+    params: AnimatedThumbnailRequest,
+  ): Promise<string>
+
+  /**
+   * Render the player HTML of the broadcast of a live input
+   *
+   * @param liveInputId
+   */
+  abstract getHTMLLivePlayer?(liveInputId: string): Promise<null | string>
+
   /**
    * Render the video player HTML by video ID
    *
@@ -27,6 +155,13 @@ export abstract class StreamAdapter {
    */
   abstract getHTMLVideoPlayer(stream: StreamFieldData): Promise<null | string>
 
+  /**
+   * Get a live input with its current connection status
+   *
+   * @param liveInputId
+   */
+  abstract getLiveInput?(liveInputId: string): Promise<LiveInput>
+
   /**
    * Get signed token by video ID
    *
@@ -40,4 +175,96 @@ export abstract class StreamAdapter {
    * @param videoId
    */
   abstract getStatus(videoId: string): Promise<StreamResponse>
+
+  /**
+   * Get the minutes of video stored on the account and its quota
+   */
+  abstract getStorageUsage?(): Promise<StorageUsage>
+
+  /**
+   * Get the url of the frame at a position of the video
+   *
+   * @param videoId
+   * @param params
+   */
+  abstract getThumbnailUrl?(videoId: string, params: ThumbnailRequest): Promise<string>
+
+  /**
+   * List the videos on the provider account a page at a time
+   *
+   * @param params
+   */
+  abstract list?(params: ListVideosRequest): Promise<ListVideosResponse>
+
+  /**
+   * List the caption tracks of a video
+   *
+   * @param videoId
+   */
+  abstract listCaptions?(videoId: string): Promise<CaptionTrack[]>
+
+  /**
+   * List the videos recorded from the broadcasts of a live input
+   *
+   * @param liveInputId
+   */
+  abstract listLiveInputRecordings?(liveInputId: string): Promise<LiveRecording[]>
+
+  /**
+   * List the signing keys of the account
+   */
+  abstract listSigningKeys?(): Promise<SigningKeyInfo[]>
+
+  /**
+   * Parse a verified webhook notification body into a stream response
+   *
+   * @param body
+   */
+  abstract parseWebhook?(body: string): Promise<StreamResponse>
+
+  /**
+   * Replace the key used to sign playback tokens without restarting
+   *
+   * @param signingKey
+   */
+  abstract setSigningKey?(signingKey: null | SigningKey): void
+
+  /**
+   * Read the stored signing key before signing, so a key rotated by another server process is used
+   *
+   * @param loader resolves the stored key, null when none is stored
+   */
+  abstract setSigningKeyLoader?(loader: () => Promise<null | SigningKey>): void
+
+  /**
+   * Use the frame at a position of the video as its thumbnail
+   *
+   * @param videoId
+   * @param timestampPct position of the frame, from 0 to 1
+   */
+  abstract setThumbnailTimestamp?(videoId: string, timestampPct: number): Promise<StreamResponse>
+
+  /**
+   * Update the settings of a live input
+   *
+   * @param liveInputId
+   * @param params
+   */
+  abstract updateLiveInput?(liveInputId: string, params: LiveInputRequest): Promise<LiveInput>
+
+  /**
+   * Upload a WebVTT caption track
+   *
+   * @param videoId
+   * @param params
+   */
+  abstract uploadCaption?(videoId: string, params: CaptionUploadRequest): Promise<CaptionTrack>
+
+  /**
+   * Verify the signature of a webhook notification
+   *
+   * @param body raw request body
+   * @param headers
+   */
+  abstract verifyWebhook?(body: string, headers: Headers): Promise<boolean>
 }
@@ -3,9 +3,266 @@ export type StreamVideoMeta = {
   name: string
 }
 
+export type AnalyticsRange = {
+  /**
+   * First day of the range, e.g. `2026-01-01`
+   */
+  since: string
+  /**
+   * Last day of the range, included
+   */
+  until: string
+}
+
+export type AnimatedThumbnailRequest = {
+  /**
+   * Length of the animation in seconds
+   */
+  duration: number
+  format: 'gif' | 'webp'
+  height?: number
+  /**
+   * Start of the animation in seconds
+   */
+  start: number
+}
+
+export type CaptionTrack = {
+  /**
+   * Generated by the provider from the audio instead of uploaded
+   */
+  generated?: boolean
+  label?: string
+  /**
+   * BCP 47 language tag, e.g. `en` or `pt-BR`
+   */
+  language: string
+  status: 'error' | 'inprogress' | 'ready'
+}
+
+export type CaptionUploadRequest = {
+  label?: string
+  language: string
+  /**
+   * WebVTT file contents
+   */
+  vtt: string
+}
+
+export type ClipRequest = {
+  /**
+   * End of the clip in seconds
+   */
+  endTimeSeconds: number
+  meta: StreamVideoMeta
+  /**
+   * Start of the clip in seconds
+   */
+  startTimeSeconds: number
+  /**
+   * Video the clip is cut from
+   */
+  videoId: string
+}
+
 export type CopyVideoRequest = {
+  /**
+   * Maximum duration of the copied video in seconds, longer videos fail to process
+   */
+  maxDurationSeconds?: number
   meta: StreamVideoMeta
   url: string
+  /**
+   * Watermark profile burned into the video at ingestion
+   */
+  watermarkId?: string
+}
+
+export type DirectUploadRequest = {
+  /**
+   * Maximum duration of the uploaded video in seconds
+   */
+  maxDurationSeconds?: number
+  meta: StreamVideoMeta
+}
+
+export type DirectUploadResponse = {
+  /**
+   * One-time url the browser uploads the file to
+   */
+  uploadURL: string
+  videoId: string
+}
+
+export type ListVideosRequest = {
+  /**
+   * Cursor returned with the previous page
+   */
+  cursor?: string
+  /**
+   * Maximum number of videos in the page
+   */
+  limit?: number
+  /**
+   * Only list videos whose name contains this text
+   */
+  search?: string
+}
+
+/**
+ * Page of the videos on the provider account, newest first
+ */
+export type ListVideosResponse = {
+  /**
+   * Cursor of the next page, undefined on the last page
+   */
+  nextCursor?: string
+  videos: NonNullable<StreamResponse['result']>[]
+}
+
+export type LiveInputStatus = 'connected' | 'disconnected' | 'error' | 'reconnecting'
+
+export type LiveInput = {
+  created?: string
+  id: string
+  /**
+   * RTMPS ingest url and stream key, keep them secret
+   */
+  rtmps?: {
+    streamKey: string
+    url: string
+  }
+  /**
+   * SRT ingest url and credentials, keep them secret
+   */
+  srt?: {
+    passphrase?: string
+    streamId: string
+    url: string
+  }
+  status: LiveInputStatus
+  /**
+   * WHIP url for broadcasting from a browser, keep it secret
+   */
+  webRTC?: {
+    url: string
+  }
+}
+
+export type LiveInputRequest = {
+  meta: StreamVideoMeta
+  /**
+   * Record broadcasts as videos, defaults to true
+   */
+  recording?: boolean
+}
+
+/**
+ * Video recorded from a broadcast to a live input
+ */
+export type LiveRecording = {
+  liveInputId: string
+} & NonNullable<StreamResponse['result']>
+
+export type ResumableUploadRequest = {
+  /**
+   * Maximum duration of the uploaded video in seconds
+   */
+  maxDurationSeconds?: number
+  meta: StreamVideoMeta
+  /**
+   * Total size of the file in bytes
+   */
+  size: number
+}
+
+export type ResumableUploadResponse = {
+  /**
+   * tus upload url the browser sends the file chunks to
+   */
+  uploadURL: string
+  videoId: string
+}
+
+export type SigningKey = {
+  created?: string
+  id: string
+  /**
+   * Private key as PEM, base64 encoded PEM or JWK
+   */
+  pem: string
+}
+
+/**
+ * Signing key as listed by the provider, without the private key
+ */
+export type SigningKeyInfo = {
+  created?: string
+  id: string
+}
+
+/**
+ * Minutes of video stored on the provider account
+ */
+export type StorageUsage = {
+  /**
+   * Minutes the account may store, undefined when unlimited
+   */
+  limitMinutes?: number
+  usedMinutes: number
+  videoCount?: number
+}
+
+export type ThumbnailRequest = {
+  height?: number
+  /**
+   * Position of the frame in seconds
+   */
+  time: number
+}
+
+/**
+ * Views of a video on one day
+ */
+export type VideoAnalytics = {
+  /**
+   * Day of the views, e.g. `2026-01-01`
+   */
+  date: string
+  minutesViewed: number
+  videoId: string
+  views: number
+}
+
+export type WatermarkPosition = 'center' | 'lowerLeft' | 'lowerRight' | 'upperLeft' | 'upperRight'
+
+export type WatermarkRequest = {
+  /**
+   * Watermark image, PNG or JPEG
+   */
+  file: Blob
+  name: string
+  /**
+   * From 0 (transparent) to 1 (opaque)
+   */
+  opacity?: number
+  /**
+   * Space between the image and the edge of the video, relative to the video size
+   */
+  padding?: number
+  position?: WatermarkPosition
+  /**
+   * Size of the image relative to the video
+   */
+  scale?: number
+}
+
+/**
+ * Watermark profile registered with the provider
+ */
+export type WatermarkInfo = {
+  created?: string
+  id: string
 }
 
 export type StreamResponse = {
@@ -15,6 +272,10 @@ export type StreamResponse = {
     created?: string
     durationInSeconds?: number
     height?: number
+    /**
+     * Live input the video was recorded from
+     */
+    liveInputId?: string
     meta?: StreamVideoMeta
     modified?: string
     playback?: {
@@ -38,18 +299,89 @@ export type StreamResponse = {
   success: boolean
 }
 
+export type StreamCaption = {
+  error?: string
+  /**
+   * WebVTT file from the captions upload collection
+   */
+  file?: { id: number | string } | null | number | string
+  id?: string
+  label?: string
+  language: string
+  source: 'generated' | 'upload'
+  status?: 'pending' | CaptionTrack['status']
+  /**
+   * WebVTT contents, used when no file is selected
+   */
+  vtt?: string
+}
+
+/**
+ * Derived state of the stream of a document, stored so list views can filter and sort on it
+ */
+export type StreamState = 'error' | 'pending' | 'processing' | 'queued' | 'ready'
+
 export type StreamFieldData = {
+  animatedPreview?: {
+    duration?: number
+    enabled?: boolean
+    format?: AnimatedThumbnailRequest['format']
+    start?: number
+    url?: string
+  }
+  captions?: StreamCaption[]
+  /**
+   * Document the video was clipped from
+   */
+  clippedFrom?: { id: number | string } | null | number | string
   downloadable?: boolean
   durationInSeconds?: number
   error: string
   errorAt?: string
+  /**
+   * Code of the provider error when processing failed, e.g. ERR_NON_VIDEO
+   */
+  errorReasonCode?: string
   height?: number
+  /**
+   * Live input the video was recorded from
+   */
+  liveInputId?: string
+  /**
+   * Processing progress reported by the provider, from 0 to 100
+   */
+  progress?: number
   provider: string
   readyToStream: boolean
   readyToStreamAt?: string
+  /**
+   * When the broadcast of a live recording started
+   */
+  recordedAt?: string
+  /**
+   * Why the video of a replaced file could not be streamed
+   */
+  replacementError?: string
+  /**
+   * Video of a replaced file, swapped in once ready to stream
+   */
+  replacementVideoId?: string
   requireSignedURLs: boolean
   size?: number
+  state?: StreamState
+  /**
+   * Position of the poster frame, from 0 to 1
+   */
+  thumbnailTimestampPct?: number
   thumbnailUrl: string
   videoId: string
+  /**
+   * Set while the video waits for the account quota before being copied
+   */
+  waitingForQuota?: boolean
+  /**
+   * Watermark profile the video is copied with
+   */
+  watermark?: { id: number | string } | null | number | string
   width?: number
 }
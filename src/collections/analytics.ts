@@ -0,0 +1,121 @@
+import type { CollectionConfig } from 'payload'
+
+import type { VideoStreamAccess } from '../types.js'
+
+export const analyticsCollectionSlug = 'video-stream-analytics'
+
+/**
+ * Plugin owned collection of the daily views of every video document, synced from the providers
+ *
+ * @param param0
+ * @returns
+ */
+export const analyticsCollection = ({
+  access,
+  collectionSlugs,
+}: {
+  access: VideoStreamAccess
+  collectionSlugs: string[]
+}): CollectionConfig => {
+  return {
+    slug: analyticsCollectionSlug,
+    access: {
+      // written by the sync job only
+      create: () => false,
+      delete: access,
+      read: access,
+      update: () => false,
+    },
+    admin: {
+      defaultColumns: ['document', 'views', 'minutesViewed', 'syncedAt'],
+      useAsTitle: 'documentKey',
+    },
+    fields: [
+      {
+        name: 'document',
+        type: 'relationship',
+        admin: {
+          readOnly: true,
+        },
+        relationTo: collectionSlugs,
+        required: true,
+      },
+      {
+        name: 'documentKey',
+        type: 'text',
+        admin: {
+          hidden: true,
+        },
+        index: true,
+        required: true,
+        unique: true,
+      },
+      {
+        name: 'videoId',
+        type: 'text',
+        admin: {
+          readOnly: true,
+        },
+        label: 'Video ID',
+      },
+      {
+        name: 'views',
+        type: 'number',
+        admin: {
+          description: 'Views over the synced days',
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'minutesViewed',
+        type: 'number',
+        admin: {
+          description: 'Minutes watched over the synced days',
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'daily',
+        type: 'array',
+        admin: {
+          initCollapsed: true,
+          readOnly: true,
+        },
+        fields: [
+          {
+            name: 'date',
+            type: 'text',
+            required: true,
+          },
+          {
+            name: 'views',
+            type: 'number',
+            defaultValue: 0,
+          },
+          {
+            name: 'minutesViewed',
+            type: 'number',
+            defaultValue: 0,
+          },
+        ],
+      },
+      {
+        name: 'syncedAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+    ],
+    labels: {
+      plural: 'Video Analytics',
+      singular: 'Video Analytics',
+    },
+  }
+}
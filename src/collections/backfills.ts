@@ -0,0 +1,153 @@
+import type { CollectionConfig } from 'payload'
+
+import type { VideoStreamAccess } from '../types.js'
+
+export const backfillsCollectionSlug = 'video-stream-backfills'
+
+/**
+ * Plugin owned collection tracking the progress of copying the existing videos of a collection
+ *
+ * @param param0
+ * @returns
+ */
+export const backfillsCollection = ({
+  access,
+  collectionSlugs,
+}: {
+  access: VideoStreamAccess
+  collectionSlugs: string[]
+}): CollectionConfig => {
+  return {
+    slug: backfillsCollectionSlug,
+    access: {
+      // started from the list view of the collection and written by the backfill job only
+      create: () => false,
+      delete: access,
+      read: access,
+      update: () => false,
+    },
+    admin: {
+      defaultColumns: ['collection', 'status', 'processed', 'total', 'startedAt'],
+      useAsTitle: 'collection',
+    },
+    fields: [
+      {
+        name: 'collection',
+        type: 'select',
+        admin: {
+          readOnly: true,
+        },
+        index: true,
+        options: collectionSlugs,
+        required: true,
+      },
+      {
+        name: 'status',
+        type: 'select',
+        admin: {
+          readOnly: true,
+        },
+        defaultValue: 'running',
+        index: true,
+        options: [
+          { label: 'Running', value: 'running' },
+          { label: 'Completed', value: 'completed' },
+          { label: 'Failed', value: 'failed' },
+        ],
+        required: true,
+      },
+      {
+        name: 'total',
+        type: 'number',
+        admin: {
+          description: 'Videos without a streaming video when the backfill started',
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'processed',
+        type: 'number',
+        admin: {
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'queued',
+        type: 'number',
+        admin: {
+          description: 'Every video is copied by its own copy job',
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'waitingForQuota',
+        type: 'number',
+        admin: {
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'failed',
+        type: 'number',
+        admin: {
+          description: 'Videos whose copy job could not be queued',
+          readOnly: true,
+        },
+        defaultValue: 0,
+      },
+      {
+        name: 'error',
+        type: 'textarea',
+        admin: {
+          condition: (data) => Boolean(data?.error),
+          readOnly: true,
+        },
+      },
+      {
+        name: 'cursor',
+        type: 'text',
+        admin: {
+          hidden: true,
+        },
+      },
+      {
+        // documents created at the same time as the cursor are paged by their id
+        name: 'cursorId',
+        type: 'text',
+        admin: {
+          hidden: true,
+        },
+      },
+      {
+        name: 'startedAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+      {
+        name: 'finishedAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+    ],
+    labels: {
+      plural: 'Video Backfills',
+      singular: 'Video Backfill',
+    },
+  }
+}
@@ -0,0 +1,149 @@
+import type { CollectionConfig } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { VideoStreamAccess } from '../types.js'
+
+import { liveInputPlayerField } from '../fields/liveInput/config.js'
+import { syncLiveInputHook } from '../hooks/afterChange.js'
+import { deleteLiveInputHook } from '../hooks/afterDelete.js'
+import { updateLiveInputStatusHook } from '../hooks/afterOperation.js'
+
+export const liveInputsCollectionSlug = 'live-inputs'
+
+/**
+ * Plugin owned collection of live inputs, each one created on the streaming provider
+ *
+ * @param param0
+ * @returns
+ */
+export const liveInputsCollection = ({
+  access,
+  adapter,
+}: {
+  access: VideoStreamAccess
+  adapter: StreamAdapter
+}): CollectionConfig => {
+  return {
+    slug: liveInputsCollectionSlug,
+    access: {
+      create: access,
+      delete: access,
+      update: access,
+    },
+    admin: {
+      defaultColumns: ['name', 'status', 'updatedAt'],
+      useAsTitle: 'name',
+    },
+    fields: [
+      {
+        name: 'name',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'recording',
+        type: 'checkbox',
+        admin: {
+          description: 'Record broadcasts as videos that can be played back after the event',
+        },
+        defaultValue: true,
+      },
+      liveInputPlayerField(adapter),
+      {
+        name: 'ingest',
+        type: 'group',
+        access: {
+          // stream keys let anyone broadcast to the live input
+          create: () => false,
+          read: access,
+          update: () => false,
+        },
+        admin: {
+          condition: (data) => Boolean(data?.liveInputId),
+          description: 'Broadcast to one of these urls, e.g. from OBS. Keep the keys secret.',
+        },
+        fields: [
+          {
+            name: 'rtmpsUrl',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'RTMPS URL',
+          },
+          {
+            name: 'rtmpsStreamKey',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'RTMPS stream key',
+          },
+          {
+            name: 'srtUrl',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'SRT URL',
+          },
+          {
+            name: 'srtStreamId',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'SRT stream ID',
+          },
+          {
+            name: 'srtPassphrase',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'SRT passphrase',
+          },
+          {
+            name: 'webRTCUrl',
+            type: 'text',
+            admin: { readOnly: true },
+            label: 'WebRTC (WHIP) URL',
+          },
+        ],
+      },
+      {
+        name: 'liveInputId',
+        type: 'text',
+        admin: {
+          position: 'sidebar',
+          readOnly: true,
+        },
+        index: true,
+        label: 'Live input ID',
+      },
+      {
+        name: 'status',
+        type: 'select',
+        admin: {
+          position: 'sidebar',
+          readOnly: true,
+        },
+        defaultValue: 'disconnected',
+        options: [
+          { label: 'Connected', value: 'connected' },
+          { label: 'Reconnecting', value: 'reconnecting' },
+          { label: 'Disconnected', value: 'disconnected' },
+          { label: 'Error', value: 'error' },
+        ],
+      },
+      {
+        name: 'error',
+        type: 'textarea',
+        admin: {
+          condition: (data) => Boolean(data?.error),
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+    ],
+    hooks: {
+      afterChange: [syncLiveInputHook(adapter)],
+      afterDelete: [deleteLiveInputHook(adapter)],
+      afterOperation: [updateLiveInputStatusHook(adapter)],
+    },
+    labels: {
+      plural: 'Live Inputs',
+      singular: 'Live Input',
+    },
+  }
+}
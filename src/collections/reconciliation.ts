@@ -0,0 +1,137 @@
+import type { CollectionConfig } from 'payload'
+
+import type { VideoStreamAccess } from '../types.js'
+
+export const reconciliationCollectionSlug = 'video-stream-drift'
+
+/**
+ * Plugin owned collection of the drift found between the video documents and the providers,
+ * kept up to date by the reconciliation job
+ *
+ * @param param0
+ * @returns
+ */
+export const reconciliationCollection = ({
+  access,
+  collectionSlugs,
+}: {
+  access: VideoStreamAccess
+  collectionSlugs: string[]
+}): CollectionConfig => {
+  return {
+    slug: reconciliationCollectionSlug,
+    access: {
+      // written by the reconciliation job only
+      create: () => false,
+      delete: access,
+      read: access,
+      update: () => false,
+    },
+    admin: {
+      defaultColumns: ['type', 'videoId', 'document', 'lastSeenAt', 'fixedAt'],
+      useAsTitle: 'issueKey',
+    },
+    fields: [
+      {
+        name: 'issueKey',
+        type: 'text',
+        admin: {
+          hidden: true,
+        },
+        index: true,
+        required: true,
+        unique: true,
+      },
+      {
+        name: 'type',
+        type: 'select',
+        admin: {
+          readOnly: true,
+        },
+        index: true,
+        options: [
+          { label: 'Orphaned video', value: 'orphan' },
+          { label: 'Missing video', value: 'missing' },
+          { label: 'Stale status', value: 'stale' },
+        ],
+        required: true,
+      },
+      {
+        name: 'provider',
+        type: 'text',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'videoId',
+        type: 'text',
+        admin: {
+          readOnly: true,
+        },
+        label: 'Video ID',
+      },
+      {
+        name: 'document',
+        type: 'relationship',
+        admin: {
+          description: 'Document of missing videos and stale statuses, orphaned videos have none',
+          readOnly: true,
+        },
+        relationTo: collectionSlugs,
+      },
+      {
+        name: 'detail',
+        type: 'textarea',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'fix',
+        type: 'text',
+        admin: {
+          description: 'Action taken by the auto-fix, the issue is removed once it is gone',
+          readOnly: true,
+        },
+      },
+      {
+        name: 'firstSeenAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+      {
+        name: 'lastSeenAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+      {
+        name: 'fixedAt',
+        type: 'date',
+        admin: {
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+    ],
+    labels: {
+      plural: 'Stream Drift',
+      singular: 'Stream Drift',
+    },
+  }
+}
@@ -0,0 +1,135 @@
+import type { CollectionConfig } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { VideoStreamAccess } from '../types.js'
+
+import { registerWatermarkHook } from '../hooks/afterChange.js'
+import { deleteWatermarkHook } from '../hooks/afterDelete.js'
+
+export const watermarksCollectionSlug = 'video-stream-watermarks'
+
+/**
+ * Plugin owned upload collection of watermark profiles, registered with every provider supporting them
+ *
+ * @param param0
+ * @returns
+ */
+export const watermarksCollection = ({
+  access,
+  adapters,
+}: {
+  access: VideoStreamAccess
+  adapters: StreamAdapter[]
+}): CollectionConfig => {
+  return {
+    slug: watermarksCollectionSlug,
+    access: {
+      create: access,
+      delete: access,
+      read: access,
+      update: access,
+    },
+    admin: {
+      defaultColumns: ['filename', 'name', 'position', 'updatedAt'],
+      useAsTitle: 'name',
+    },
+    fields: [
+      {
+        name: 'name',
+        type: 'text',
+        admin: {
+          description: 'Used to choose the default watermark of a collection',
+        },
+        required: true,
+        unique: true,
+      },
+      {
+        name: 'position',
+        type: 'select',
+        defaultValue: 'upperRight',
+        options: [
+          { label: 'Upper right', value: 'upperRight' },
+          { label: 'Upper left', value: 'upperLeft' },
+          { label: 'Lower left', value: 'lowerLeft' },
+          { label: 'Lower right', value: 'lowerRight' },
+          { label: 'Center', value: 'center' },
+        ],
+        required: true,
+      },
+      {
+        name: 'scale',
+        type: 'number',
+        admin: {
+          description: 'Size of the image relative to the video, from 0 to 1',
+          step: 0.05,
+        },
+        defaultValue: 0.15,
+        max: 1,
+        min: 0,
+      },
+      {
+        name: 'opacity',
+        type: 'number',
+        admin: {
+          description: 'From 0 (transparent) to 1 (opaque)',
+          step: 0.05,
+        },
+        defaultValue: 1,
+        max: 1,
+        min: 0,
+      },
+      {
+        name: 'padding',
+        type: 'number',
+        admin: {
+          description: 'Space between the image and the edge of the video, from 0 to 1',
+          step: 0.01,
+        },
+        defaultValue: 0.05,
+        max: 1,
+        min: 0,
+      },
+      {
+        name: 'providers',
+        type: 'array',
+        admin: {
+          description: 'Watermark profiles registered with the streaming providers',
+          position: 'sidebar',
+          readOnly: true,
+        },
+        fields: [
+          {
+            name: 'provider',
+            type: 'text',
+            required: true,
+          },
+          {
+            name: 'watermarkId',
+            type: 'text',
+            required: true,
+          },
+        ],
+      },
+      {
+        name: 'error',
+        type: 'textarea',
+        admin: {
+          condition: (data) => Boolean(data?.error),
+          position: 'sidebar',
+          readOnly: true,
+        },
+      },
+    ],
+    hooks: {
+      afterChange: [registerWatermarkHook(adapters)],
+      afterDelete: [deleteWatermarkHook(adapters)],
+    },
+    labels: {
+      plural: 'Watermarks',
+      singular: 'Watermark',
+    },
+    upload: {
+      mimeTypes: ['image/png', 'image/jpeg'],
+    },
+  }
+}
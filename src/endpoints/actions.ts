@@ -0,0 +1,205 @@
+import type { Endpoint, JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+import { executeAccess } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { isTerminalStatus, streamingService } from '../services/streamingService.js'
+
+type ActionContext = {
+  doc: JsonObject & TypeWithID
+  streamCollection: StreamCollection
+}
+
+/**
+ * Whether the user may update the document, the plugin writes the stream fields with access overridden
+ *
+ * @param req
+ * @param collectionSlug
+ * @param id
+ * @returns
+ */
+const canUpdate = async (
+  req: PayloadRequest,
+  collectionSlug: string,
+  id: number | string,
+): Promise<boolean> => {
+  const result = await executeAccess(
+    { id, disableErrors: true, req },
+    req.payload.collections[collectionSlug]?.config.access.update,
+  )
+
+  if (typeof result !== 'object') {
+    return Boolean(result)
+  }
+
+  // the access control returned a query the document has to match
+  const { totalDocs } = await req.payload.count({
+    collection: collectionSlug,
+    req,
+    where: {
+      and: [{ id: { equals: id } }, result],
+    },
+  })
+
+  return totalDocs > 0
+}
+
+export const streamActionEndpoints = ({
+  streamCollections,
+}: {
+  streamCollections: StreamCollection[]
+}): Endpoint[] => {
+  /**
+   * Find the document in the route, the user must be allowed to read and update it
+   */
+  const getContext = async (req: PayloadRequest): Promise<ActionContext | Response> => {
+    const collectionSlug = req.routeParams?.collection as string
+    const id = req.routeParams?.id as string
+
+    const streamCollection = streamCollections.find(({ slug }) => slug === collectionSlug)
+
+    if (!streamCollection) {
+      return Response.json(
+        { error: `Video streaming is not enabled for ${collectionSlug}` },
+        { status: 404 },
+      )
+    }
+
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const doc = await req.payload.findByID({
+      id,
+      collection: collectionSlug,
+      depth: 0,
+      overrideAccess: false,
+      req,
+    })
+
+    if (!(await canUpdate(req, collectionSlug, id))) {
+      return Response.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!doc?.mimeType?.startsWith('video/')) {
+      return Response.json({ error: `Document ${id} is not a video` }, { status: 400 })
+    }
+
+    return { doc, streamCollection }
+  }
+
+  return [
+    {
+      handler: async (req) => {
+        const context = await getContext(req)
+
+        if (context instanceof Response) {
+          return context
+        }
+
+        const { doc, streamCollection } = context
+
+        if (doc.stream?.readyToStream && !doc.stream.error) {
+          return Response.json(
+            { error: `The video of ${doc.id} is already streaming` },
+            { status: 409 },
+          )
+        }
+
+        let error: string | undefined
+
+        try {
+          await streamingService({
+            adapter: streamCollection.adapter,
+            req,
+          }).retryCopy({
+            collectionSlug: streamCollection.slug,
+            doc,
+          })
+        } catch (e) {
+          req.payload.logger.error({ id: doc.id, err: e, msg: 'Error queueing the copy again' })
+          error = e instanceof Error ? e.message : String(e)
+        }
+
+        const updated = await req.payload.findByID({
+          id: doc.id,
+          collection: streamCollection.slug,
+          depth: 0,
+          req,
+        })
+
+        return Response.json({ error, stream: updated.stream }, { status: error ? 502 : 202 })
+      },
+      method: 'post',
+      path: '/video-stream/actions/:collection/:id/retry',
+    },
+    {
+      handler: async (req) => {
+        const context = await getContext(req)
+
+        if (context instanceof Response) {
+          return context
+        }
+
+        const { doc, streamCollection } = context
+
+        if (!doc.stream?.videoId) {
+          return Response.json({ error: `Document ${doc.id} has no video` }, { status: 400 })
+        }
+
+        const service = streamingService({ adapter: streamCollection.adapter, req })
+        const response = await service.updateStatus({ collectionSlug: streamCollection.slug, doc })
+
+        if (!response?.result) {
+          return Response.json(
+            { error: `The status of ${doc.stream.videoId} could not be fetched` },
+            { status: 502 },
+          )
+        }
+
+        // polling picks up again for videos still processing and pending replacements
+        if (
+          (!response.result.readyToStream && !isTerminalStatus(response.result.status)) ||
+          doc.stream.replacementVideoId
+        ) {
+          await service.queueUpdateStatusTask({
+            collectionSlug: streamCollection.slug,
+            documentId: doc.id as string,
+          })
+        }
+
+        const updated = await req.payload.findByID({
+          id: doc.id,
+          collection: streamCollection.slug,
+          depth: 0,
+          req,
+        })
+
+        return Response.json({ stream: updated.stream })
+      },
+      method: 'post',
+      path: '/video-stream/actions/:collection/:id/refresh',
+    },
+    {
+      handler: async (req) => {
+        const context = await getContext(req)
+
+        if (context instanceof Response) {
+          return context
+        }
+
+        const { doc, streamCollection } = context
+
+        const updated = await streamingService({
+          adapter: streamCollection.adapter,
+          req,
+        }).clearError({ collectionSlug: streamCollection.slug, doc })
+
+        return Response.json({ stream: updated.stream })
+      },
+      method: 'post',
+      path: '/video-stream/actions/:collection/:id/clear-error',
+    },
+  ]
+}
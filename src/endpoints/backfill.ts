@@ -0,0 +1,94 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+
+import type { StreamCollection, VideoStreamAccess } from '../types.js'
+
+import { backfillsCollectionSlug } from '../collections/backfills.js'
+import { backfillService, getBackfillWhere } from '../services/backfillService.js'
+
+export const backfillEndpoints = ({
+  access,
+  streamCollections,
+}: {
+  access: VideoStreamAccess
+  streamCollections: StreamCollection[]
+}): Endpoint[] => {
+  /**
+   * Check access and find the collection in the route
+   */
+  const getCollection = async (req: PayloadRequest): Promise<Response | StreamCollection> => {
+    if (!(await access({ req }))) {
+      return Response.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const collectionSlug = req.routeParams?.collection as string
+    const streamCollection = streamCollections.find(({ slug }) => slug === collectionSlug)
+
+    if (!streamCollection) {
+      return Response.json(
+        { error: `Streaming is not enabled for ${collectionSlug}` },
+        { status: 404 },
+      )
+    }
+
+    return streamCollection
+  }
+
+  return [
+    {
+      handler: async (req) => {
+        const streamCollection = await getCollection(req)
+
+        if (streamCollection instanceof Response) {
+          return streamCollection
+        }
+
+        const {
+          docs: [backfill],
+        } = await req.payload.find({
+          collection: backfillsCollectionSlug,
+          depth: 0,
+          limit: 1,
+          req,
+          sort: '-startedAt',
+          where: {
+            collection: {
+              equals: streamCollection.slug,
+            },
+          },
+        })
+
+        const { totalDocs: remaining } = await req.payload.count({
+          collection: streamCollection.slug,
+          req,
+          where: getBackfillWhere(),
+        })
+
+        return Response.json({ backfill: backfill ?? null, remaining })
+      },
+      method: 'get',
+      path: '/video-stream/backfill/:collection',
+    },
+    {
+      handler: async (req) => {
+        const streamCollection = await getCollection(req)
+
+        if (streamCollection instanceof Response) {
+          return streamCollection
+        }
+
+        const { backfill, started } = await backfillService({ req }).start(streamCollection.slug)
+
+        if (!started) {
+          return Response.json(
+            { backfill, error: `A backfill of ${streamCollection.slug} is already running` },
+            { status: 409 },
+          )
+        }
+
+        return Response.json({ backfill }, { status: 202 })
+      },
+      method: 'post',
+      path: '/video-stream/backfill/:collection',
+    },
+  ]
+}
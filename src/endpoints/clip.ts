@@ -0,0 +1,141 @@
+import type { Endpoint } from 'payload'
+
+import { executeAccess } from 'payload'
+
+import type { StreamFieldData } from '../adapters/types.js'
+import type { StreamCollection } from '../types.js'
+
+import { initialStreamData } from '../services/streamingService.js'
+import { getUniqueFilename } from '../utils/filename.js'
+
+export const clipEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const collectionSlug = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      const streamCollection = streamCollections.find(
+        ({ slug, clips }) => slug === collectionSlug && clips,
+      )
+
+      if (!streamCollection) {
+        return Response.json(
+          { error: `Clips are not enabled for ${collectionSlug}` },
+          { status: 404 },
+        )
+      }
+
+      const { adapter } = streamCollection
+
+      if (!('createClip' in adapter) || !adapter.createClip) {
+        return Response.json(
+          { error: `Clips are not supported by ${adapter.providerName}` },
+          { status: 400 },
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      // the caller must be allowed to read the source video
+      const source = await req.payload.findByID({
+        id,
+        collection: collectionSlug,
+        depth: 0,
+        overrideAccess: false,
+        req,
+      })
+
+      const stream = source?.stream as StreamFieldData | undefined
+
+      if (!stream?.videoId || !stream.readyToStream) {
+        return Response.json(
+          { error: `The video of ${id} is not ready to stream yet` },
+          { status: 400 },
+        )
+      }
+
+      const data = (await req.json?.()) as
+        | { endTimeSeconds?: number; startTimeSeconds?: number }
+        | undefined
+
+      const startTimeSeconds = Number(data?.startTimeSeconds)
+      const endTimeSeconds = Number(data?.endTimeSeconds)
+
+      if (
+        !Number.isFinite(startTimeSeconds) ||
+        !Number.isFinite(endTimeSeconds) ||
+        startTimeSeconds < 0 ||
+        endTimeSeconds <= startTimeSeconds ||
+        (stream.durationInSeconds && endTimeSeconds > stream.durationInSeconds)
+      ) {
+        return Response.json(
+          { error: 'The clip must start before it ends and lie within the video' },
+          { status: 400 },
+        )
+      }
+
+      // the caller must be allowed to create the clip document before the provider creates the clip
+      await executeAccess({ req }, req.payload.collections[collectionSlug]?.config.access.create)
+
+      const name = `clip-${source.filename || 'video.mp4'}`
+
+      req.payload.logger.info({
+        id,
+        collectionSlug,
+        endTimeSeconds,
+        msg: 'Creating clip',
+        startTimeSeconds,
+      })
+
+      const response = await adapter.createClip({
+        endTimeSeconds,
+        meta: { name },
+        startTimeSeconds,
+        videoId: stream.videoId,
+      })
+
+      if (!response.result) {
+        return Response.json({ error: 'The provider did not create the clip' }, { status: 502 })
+      }
+
+      const { videoId } = response.result
+
+      let clip
+
+      try {
+        // the stream status of the new document is tracked like any copied video
+        clip = await req.payload.create({
+          collection: collectionSlug,
+          data: {
+            filename: getUniqueFilename(name, videoId),
+            mimeType: source.mimeType || 'video/mp4',
+            stream: {
+              ...initialStreamData(adapter, response.result),
+              clippedFrom: source.id,
+            },
+          },
+          depth: 0,
+          overrideAccess: false,
+          req,
+        })
+      } catch (error) {
+        // no document links the clip, it would be left on the provider
+        await adapter.delete(videoId).catch((deleteError: unknown) => {
+          req.payload.logger.error({
+            err: deleteError,
+            msg: 'Error deleting unlinked clip',
+            videoId,
+          })
+        })
+
+        throw error
+      }
+
+      return Response.json({ id: clip.id, stream: clip.stream }, { status: 201 })
+    },
+    method: 'post',
+    path: '/video-stream/clip/:collection/:id',
+  }
+}
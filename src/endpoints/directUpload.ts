@@ -0,0 +1,158 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+
+import { executeAccess } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { initialStreamData } from '../services/streamingService.js'
+import { getUniqueFilename } from '../utils/filename.js'
+
+/**
+ * Find the collection of a direct upload request and check the user may create documents in it
+ *
+ * @param req
+ * @param streamCollections
+ * @returns the collection, or the error response to send
+ */
+const getDirectUploadCollection = async (
+  req: PayloadRequest,
+  streamCollections: StreamCollection[],
+): Promise<Response | StreamCollection> => {
+  const collectionSlug = req.routeParams?.collection as string
+
+  const streamCollection = streamCollections.find(
+    ({ slug, directUploads }) => slug === collectionSlug && directUploads,
+  )
+
+  if (!streamCollection) {
+    return Response.json(
+      { error: `Direct uploads are not enabled for ${collectionSlug}` },
+      { status: 404 },
+    )
+  }
+
+  if (!req.user) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // the caller must be allowed to create documents in the collection
+  await executeAccess({ req }, req.payload.collections[collectionSlug]?.config.access.create)
+
+  return streamCollection
+}
+
+export const directUploadEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const streamCollection = await getDirectUploadCollection(req, streamCollections)
+
+      if (streamCollection instanceof Response) {
+        return streamCollection
+      }
+
+      const { slug: collectionSlug, adapter, directUploads } = streamCollection
+
+      if (!('createDirectUpload' in adapter) || !adapter.createDirectUpload) {
+        return Response.json(
+          { error: `Direct uploads are not supported by ${adapter.providerName}` },
+          { status: 400 },
+        )
+      }
+
+      const data = (await req.json?.()) as { filename?: string } | undefined
+      const name = data?.filename || 'video'
+
+      req.payload.logger.info({ name, collectionSlug, msg: 'Creating direct upload url' })
+
+      const { uploadURL, videoId } = await adapter.createDirectUpload({
+        maxDurationSeconds: directUploads?.maxDurationSeconds,
+        meta: { name },
+      })
+
+      return Response.json({
+        filename: getUniqueFilename(name, videoId),
+        provider: adapter.providerName,
+        uploadURL,
+        videoId,
+      })
+    },
+    method: 'post',
+    path: '/video-stream/direct-upload/:collection',
+  }
+}
+
+export const resumableUploadEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const streamCollection = await getDirectUploadCollection(req, streamCollections)
+
+      if (streamCollection instanceof Response) {
+        return streamCollection
+      }
+
+      const { slug: collectionSlug, adapter, directUploads } = streamCollection
+
+      if (!('createResumableUpload' in adapter) || !adapter.createResumableUpload) {
+        return Response.json(
+          { error: `Resumable uploads are not supported by ${adapter.providerName}` },
+          { status: 400 },
+        )
+      }
+
+      const data = (await req.json?.()) as { filename?: string; size?: number } | undefined
+      const name = data?.filename || 'video'
+
+      if (!data?.size || data.size < 0) {
+        return Response.json({ error: 'The file size is required' }, { status: 400 })
+      }
+
+      req.payload.logger.info({
+        name,
+        collectionSlug,
+        msg: 'Creating resumable upload session',
+        size: data.size,
+      })
+
+      const { uploadURL, videoId } = await adapter.createResumableUpload({
+        maxDurationSeconds: directUploads?.maxDurationSeconds,
+        meta: { name },
+        size: data.size,
+      })
+
+      return Response.json({
+        filename: getUniqueFilename(name, videoId),
+        provider: adapter.providerName,
+        uploadURL,
+        videoId,
+      })
+    },
+    method: 'post',
+    path: '/video-stream/resumable-upload/:collection',
+  }
+}
+
+export const directUploadStatusEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const streamCollection = await getDirectUploadCollection(req, streamCollections)
+
+      if (streamCollection instanceof Response) {
+        return streamCollection
+      }
+
+      const { adapter } = streamCollection
+      const videoId = req.routeParams?.videoId as string
+
+      const response = await adapter.getStatus(videoId)
+
+      if (!response.result) {
+        return Response.json({ error: `Video ${videoId} not found` }, { status: 404 })
+      }
+
+      // the same stream fields as a video copied from the Payload storage
+      return Response.json({ stream: initialStreamData(adapter, response.result) })
+    },
+    method: 'get',
+    path: '/video-stream/direct-upload/:collection/:videoId',
+  }
+}
@@ -0,0 +1,266 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { StreamFieldData, StreamResponse } from '../adapters/types.js'
+import type { StreamCollection, VideoStreamAccess } from '../types.js'
+
+import { initialStreamData, streamingService } from '../services/streamingService.js'
+import { getLibraryAdapters } from '../views/library/config.js'
+
+/**
+ * Payload document a provider video is linked to through `stream.videoId`, or through
+ * `stream.replacementVideoId` while the video of a replaced file is processed
+ */
+export type LibraryDocument = {
+  collection: string
+  filename?: string
+  id: number | string
+}
+
+export type LibraryVideo = {
+  documents: LibraryDocument[]
+} & NonNullable<StreamResponse['result']>
+
+export const libraryEndpoints = ({
+  access,
+  streamCollections,
+}: {
+  access: VideoStreamAccess
+  streamCollections: StreamCollection[]
+}): Endpoint[] => {
+  const libraryAdapters = getLibraryAdapters(streamCollections.map(({ adapter }) => adapter))
+
+  /**
+   * Check access and find the adapter of the provider in the route
+   */
+  const getAdapter = async (req: PayloadRequest): Promise<Response | StreamAdapter> => {
+    if (!(await access({ req }))) {
+      return Response.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const provider = req.routeParams?.provider as string
+    const adapter = libraryAdapters.find((adapter) => adapter.providerName === provider)
+
+    if (!adapter) {
+      return Response.json(
+        { error: `Listing videos is not supported for ${provider}` },
+        { status: 404 },
+      )
+    }
+
+    return adapter
+  }
+
+  /**
+   * Find the documents of the collections using the adapter that are linked to the videos
+   */
+  const findDocuments = async (
+    req: PayloadRequest,
+    adapter: StreamAdapter,
+    videoIds: string[],
+  ): Promise<Map<string, LibraryDocument[]>> => {
+    const documents = new Map<string, LibraryDocument[]>()
+
+    if (!videoIds.length) {
+      return documents
+    }
+
+    for (const { slug } of streamCollections.filter(
+      (collection) => collection.adapter === adapter,
+    )) {
+      const { docs } = await req.payload.find({
+        collection: slug,
+        depth: 0,
+        pagination: false,
+        req,
+        where: {
+          or: [
+            {
+              'stream.videoId': {
+                in: videoIds,
+              },
+            },
+            {
+              'stream.replacementVideoId': {
+                in: videoIds,
+              },
+            },
+          ],
+        },
+      })
+
+      for (const doc of docs) {
+        const { replacementVideoId, videoId } = doc.stream as StreamFieldData
+
+        for (const id of [videoId, replacementVideoId]) {
+          if (id && videoIds.includes(id)) {
+            documents.set(id, [
+              ...(documents.get(id) ?? []),
+              { id: doc.id, collection: slug, filename: doc.filename as string | undefined },
+            ])
+          }
+        }
+      }
+    }
+
+    return documents
+  }
+
+  return [
+    {
+      handler: async (req) => {
+        const adapter = await getAdapter(req)
+
+        if (adapter instanceof Response) {
+          return adapter
+        }
+
+        const limit = Number(req.searchParams.get('limit')) || undefined
+
+        const { nextCursor, videos } = (await adapter.list?.({
+          cursor: req.searchParams.get('cursor') || undefined,
+          limit,
+          search: req.searchParams.get('search') || undefined,
+        })) ?? { videos: [] }
+
+        const documents = await findDocuments(
+          req,
+          adapter,
+          videos.map(({ videoId }) => videoId),
+        )
+
+        return Response.json({
+          nextCursor,
+          videos: videos.map(
+            (video): LibraryVideo => ({ ...video, documents: documents.get(video.videoId) ?? [] }),
+          ),
+        })
+      },
+      method: 'get',
+      path: '/video-stream/library/:provider',
+    },
+    {
+      handler: async (req) => {
+        const adapter = await getAdapter(req)
+
+        if (adapter instanceof Response) {
+          return adapter
+        }
+
+        const videoId = req.routeParams?.videoId as string
+
+        // linked videos are deleted with their document
+        if ((await findDocuments(req, adapter, [videoId])).has(videoId)) {
+          return Response.json(
+            { error: 'The video is linked to a document, delete the document instead' },
+            { status: 409 },
+          )
+        }
+
+        await adapter.delete(videoId)
+
+        req.payload.logger.info({
+          msg: 'Deleted orphaned video',
+          provider: adapter.providerName,
+          videoId,
+        })
+
+        return Response.json({ videoId })
+      },
+      method: 'delete',
+      path: '/video-stream/library/:provider/:videoId',
+    },
+    {
+      handler: async (req) => {
+        const adapter = await getAdapter(req)
+
+        if (adapter instanceof Response) {
+          return adapter
+        }
+
+        const videoId = req.routeParams?.videoId as string
+        const data = (await req.json?.()) as
+          | { collection?: string; id?: number | string }
+          | undefined
+
+        const streamCollection = streamCollections.find(
+          (collection) => collection.slug === data?.collection && collection.adapter === adapter,
+        )
+
+        if (!streamCollection || !data?.id) {
+          return Response.json(
+            { error: `Choose a document of a collection streaming to ${adapter.providerName}` },
+            { status: 400 },
+          )
+        }
+
+        if ((await findDocuments(req, adapter, [videoId])).has(videoId)) {
+          return Response.json(
+            { error: 'The video is already linked to a document' },
+            { status: 409 },
+          )
+        }
+
+        // the caller must be allowed to read and update the document
+        const doc = await req.payload.findByID({
+          id: data.id,
+          collection: streamCollection.slug,
+          depth: 0,
+          overrideAccess: false,
+          req,
+        })
+
+        if ((doc.stream as StreamFieldData | undefined)?.videoId) {
+          return Response.json(
+            { error: `${data.id} already has a video, linking would orphan it` },
+            { status: 409 },
+          )
+        }
+
+        const { result } = await adapter.getStatus(videoId)
+
+        if (!result) {
+          return Response.json({ error: `Video ${videoId} was not found` }, { status: 404 })
+        }
+
+        await req.payload.update({
+          id: doc.id,
+          collection: streamCollection.slug,
+          data: {
+            stream: {
+              ...initialStreamData(adapter, result),
+              durationInSeconds: result.durationInSeconds,
+              error: result.status?.errorReasonText || '',
+              height: result.height,
+              readyToStreamAt: result.readyToStreamAt,
+              size: result.size,
+              width: result.width,
+            } satisfies Partial<StreamFieldData>,
+          },
+          depth: 0,
+          overrideAccess: false,
+          req,
+        })
+
+        // videos still processing are tracked like copied ones
+        if (!result.readyToStream) {
+          await streamingService({ adapter, req }).queueUpdateStatusTask({
+            collectionSlug: streamCollection.slug,
+            documentId: doc.id as string,
+          })
+        }
+
+        req.payload.logger.info({
+          id: doc.id,
+          collectionSlug: streamCollection.slug,
+          msg: 'Linked video to document',
+          videoId,
+        })
+
+        return Response.json({ id: doc.id, collection: streamCollection.slug, videoId })
+      },
+      method: 'post',
+      path: '/video-stream/library/:provider/:videoId/link',
+    },
+  ]
+}
@@ -0,0 +1,156 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { VideoStreamAccess } from '../types.js'
+
+import { signingKeyMaxAgeSeconds, signingKeyService } from '../services/signingKeyService.js'
+
+/**
+ * Adapters able to create, list and revoke signing keys
+ *
+ * @param adapters
+ * @returns
+ */
+export const getSigningKeyAdapters = (adapters: StreamAdapter[]): StreamAdapter[] => {
+  return [...new Set(adapters)].filter(
+    (adapter) =>
+      'createSigningKey' in adapter &&
+      'deleteSigningKey' in adapter &&
+      'listSigningKeys' in adapter &&
+      'setSigningKeyLoader' in adapter,
+  )
+}
+
+export const signingKeysEndpoints = ({
+  access,
+  adapters,
+}: {
+  access: VideoStreamAccess
+  adapters: StreamAdapter[]
+}): Endpoint[] => {
+  const signingKeyAdapters = getSigningKeyAdapters(adapters)
+
+  /**
+   * Check access and find the adapter of the provider in the route
+   */
+  const getAdapter = async (req: PayloadRequest): Promise<Response | StreamAdapter> => {
+    if (!(await access({ req }))) {
+      return Response.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const provider = req.routeParams?.provider as string
+    const adapter = signingKeyAdapters.find((adapter) => adapter.providerName === provider)
+
+    if (!adapter) {
+      return Response.json(
+        { error: `Signing keys are not supported for ${provider}` },
+        { status: 404 },
+      )
+    }
+
+    return adapter
+  }
+
+  return [
+    {
+      handler: async (req) => {
+        if (!(await access({ req }))) {
+          return Response.json({ error: 'Forbidden' }, { status: 403 })
+        }
+
+        const service = signingKeyService({ payload: req.payload, req })
+
+        const providers = await Promise.all(
+          signingKeyAdapters.map(async (adapter) => ({
+            activeKeyId: await service.getActiveKeyId(adapter.providerName),
+            keys: (await adapter.listSigningKeys?.()) ?? [],
+            provider: adapter.providerName,
+          })),
+        )
+
+        return Response.json({ providers })
+      },
+      method: 'get',
+      path: '/video-stream/signing-keys',
+    },
+    {
+      handler: async (req) => {
+        const adapter = await getAdapter(req)
+
+        if (adapter instanceof Response) {
+          return adapter
+        }
+
+        const signingKey = await adapter.createSigningKey?.()
+
+        if (!signingKey) {
+          return Response.json({ error: 'Failed to create signing key' }, { status: 500 })
+        }
+
+        // the previous key stays valid until revoked, so tokens already handed out keep playing
+        await signingKeyService({ payload: req.payload, req }).setActiveKey(
+          adapter.providerName,
+          signingKey,
+        )
+        // the other server processes read the new key within the max age of their cached key
+        adapter.setSigningKey?.(signingKey)
+
+        req.payload.logger.info({
+          keyId: signingKey.id,
+          msg: 'Rotated signing key',
+          provider: adapter.providerName,
+        })
+
+        return Response.json({ id: signingKey.id, created: signingKey.created }, { status: 201 })
+      },
+      method: 'post',
+      path: '/video-stream/signing-keys/:provider',
+    },
+    {
+      handler: async (req) => {
+        const adapter = await getAdapter(req)
+
+        if (adapter instanceof Response) {
+          return adapter
+        }
+
+        const keyId = req.routeParams?.keyId as string
+        const service = signingKeyService({ payload: req.payload, req })
+
+        const active = await service.getActiveKey(adapter.providerName)
+
+        if (active?.keyId === keyId) {
+          return Response.json(
+            { error: 'The active signing key cannot be revoked, create a new key first' },
+            { status: 400 },
+          )
+        }
+
+        // other server processes may still sign with the previous key until they read the new one
+        if (
+          active?.activatedAt &&
+          Date.now() - new Date(active.activatedAt).getTime() < signingKeyMaxAgeSeconds * 1000
+        ) {
+          return Response.json(
+            {
+              error: `Every server signs with the new key within ${signingKeyMaxAgeSeconds} seconds of creating it, revoke the previous key after that`,
+            },
+            { status: 409 },
+          )
+        }
+
+        await adapter.deleteSigningKey?.(keyId)
+
+        req.payload.logger.info({
+          keyId,
+          msg: 'Revoked signing key',
+          provider: adapter.providerName,
+        })
+
+        return Response.json({ id: keyId })
+      },
+      method: 'delete',
+      path: '/video-stream/signing-keys/:provider/:keyId',
+    },
+  ]
+}
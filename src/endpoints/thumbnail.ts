@@ -0,0 +1,59 @@
+import type { Endpoint } from 'payload'
+
+import type { StreamFieldData } from '../adapters/types.js'
+import type { StreamCollection } from '../types.js'
+
+export const thumbnailEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const collectionSlug = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      const streamCollection = streamCollections.find(({ slug }) => slug === collectionSlug)
+
+      if (!streamCollection) {
+        return Response.json(
+          { error: `Video streaming is not enabled for ${collectionSlug}` },
+          { status: 404 },
+        )
+      }
+
+      const { adapter } = streamCollection
+
+      if (!('getThumbnailUrl' in adapter) || !adapter.getThumbnailUrl) {
+        return Response.json(
+          { error: `Thumbnails are not supported by ${adapter.providerName}` },
+          { status: 400 },
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      // the caller must be allowed to read the document
+      const doc = await req.payload.findByID({
+        id,
+        collection: collectionSlug,
+        depth: 0,
+        overrideAccess: false,
+        req,
+      })
+
+      const stream = doc?.stream as StreamFieldData | undefined
+
+      if (!stream?.videoId) {
+        return Response.json({ error: `Document ${id} has no video` }, { status: 404 })
+      }
+
+      const time = Math.max(0, Number(req.searchParams.get('time')) || 0)
+      const height = Number(req.searchParams.get('height')) || undefined
+
+      const url = await adapter.getThumbnailUrl(stream.videoId, { height, time })
+
+      return Response.redirect(url, 302)
+    },
+    method: 'get',
+    path: '/video-stream/thumbnail/:collection/:id',
+  }
+}
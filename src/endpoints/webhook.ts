@@ -0,0 +1,84 @@
+import type { Endpoint } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { streamingService } from '../services/streamingService.js'
+
+export const webhookEndpoint = (streamCollections: StreamCollection[]): Endpoint => {
+  return {
+    handler: async (req) => {
+      const provider = req.routeParams?.provider as string
+
+      const collections = streamCollections.filter(
+        ({ adapter }) => adapter.providerName === provider,
+      )
+
+      const adapters = [...new Set(collections.map(({ adapter }) => adapter))].filter(
+        (adapter) => 'verifyWebhook' in adapter && 'parseWebhook' in adapter,
+      )
+
+      if (!adapters.length) {
+        return Response.json(
+          { error: `Webhooks are not supported for ${provider}` },
+          { status: 404 },
+        )
+      }
+
+      const body = (await req.text?.()) ?? ''
+
+      // several adapters may share a provider, e.g. one per account, use the one that signed it
+      let adapter = undefined
+
+      for (const candidate of adapters) {
+        if (await candidate.verifyWebhook?.(body, req.headers)) {
+          adapter = candidate
+          break
+        }
+      }
+
+      if (!adapter?.parseWebhook) {
+        req.payload.logger.error({ msg: 'Invalid webhook signature', provider })
+        return Response.json({ error: 'Invalid webhook signature' }, { status: 401 })
+      }
+
+      const response = await adapter.parseWebhook(body)
+      const videoId = response.result?.videoId
+
+      if (!videoId) {
+        return Response.json({ error: 'No video ID found in webhook' }, { status: 400 })
+      }
+
+      req.payload.logger.info({ msg: 'Received stream webhook', provider, videoId })
+
+      const service = streamingService({ adapter, req })
+
+      let updated = 0
+
+      for (const { slug } of collections.filter((collection) => collection.adapter === adapter)) {
+        const { docs } = await req.payload.find({
+          collection: slug,
+          depth: 0,
+          limit: 1,
+          req,
+          where: {
+            'stream.videoId': {
+              equals: videoId,
+            },
+          },
+        })
+
+        const doc = docs[0]
+
+        if (doc) {
+          await service.updateStatusFromResponse({ collectionSlug: slug, doc, response })
+          updated++
+        }
+      }
+
+      // respond with success even when no document was found so the provider does not retry
+      return Response.json({ updated })
+    },
+    method: 'post',
+    path: '/video-stream/webhooks/:provider',
+  }
+}
@@ -1 +1,10 @@
+export * from '../fields/actions/client.component.js'
+export * from '../fields/clip/client.component.js'
+export * from '../fields/directUpload/client.component.js'
 export * from '../fields/preview/client.component.js'
+export * from '../fields/status/client.component.js'
+export * from '../fields/thumbnail/client.component.js'
+export * from '../views/backfill/client.component.js'
+export * from '../views/library/client.component.js'
+export * from '../views/signingKeys/client.component.js'
+export * from '../views/usage/client.component.js'
@@ -1 +1,6 @@
+export * from '../fields/analytics/server.component.js'
+export * from '../fields/liveInput/server.component.js'
 export * from '../fields/preview/server.component.js'
+export * from '../views/library/server.component.js'
+export * from '../views/signingKeys/server.component.js'
+export * from '../views/usage/server.component.js'
@@ -0,0 +1,118 @@
+'use client'
+
+import { Button, useConfig, useDocumentInfo, useForm, useFormFields } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+import styles from './actions.module.css'
+
+type Props = {
+  collectionSlug: string
+}
+
+type StreamAction = 'clear-error' | 'refresh' | 'retry'
+
+export function StreamActionsField({ collectionSlug }: Props) {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const { id } = useDocumentInfo()
+  const { dispatchFields } = useForm()
+  const { error, readyToStream, replacementError, videoId } = useFormFields(([fields]) => ({
+    error: fields['stream.error']?.value as string | undefined,
+    readyToStream: Boolean(fields['stream.readyToStream']?.value),
+    replacementError: fields['stream.replacementError']?.value as string | undefined,
+    videoId: fields['stream.videoId']?.value as string | undefined,
+  }))
+  const [running, setRunning] = useState<null | StreamAction>(null)
+  const [actionError, setActionError] = useState<null | string>(null)
+
+  if (!id) {
+    return null
+  }
+
+  const run = async (action: StreamAction) => {
+    setRunning(action)
+
+    try {
+      const response = await fetch(
+        `${serverURL}${api}/video-stream/actions/${collectionSlug}/${id}/${action}`,
+        { credentials: 'include', method: 'POST' },
+      )
+
+      const body = (await response.json()) as {
+        error?: string
+        stream?: Record<string, unknown>
+      }
+
+      // the saved stream fields are shown without reloading the document
+      for (const [key, value] of Object.entries(body.stream ?? {})) {
+        dispatchFields({ type: 'UPDATE', path: `stream.${key}`, value })
+      }
+
+      if (!response.ok) {
+        throw new Error(body.error || response.statusText)
+      }
+
+      setActionError(null)
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  const failed = Boolean(error)
+  const canRetry = failed || !readyToStream
+  const canRefresh = Boolean(videoId)
+  const canClear = failed || Boolean(replacementError)
+
+  if (!canRetry && !canRefresh && !canClear) {
+    return null
+  }
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>Stream actions</p>
+      {error ? <p className={styles.error}>{error}</p> : null}
+      <div className={styles.buttons}>
+        {canRetry ? (
+          <Button
+            buttonStyle="secondary"
+            disabled={Boolean(running)}
+            margin={false}
+            onClick={() => void run('retry')}
+            size="small"
+          >
+            {running === 'retry' ? 'Queueing…' : 'Retry copy'}
+          </Button>
+        ) : null}
+        {canRefresh ? (
+          <Button
+            buttonStyle="secondary"
+            disabled={Boolean(running)}
+            margin={false}
+            onClick={() => void run('refresh')}
+            size="small"
+          >
+            {running === 'refresh' ? 'Refreshing…' : 'Refresh status'}
+          </Button>
+        ) : null}
+        {canClear ? (
+          <Button
+            buttonStyle="secondary"
+            disabled={Boolean(running)}
+            margin={false}
+            onClick={() => void run('clear-error')}
+            size="small"
+          >
+            Clear error
+          </Button>
+        ) : null}
+      </div>
+      {actionError ? <p className={styles.error}>{actionError}</p> : null}
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type { Field } from 'payload'
+
+export const streamActionsField = ({ collectionSlug }: { collectionSlug: string }): Field => {
+  return {
+    name: 'streamActions',
+    type: 'ui',
+    admin: {
+      components: {
+        Field: {
+          clientProps: {
+            collectionSlug,
+          },
+          path: 'payload-video-stream/client#StreamActionsField',
+        },
+      },
+    },
+  }
+}
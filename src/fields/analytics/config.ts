@@ -0,0 +1,22 @@
+import type { Field } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/index.js'
+
+export const analyticsPanelField = ({ adapter }: { adapter: StreamAdapter }): Field[] => {
+  if (!('getAnalytics' in adapter)) {
+    return []
+  }
+
+  return [
+    {
+      name: 'analytics',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: 'payload-video-stream/rsc#getStreamAnalyticsField',
+        },
+        condition: (_, siblingData) => Boolean(siblingData?.readyToStream),
+      },
+    },
+  ]
+}
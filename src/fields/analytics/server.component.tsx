@@ -0,0 +1,102 @@
+import type { ServerComponentProps } from 'payload'
+
+import React from 'react'
+
+import { analyticsCollectionSlug } from '../../collections/analytics.js'
+import styles from './analytics.module.css'
+
+type DailyAnalytics = {
+  date: string
+  minutesViewed?: null | number
+  views?: null | number
+}
+
+const sparklineWidth = 200
+const sparklineHeight = 40
+
+/**
+ * SVG polyline points of the daily views, scaled to the sparkline box
+ *
+ * @param daily
+ * @returns
+ */
+const getSparklinePoints = (daily: DailyAnalytics[]): string => {
+  const max = Math.max(1, ...daily.map(({ views }) => views ?? 0))
+  const step = daily.length > 1 ? sparklineWidth / (daily.length - 1) : 0
+
+  return daily
+    .map(({ views }, index) => {
+      const x = Math.round(index * step * 10) / 10
+      const y = Math.round((sparklineHeight - ((views ?? 0) / max) * sparklineHeight) * 10) / 10
+
+      return `${x},${y}`
+    })
+    .join(' ')
+}
+
+export async function getStreamAnalyticsField({ id, collectionSlug, req }: ServerComponentProps) {
+  if (!id) {
+    return null
+  }
+
+  let analytics
+
+  try {
+    const { docs } = await req.payload.find({
+      collection: analyticsCollectionSlug,
+      depth: 0,
+      limit: 1,
+      overrideAccess: false,
+      req,
+      where: {
+        documentKey: {
+          equals: `${collectionSlug}:${id}`,
+        },
+      },
+    })
+
+    analytics = docs[0]
+  } catch {
+    // the analytics are only shown to users passing `adminAccess`
+    return null
+  }
+
+  const daily = (analytics?.daily as DailyAnalytics[] | undefined) ?? []
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>Analytics</p>
+      {analytics ? (
+        <>
+          <dl className={styles.stats}>
+            <div>
+              <dt>Views</dt>
+              <dd>{(analytics.views as number).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt>Minutes watched</dt>
+              <dd>{Math.round(analytics.minutesViewed as number).toLocaleString()}</dd>
+            </div>
+          </dl>
+          {daily.length > 1 ? (
+            <svg
+              aria-label={`Daily views over the last ${daily.length} days`}
+              className={styles.sparkline}
+              preserveAspectRatio="none"
+              role="img"
+              viewBox={`0 0 ${sparklineWidth} ${sparklineHeight}`}
+            >
+              <polyline points={getSparklinePoints(daily)} />
+            </svg>
+          ) : null}
+          <p className={styles.placeholder}>
+            Last {daily.length} days, synced{' '}
+            {new Date(analytics.syncedAt as string).toLocaleString()}
+          </p>
+        </>
+      ) : (
+        <p className={styles.placeholder}>No views synced yet.</p>
+      )}
+    </div>
+  )
+}
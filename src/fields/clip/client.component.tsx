@@ -0,0 +1,108 @@
+'use client'
+
+import { Button, useConfig, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+import styles from './clip.module.css'
+
+type Props = {
+  collectionSlug: string
+}
+
+type ClipState = {
+  clipId?: number | string
+  error?: string
+  status: 'created' | 'creating' | 'error' | 'idle'
+}
+
+export function CreateClipField({ collectionSlug }: Props) {
+  const {
+    config: {
+      routes: { admin, api },
+      serverURL,
+    },
+  } = useConfig()
+  const { id } = useDocumentInfo()
+  const duration = useFormFields(
+    ([fields]) => fields['stream.durationInSeconds']?.value as number | undefined,
+  )
+  const [start, setStart] = useState(0)
+  const [end, setEnd] = useState(Math.min(duration ?? 30, 30))
+  const [state, setState] = useState<ClipState>({ status: 'idle' })
+
+  const createClip = async () => {
+    setState({ status: 'creating' })
+
+    try {
+      const response = await fetch(`${serverURL}${api}/video-stream/clip/${collectionSlug}/${id}`, {
+        body: JSON.stringify({ endTimeSeconds: end, startTimeSeconds: start }),
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        method: 'POST',
+      })
+
+      const body = (await response.json()) as { error?: string; id?: number | string }
+
+      if (!response.ok) {
+        throw new Error(body.error || `Failed to create the clip: ${response.statusText}`)
+      }
+
+      setState({ clipId: body.id, status: 'created' })
+    } catch (error) {
+      setState({
+        error: error instanceof Error ? error.message : String(error),
+        status: 'error',
+      })
+    }
+  }
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>Create clip</p>
+      <div className={styles.times}>
+        <label className={styles.time}>
+          Start (s)
+          <input
+            aria-label="Clip start in seconds"
+            min={0}
+            onChange={(event) => setStart(Number(event.target.value))}
+            step={0.1}
+            type="number"
+            value={start}
+          />
+        </label>
+        <label className={styles.time}>
+          End (s)
+          <input
+            aria-label="Clip end in seconds"
+            max={duration}
+            min={0}
+            onChange={(event) => setEnd(Number(event.target.value))}
+            step={0.1}
+            type="number"
+            value={end}
+          />
+        </label>
+      </div>
+      {state.status === 'created' ? (
+        <p className={styles.message}>
+          Clip created,{' '}
+          <a href={`${admin}/collections/${collectionSlug}/${state.clipId}`}>open the clip</a>.
+        </p>
+      ) : null}
+      {state.status === 'error' ? <p className={styles.error}>{state.error}</p> : null}
+      <div>
+        <Button
+          buttonStyle="secondary"
+          disabled={!id || state.status === 'creating' || end <= start}
+          onClick={() => void createClip()}
+          size="small"
+        >
+          {state.status === 'creating' ? 'Creating clip…' : 'Create clip'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import type { Field } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/index.js'
+
+export const clipFields = ({
+  adapter,
+  collectionSlug,
+}: {
+  adapter: StreamAdapter
+  collectionSlug: string
+}): Field[] => {
+  if (!('createClip' in adapter)) {
+    return []
+  }
+
+  return [
+    {
+      name: 'createClip',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: {
+            clientProps: {
+              collectionSlug,
+            },
+            path: 'payload-video-stream/client#CreateClipField',
+          },
+        },
+        // clips are cut from videos the provider finished processing
+        condition: (_, siblingData) => Boolean(siblingData?.videoId && siblingData.readyToStream),
+      },
+    },
+    {
+      name: 'clippedFrom',
+      type: 'relationship',
+      admin: {
+        condition: (_, siblingData) => Boolean(siblingData?.clippedFrom),
+        readOnly: true,
+      },
+      relationTo: collectionSlug,
+    },
+  ]
+}
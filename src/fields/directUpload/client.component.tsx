@@ -0,0 +1,339 @@
+'use client'
+
+import { Button, useConfig, useForm } from '@payloadcms/ui'
+import React, { useEffect, useRef, useState } from 'react'
+
+import type { ResumableUploadSession } from './tus.js'
+
+import styles from './directUpload.module.css'
+import {
+  getSessionKey,
+  getUploadOffset,
+  listSessions,
+  loadSession,
+  removeSession,
+  saveSession,
+  uploadChunk,
+} from './tus.js'
+
+type Props = {
+  chunkSize: number
+  collectionSlug: string
+  resumable: boolean
+}
+
+type UploadState = {
+  error?: string
+  filename?: string
+  progress: number
+  status: 'done' | 'error' | 'idle' | 'paused' | 'uploading'
+}
+
+type DirectUploadEndpointResponse = {
+  filename: string
+  provider: string
+  uploadURL: string
+  videoId: string
+}
+
+/**
+ * Attempts per chunk before the upload is reported as failed
+ */
+const maxChunkAttempts = 3
+
+/**
+ * Upload a file to a direct upload url with progress reporting
+ *
+ * @param uploadURL
+ * @param file
+ * @param onProgress
+ * @returns
+ */
+const uploadFile = (
+  uploadURL: string,
+  file: File,
+  onProgress: (progress: number) => void,
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const body = new FormData()
+
+    body.append('file', file)
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    })
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve()
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`))
+      }
+    })
+    xhr.addEventListener('error', () => reject(new Error('Upload failed')))
+
+    xhr.open('POST', uploadURL)
+    xhr.send(body)
+  })
+}
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
+
+export function DirectUploadField({ chunkSize, collectionSlug, resumable }: Props) {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const { dispatchFields, setModified } = useForm()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const fileRef = useRef<File>(null)
+  const controllerRef = useRef<AbortController>(null)
+  const [state, setState] = useState<UploadState>({ progress: 0, status: 'idle' })
+  const [pendingSessions, setPendingSessions] = useState<ResumableUploadSession[]>([])
+
+  const endpoint = `${serverURL}${api}/video-stream`
+
+  useEffect(() => {
+    // uploads interrupted by a page reload continue when the same file is selected again
+    setPendingSessions(listSessions(collectionSlug))
+  }, [collectionSlug])
+
+  /**
+   * Request an upload url from one of the plugin endpoints
+   */
+  const requestUpload = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${endpoint}/${path}/${collectionSlug}`, {
+      body: JSON.stringify(body),
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to request a direct upload url: ${response.statusText}`)
+    }
+
+    return (await response.json()) as DirectUploadEndpointResponse
+  }
+
+  /**
+   * Fill in the document fields once the provider received the whole file
+   */
+  const complete = async (
+    file: File,
+    { filename, provider, videoId }: Omit<DirectUploadEndpointResponse, 'uploadURL'>,
+  ) => {
+    let stream: Record<string, unknown> = { provider, videoId }
+
+    try {
+      const response = await fetch(`${endpoint}/direct-upload/${collectionSlug}/${videoId}`, {
+        credentials: 'include',
+      })
+
+      if (response.ok) {
+        ;({ stream } = (await response.json()) as { stream: Record<string, unknown> })
+      }
+    } catch {
+      // the status task fills in the remaining stream fields once the document is saved
+    }
+
+    // the document is created without a file, the video only lives on the provider
+    const values: Record<string, unknown> = {
+      filename,
+      filesize: file.size,
+      mimeType: file.type || 'video/mp4',
+    }
+
+    for (const [key, value] of Object.entries(stream)) {
+      values[`stream.${key}`] = value
+    }
+
+    for (const [path, value] of Object.entries(values)) {
+      dispatchFields({ type: 'UPDATE', path, value })
+    }
+
+    setModified(true)
+    setState({ filename: file.name, progress: 100, status: 'done' })
+  }
+
+  const upload = async (file: File) => {
+    const { filename, provider, uploadURL, videoId } = await requestUpload('direct-upload', {
+      filename: file.name,
+    })
+
+    await uploadFile(uploadURL, file, (progress) =>
+      setState((current) => ({ ...current, progress })),
+    )
+
+    await complete(file, { filename, provider, videoId })
+  }
+
+  const resumableUpload = async (file: File) => {
+    const key = getSessionKey(collectionSlug, file)
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    let session = loadSession(key)
+    let offset = session ? await getUploadOffset(session.uploadURL) : null
+
+    // start a new session when none was persisted or the provider expired it
+    if (!session || offset === null) {
+      const response = await requestUpload('resumable-upload', {
+        filename: file.name,
+        size: file.size,
+      })
+
+      session = {
+        ...response,
+        name: file.name,
+        createdAt: new Date().toISOString(),
+        size: file.size,
+      }
+      offset = 0
+
+      saveSession(key, session)
+    }
+
+    const { uploadURL } = session
+    let attempts = 0
+    let uploaded: number = offset
+
+    while (uploaded < file.size) {
+      const chunkOffset = uploaded
+
+      try {
+        uploaded = await uploadChunk({
+          chunk: file.slice(chunkOffset, chunkOffset + chunkSize),
+          offset: chunkOffset,
+          onProgress: (loaded) =>
+            setState((current) => ({
+              ...current,
+              progress: Math.floor(((chunkOffset + loaded) / file.size) * 100),
+            })),
+          signal: controller.signal,
+          uploadURL,
+        })
+        attempts = 0
+      } catch (error) {
+        if (isAbortError(error) || ++attempts >= maxChunkAttempts) {
+          throw error
+        }
+
+        // the server may have received part of the chunk before failing
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempts))
+        uploaded = (await getUploadOffset(uploadURL)) ?? chunkOffset
+      }
+    }
+
+    removeSession(key)
+    setPendingSessions(listSessions(collectionSlug))
+
+    await complete(file, session)
+  }
+
+  const start = async (file: File) => {
+    fileRef.current = file
+    controllerRef.current = null
+    setState((current) => ({
+      filename: file.name,
+      progress: current.filename === file.name ? current.progress : 0,
+      status: 'uploading',
+    }))
+
+    try {
+      if (resumable && file.size > chunkSize) {
+        await resumableUpload(file)
+      } else {
+        await upload(file)
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        setState((current) => ({ ...current, status: 'paused' }))
+        return
+      }
+
+      setState((current) => ({
+        ...current,
+        error: error instanceof Error ? error.message : String(error),
+        status: 'error',
+      }))
+    }
+  }
+
+  const canResume =
+    resumable &&
+    fileRef.current !== null &&
+    fileRef.current.size > chunkSize &&
+    (state.status === 'paused' || state.status === 'error')
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>Upload directly to the streaming provider</p>
+      <input
+        accept="video/*"
+        aria-label="Video file"
+        className={styles.input}
+        onChange={(event) => {
+          const file = event.target.files?.[0]
+          if (file) {
+            void start(file)
+          }
+        }}
+        ref={inputRef}
+        type="file"
+      />
+      {state.status === 'idle' && pendingSessions.length ? (
+        <p className={styles.message}>
+          Select {pendingSessions.map(({ name }) => name).join(', ')} again to resume the upload.
+        </p>
+      ) : null}
+      {state.status === 'uploading' || state.status === 'paused' ? (
+        <div className={styles.progress}>
+          <div className={styles.progressBar} style={{ width: `${state.progress}%` }} />
+        </div>
+      ) : null}
+      {state.status === 'paused' ? (
+        <p className={styles.message}>Upload paused at {state.progress}%</p>
+      ) : null}
+      {state.status === 'done' ? (
+        <p className={styles.message}>{state.filename} uploaded, save the document to finish.</p>
+      ) : null}
+      {state.status === 'error' ? <p className={styles.error}>{state.error}</p> : null}
+      <div className={styles.actions}>
+        {state.status === 'uploading' && controllerRef.current ? (
+          <Button
+            buttonStyle="secondary"
+            onClick={() => controllerRef.current?.abort()}
+            size="small"
+          >
+            Pause
+          </Button>
+        ) : null}
+        {canResume ? (
+          <Button
+            buttonStyle="secondary"
+            onClick={() => fileRef.current && void start(fileRef.current)}
+            size="small"
+          >
+            Resume
+          </Button>
+        ) : null}
+        <Button
+          buttonStyle="secondary"
+          disabled={state.status === 'uploading'}
+          onClick={() => inputRef.current?.click()}
+          size="small"
+        >
+          {state.status === 'uploading' ? `Uploading ${state.progress}%` : 'Select video'}
+        </Button>
+      </div>
+    </div>
+  )
+}
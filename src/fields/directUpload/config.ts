@@ -0,0 +1,35 @@
+import type { Field } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/index.js'
+import type { DirectUploadsConfig } from '../../types.js'
+
+export const directUploadField = ({
+  adapter,
+  collectionSlug,
+  directUploads,
+}: {
+  adapter: StreamAdapter
+  collectionSlug: string
+  directUploads: DirectUploadsConfig
+}): Field => {
+  return {
+    name: 'streamDirectUpload',
+    type: 'ui',
+    admin: {
+      components: {
+        Field: {
+          clientProps: {
+            // multiple of 256 KiB as required by most tus servers
+            chunkSize: directUploads.chunkSize ?? 50 * 1024 * 1024,
+            collectionSlug,
+            resumable: 'createResumableUpload' in adapter,
+          },
+          path: 'payload-video-stream/client#DirectUploadField',
+        },
+      },
+      // only offer direct uploads while creating a document
+      condition: (data) => !data?.id,
+      position: 'sidebar',
+    },
+  }
+}
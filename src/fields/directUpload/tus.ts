@@ -0,0 +1,171 @@
+export type ResumableUploadSession = {
+  createdAt: string
+  filename: string
+  name: string
+  provider: string
+  size: number
+  uploadURL: string
+  videoId: string
+}
+
+const storagePrefix = 'payload-video-stream:upload'
+
+const tusHeaders = {
+  'Tus-Resumable': '1.0.0',
+}
+
+/**
+ * Key of the upload session of a file, the same file selected again after a reload maps to the same key
+ *
+ * @param collectionSlug
+ * @param file
+ * @returns
+ */
+export const getSessionKey = (collectionSlug: string, file: File): string => {
+  return `${storagePrefix}:${collectionSlug}:${file.name}:${file.size}:${file.lastModified}`
+}
+
+/**
+ * Load a persisted upload session
+ *
+ * @param key
+ * @returns
+ */
+export const loadSession = (key: string): null | ResumableUploadSession => {
+  try {
+    const value = window.localStorage.getItem(key)
+    return value ? (JSON.parse(value) as ResumableUploadSession) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Persist an upload session so a page reload can continue it
+ *
+ * @param key
+ * @param session
+ */
+export const saveSession = (key: string, session: ResumableUploadSession): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(session))
+  } catch {
+    // storage may be full or disabled, the upload still works without resuming after a reload
+  }
+}
+
+/**
+ * Remove a persisted upload session
+ *
+ * @param key
+ */
+export const removeSession = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key)
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * List the unfinished upload sessions of a collection
+ *
+ * @param collectionSlug
+ * @returns
+ */
+export const listSessions = (collectionSlug: string): ResumableUploadSession[] => {
+  const sessions: ResumableUploadSession[] = []
+
+  try {
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i)
+
+      if (key?.startsWith(`${storagePrefix}:${collectionSlug}:`)) {
+        const session = loadSession(key)
+
+        if (session) {
+          sessions.push(session)
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+
+  return sessions
+}
+
+/**
+ * Get the number of bytes the tus server already received
+ *
+ * @param uploadURL
+ * @returns the offset, or null when the upload session no longer exists
+ */
+export const getUploadOffset = async (uploadURL: string): Promise<null | number> => {
+  const response = await fetch(uploadURL, {
+    headers: tusHeaders,
+    method: 'HEAD',
+  })
+
+  if (response.status === 404 || response.status === 410) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to get the upload offset: ${response.statusText}`)
+  }
+
+  return Number(response.headers.get('Upload-Offset') ?? 0)
+}
+
+/**
+ * Send one chunk of the file to the tus server with progress reporting
+ *
+ * @param param0
+ * @returns the offset of the next chunk
+ */
+export const uploadChunk = ({
+  chunk,
+  offset,
+  onProgress,
+  signal,
+  uploadURL,
+}: {
+  chunk: Blob
+  offset: number
+  onProgress: (loaded: number) => void
+  signal: AbortSignal
+  uploadURL: string
+}): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+
+    const abort = () => xhr.abort()
+    signal.addEventListener('abort', abort)
+
+    xhr.upload.addEventListener('progress', (event) => onProgress(event.loaded))
+    xhr.addEventListener('load', () => {
+      signal.removeEventListener('abort', abort)
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset') ?? offset + chunk.size))
+      } else {
+        reject(new Error(`Chunk upload failed with status ${xhr.status}`))
+      }
+    })
+    xhr.addEventListener('error', () => {
+      signal.removeEventListener('abort', abort)
+      reject(new Error('Chunk upload failed'))
+    })
+    xhr.addEventListener('abort', () => {
+      signal.removeEventListener('abort', abort)
+      reject(new DOMException('Upload paused', 'AbortError'))
+    })
+
+    xhr.open('PATCH', uploadURL)
+    xhr.setRequestHeader('Tus-Resumable', tusHeaders['Tus-Resumable'])
+    xhr.setRequestHeader('Upload-Offset', String(offset))
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream')
+    xhr.send(chunk)
+  })
+}
@@ -0,0 +1,21 @@
+import type { Field } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/index.js'
+
+export const liveInputPlayerField = (adapter: StreamAdapter): Field => {
+  return {
+    name: 'player',
+    type: 'ui',
+    admin: {
+      components: {
+        Field: {
+          path: 'payload-video-stream/rsc#getLiveInputPlayerField',
+          serverProps: {
+            adapter,
+          },
+        },
+      },
+      condition: (data) => Boolean(data?.liveInputId),
+    },
+  }
+}
@@ -0,0 +1,44 @@
+import type { ServerComponentProps } from 'payload'
+
+import React from 'react'
+
+import type { LiveInputStatus, StreamAdapter } from '../../adapters/index.js'
+
+import styles from './liveInput.module.css'
+
+type Props = {
+  adapter: StreamAdapter
+} & ServerComponentProps
+
+const statusLabels: Record<LiveInputStatus, string> = {
+  connected: 'Live',
+  disconnected: 'Offline',
+  error: 'Error',
+  reconnecting: 'Reconnecting',
+}
+
+export async function getLiveInputPlayerField({ adapter, data }: Props) {
+  const liveInputId = data?.liveInputId as string | undefined
+  const status = (data?.status as LiveInputStatus | undefined) ?? 'disconnected'
+
+  const html = liveInputId ? await adapter.getHTMLLivePlayer?.(liveInputId) : null
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>
+        Live player{' '}
+        <span className={`${styles.status} ${styles[status]}`}>{statusLabels[status]}</span>
+      </p>
+      {html ? (
+        <div dangerouslySetInnerHTML={{ __html: html }} />
+      ) : (
+        <p className={styles.placeholder}>Live player not available.</p>
+      )}
+      {status !== 'connected' ? (
+        <p className={styles.placeholder}>
+          The player shows the broadcast once a broadcaster connects.
+        </p>
+      ) : null}
+    </div>
+  )
+}
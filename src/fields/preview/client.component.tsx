@@ -2,14 +2,27 @@
 
 import React from 'react'
 
+import type { StreamCaption } from '../../adapters/types.js'
+
 import styles from './preview.module.css'
 
 type Props = {
+  captions?: StreamCaption[]
   error?: string
   html: null | string
   readyToStream?: boolean
 }
-export function StreamPreviewer({ error, html, readyToStream }: Props) {
+const captionStatuses: Record<
+  NonNullable<StreamCaption['status']>,
+  { className?: string; label: string }
+> = {
+  error: { className: styles.captionError, label: 'Error' },
+  inprogress: { className: styles.captionPending, label: 'Generating' },
+  pending: { className: styles.captionPending, label: 'Pending' },
+  ready: { className: styles.captionReady, label: 'Ready' },
+}
+
+export function StreamPreviewer({ captions, error, html, readyToStream }: Props) {
   return (
     <div className={styles.container}>
       {error ? (
@@ -59,6 +72,24 @@ export function StreamPreviewer({ error, html, readyToStream }: Props) {
           <p className={styles.placeholderSubtext}>Please check back in a few moments</p>
         </div>
       )}
+      {captions?.length ? (
+        <ul className={styles.captions}>
+          {captions.map(({ id, error, label, language, source, status = 'pending' }) => (
+            <li className={styles.caption} key={id ?? language} title={error || undefined}>
+              <span>
+                {label || language}
+                {label ? <span className={styles.captionLanguage}> ({language})</span> : null}
+                {source === 'generated' ? (
+                  <span className={styles.captionLanguage}> auto</span>
+                ) : null}
+              </span>
+              <span className={`${styles.captionStatus} ${captionStatuses[status].className}`}>
+                {captionStatuses[status].label}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,48 @@
+'use client'
+
+import type { DefaultCellComponentProps } from 'payload'
+
+import React from 'react'
+
+import type { StreamFieldData, StreamState } from '../../adapters/types.js'
+
+import { getStreamState } from '../../utils/streamState.js'
+import styles from './status.module.css'
+
+const stateLabels: Record<StreamState, string> = {
+  error: 'Failed',
+  pending: 'Pending',
+  processing: 'Processing',
+  queued: 'Queued',
+  ready: 'Ready',
+}
+
+export function StreamStatusCell({ cellData }: DefaultCellComponentProps) {
+  const stream = cellData as null | Partial<StreamFieldData> | undefined
+
+  if (!stream) {
+    return null
+  }
+
+  // documents saved before the state was stored derive it on the fly
+  const state = stream.state ?? getStreamState(stream)
+
+  return (
+    <div className={styles.cell}>
+      {stream.thumbnailUrl ? (
+        <img alt="" className={styles.thumbnail} loading="lazy" src={stream.thumbnailUrl} />
+      ) : (
+        <div className={styles.thumbnail} />
+      )}
+      <span className={`${styles.badge} ${styles[state]}`} title={stream.error || undefined}>
+        {stateLabels[state]}
+        {state === 'processing' && typeof stream.progress === 'number'
+          ? ` ${Math.round(stream.progress)}%`
+          : null}
+      </span>
+      {stream.requireSignedURLs ? (
+        <span className={`${styles.badge} ${styles.signed}`}>Signed</span>
+      ) : null}
+    </div>
+  )
+}
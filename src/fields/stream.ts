@@ -1,14 +1,148 @@
 import type { Field } from 'payload'
 
 import type { StreamAdapter } from '../adapters/index.js'
+import type { CaptionsConfig } from '../types.js'
 
+import { watermarksCollectionSlug } from '../collections/watermarks.js'
+import { streamActionsField } from './actions/config.js'
+import { analyticsPanelField } from './analytics/config.js'
+import { clipFields } from './clip/config.js'
 import { streamPreviewField } from './preview/config.js'
+import { animatedPreviewField, thumbnailTimestampField } from './thumbnail/config.js'
 
-export const streamField = ({ adapter }: { adapter: StreamAdapter }): Field => {
+const captionsField = ({ uploadCollection }: CaptionsConfig): Field => {
+  return {
+    name: 'captions',
+    type: 'array',
+    admin: {
+      description:
+        'Text tracks synced to the streaming provider once the video is ready to stream.',
+      initCollapsed: true,
+    },
+    fields: [
+      {
+        name: 'language',
+        type: 'text',
+        admin: {
+          description: 'BCP 47 language tag, e.g. en or pt-BR',
+        },
+        required: true,
+      },
+      {
+        name: 'label',
+        type: 'text',
+      },
+      {
+        name: 'source',
+        type: 'select',
+        defaultValue: 'upload',
+        options: [
+          { label: 'WebVTT upload', value: 'upload' },
+          { label: 'Auto-generated', value: 'generated' },
+        ],
+        required: true,
+      },
+      ...(uploadCollection
+        ? [
+            {
+              name: 'file',
+              type: 'upload',
+              admin: {
+                condition: (_, siblingData) => siblingData?.source === 'upload',
+              },
+              relationTo: uploadCollection,
+            } satisfies Field,
+          ]
+        : []),
+      {
+        name: 'vtt',
+        type: 'textarea',
+        admin: {
+          condition: (_, siblingData) => siblingData?.source === 'upload',
+          description: uploadCollection
+            ? 'WebVTT contents, used when no file is selected'
+            : undefined,
+        },
+        label: 'WebVTT',
+      },
+      {
+        name: 'status',
+        type: 'select',
+        admin: {
+          readOnly: true,
+        },
+        defaultValue: 'pending',
+        options: [
+          { label: 'Pending', value: 'pending' },
+          { label: 'In progress', value: 'inprogress' },
+          { label: 'Ready', value: 'ready' },
+          { label: 'Error', value: 'error' },
+        ],
+      },
+      {
+        name: 'error',
+        type: 'text',
+        admin: {
+          condition: (_, siblingData) => Boolean(siblingData?.error),
+          readOnly: true,
+        },
+      },
+    ],
+  }
+}
+
+const liveRecordingFields: Field[] = [
+  {
+    name: 'liveInputId',
+    type: 'text',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.liveInputId),
+      description: 'Live input the video was recorded from',
+      readOnly: true,
+    },
+    index: true,
+    label: 'Live Input ID',
+  },
+  {
+    name: 'recordedAt',
+    type: 'date',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.recordedAt),
+      date: {
+        pickerAppearance: 'dayAndTime',
+      },
+      readOnly: true,
+    },
+  },
+]
+
+export const streamField = ({
+  adapter,
+  analytics = false,
+  captions = {},
+  clips = false,
+  collectionSlug,
+  liveRecordings = false,
+  quota = false,
+  watermarks = false,
+}: {
+  adapter: StreamAdapter
+  analytics?: boolean
+  captions?: CaptionsConfig
+  clips?: boolean
+  collectionSlug: string
+  liveRecordings?: boolean
+  quota?: boolean
+  watermarks?: boolean
+}): Field => {
   return {
     name: 'stream',
     type: 'group',
     admin: {
+      components: {
+        // thumbnail and status badge in list views
+        Cell: 'payload-video-stream/client#StreamStatusCell',
+      },
       condition: (_, siblingData) => {
         return siblingData?.mimeType?.startsWith('video/')
       },
@@ -17,6 +151,30 @@ export const streamField = ({ adapter }: { adapter: StreamAdapter }): Field => {
     },
     fields: [
       streamPreviewField(adapter),
+      // only for adapters reporting views
+      ...(analytics ? analyticsPanelField({ adapter }) : []),
+      // only for adapters rendering frames of the video
+      ...thumbnailTimestampField({ adapter, collectionSlug }),
+      ...animatedPreviewField({ adapter }),
+      {
+        name: 'state',
+        type: 'select',
+        admin: {
+          description: 'Derived from the stream fields, used to filter and sort list views.',
+          readOnly: true,
+        },
+        index: true,
+        label: 'Stream status',
+        options: [
+          { label: 'Pending', value: 'pending' },
+          { label: 'Queued', value: 'queued' },
+          { label: 'Processing', value: 'processing' },
+          { label: 'Ready', value: 'ready' },
+          { label: 'Failed', value: 'error' },
+        ],
+      },
+      // retry, refresh and clear the error of failed or stuck videos
+      streamActionsField({ collectionSlug }),
       {
         name: 'videoId',
         type: 'text',
@@ -82,6 +240,14 @@ export const streamField = ({ adapter }: { adapter: StreamAdapter }): Field => {
           readOnly: true,
         },
       },
+      {
+        name: 'progress',
+        type: 'number',
+        admin: {
+          hidden: true,
+          readOnly: true,
+        },
+      },
       {
         name: 'provider',
         type: 'text',
@@ -106,6 +272,47 @@ export const streamField = ({ adapter }: { adapter: StreamAdapter }): Field => {
           readOnly: true,
         },
       },
+      {
+        name: 'errorReasonCode',
+        type: 'text',
+        admin: {
+          hidden: true,
+          readOnly: true,
+        },
+      },
+      {
+        name: 'replacementVideoId',
+        type: 'text',
+        admin: {
+          hidden: true,
+          readOnly: true,
+        },
+      },
+      {
+        name: 'replacementError',
+        type: 'textarea',
+        admin: {
+          condition: (_, siblingData) => Boolean(siblingData?.replacementError),
+          description: 'The replaced file could not be streamed, the previous video keeps playing.',
+          readOnly: true,
+        },
+        label: 'Replacement error',
+      },
+      // only when videos wait for the account quota
+      ...(quota
+        ? [
+            {
+              name: 'waitingForQuota',
+              type: 'checkbox',
+              admin: {
+                hidden: true,
+                readOnly: true,
+              },
+              defaultValue: false,
+              index: true,
+            } satisfies Field,
+          ]
+        : []),
       {
         name: 'requireSignedURLs',
         type: 'checkbox',
@@ -117,6 +324,26 @@ export const streamField = ({ adapter }: { adapter: StreamAdapter }): Field => {
         defaultValue: false,
         label: 'Require Signed URL for Streaming',
       },
+      // only for collections live recordings are imported into
+      ...(liveRecordings ? liveRecordingFields : []),
+      // only for adapters cutting clips
+      ...(clips ? clipFields({ adapter, collectionSlug }) : []),
+      // only for adapters burning watermarks into videos
+      ...(watermarks && 'createWatermark' in adapter
+        ? [
+            {
+              name: 'watermark',
+              type: 'relationship',
+              admin: {
+                description:
+                  'Burned into the video when it is copied to the streaming provider, defaults to the watermark of the collection.',
+              },
+              relationTo: watermarksCollectionSlug,
+            } satisfies Field,
+          ]
+        : []),
+      // only for adapters managing text tracks
+      ...('listCaptions' in adapter ? [captionsField(captions)] : []),
     ],
   }
 }
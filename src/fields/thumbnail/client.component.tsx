@@ -0,0 +1,80 @@
+'use client'
+
+import { useConfig, useDocumentInfo, useField, useFormFields } from '@payloadcms/ui'
+import React, { useEffect, useState } from 'react'
+
+import styles from './thumbnail.module.css'
+
+type Props = {
+  collectionSlug: string
+  path: string
+}
+
+/**
+ * Format seconds as m:ss
+ *
+ * @param seconds
+ * @returns
+ */
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`
+}
+
+export function ThumbnailScrubberField({ collectionSlug, path }: Props) {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const { id } = useDocumentInfo()
+  const { setValue, value } = useField<number>({ path })
+  const duration = useFormFields(
+    ([fields]) => fields['stream.durationInSeconds']?.value as number | undefined,
+  )
+  const readyToStream = useFormFields(([fields]) => Boolean(fields['stream.readyToStream']?.value))
+
+  const position = value ?? 0
+  const [framePosition, setFramePosition] = useState(position)
+
+  // only load the frame once the editor stops scrubbing
+  useEffect(() => {
+    const timeout = setTimeout(() => setFramePosition(position), 250)
+    return () => clearTimeout(timeout)
+  }, [position])
+
+  if (!id || !readyToStream || !duration) {
+    return (
+      <div className={styles.container}>
+        <p className={styles.label}>Poster frame</p>
+        <p className={styles.description}>
+          The poster frame can be chosen once the video is ready to stream.
+        </p>
+      </div>
+    )
+  }
+
+  const frameTime = Math.round(framePosition * duration * 10) / 10
+  const frameUrl = `${serverURL}${api}/video-stream/thumbnail/${collectionSlug}/${id}?time=${frameTime}&height=180`
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.label}>Poster frame</p>
+      <img alt="Poster frame" className={styles.frame} src={frameUrl} />
+      <input
+        aria-label="Poster frame position"
+        className={styles.scrubber}
+        max={1000}
+        min={0}
+        onChange={(event) => setValue(Number(event.target.value) / 1000)}
+        type="range"
+        value={Math.round(position * 1000)}
+      />
+      <p className={styles.description}>
+        {formatTime(position * duration)} / {formatTime(duration)}
+        {value === undefined || value === null ? ' (chosen by the provider)' : ''}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import type { Field } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/index.js'
+
+export const thumbnailTimestampField = ({
+  adapter,
+  collectionSlug,
+}: {
+  adapter: StreamAdapter
+  collectionSlug: string
+}): Field[] => {
+  if (!('setThumbnailTimestamp' in adapter) || !('getThumbnailUrl' in adapter)) {
+    return []
+  }
+
+  return [
+    {
+      name: 'thumbnailTimestampPct',
+      type: 'number',
+      admin: {
+        components: {
+          Field: {
+            clientProps: {
+              collectionSlug,
+            },
+            path: 'payload-video-stream/client#ThumbnailScrubberField',
+          },
+        },
+      },
+      label: 'Poster frame',
+      max: 1,
+      min: 0,
+    },
+  ]
+}
+
+export const animatedPreviewField = ({ adapter }: { adapter: StreamAdapter }): Field[] => {
+  if (!('getAnimatedThumbnailUrl' in adapter)) {
+    return []
+  }
+
+  return [
+    {
+      name: 'animatedPreview',
+      type: 'group',
+      admin: {
+        description: 'Animated preview of a part of the video, e.g. for hover previews',
+      },
+      fields: [
+        {
+          name: 'enabled',
+          type: 'checkbox',
+          defaultValue: false,
+          label: 'Generate animated preview',
+        },
+        {
+          name: 'format',
+          type: 'select',
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.enabled),
+          },
+          defaultValue: 'webp',
+          options: [
+            { label: 'WebP', value: 'webp' },
+            { label: 'GIF', value: 'gif' },
+          ],
+        },
+        {
+          name: 'start',
+          type: 'number',
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.enabled),
+            description: 'Start of the preview in seconds',
+          },
+          defaultValue: 0,
+          min: 0,
+        },
+        {
+          name: 'duration',
+          type: 'number',
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.enabled),
+            description: 'Length of the preview in seconds',
+          },
+          defaultValue: 4,
+          max: 15,
+          min: 1,
+        },
+        {
+          name: 'url',
+          type: 'text',
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.url),
+            readOnly: true,
+          },
+        },
+      ],
+    },
+  ]
+}
@@ -0,0 +1,53 @@
+import type { GlobalConfig } from 'payload'
+
+import type { VideoStreamAccess } from '../types.js'
+
+export const signingKeysGlobalSlug = 'video-stream-signing-keys'
+
+/**
+ * Plugin owned global storing the active signing key of each provider, managed from the signing keys view
+ *
+ * @param access
+ * @returns
+ */
+export const signingKeysGlobal = (access: VideoStreamAccess): GlobalConfig => {
+  return {
+    slug: signingKeysGlobalSlug,
+    access: {
+      read: access,
+      update: access,
+    },
+    admin: {
+      hidden: true,
+    },
+    fields: [
+      {
+        name: 'keys',
+        type: 'array',
+        fields: [
+          {
+            name: 'provider',
+            type: 'text',
+            required: true,
+          },
+          {
+            name: 'keyId',
+            type: 'text',
+            required: true,
+          },
+          {
+            // encrypted with the Payload secret, never returned by the API
+            name: 'privateKey',
+            type: 'text',
+            hidden: true,
+            required: true,
+          },
+          {
+            name: 'activatedAt',
+            type: 'date',
+          },
+        ],
+      },
+    ],
+  }
+}
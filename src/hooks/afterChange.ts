@@ -0,0 +1,89 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { CaptionsConfig } from '../types.js'
+
+import { liveInputService, skipLiveInputSyncContext } from '../services/liveInputService.js'
+import {
+  isFileReplaced,
+  skipCaptionSyncContext,
+  streamingService,
+} from '../services/streamingService.js'
+import {
+  isWatermarkChanged,
+  skipWatermarkSyncContext,
+  watermarkService,
+} from '../services/watermarkService.js'
+
+// hook to sync caption tracks to the streaming service after a change
+export const syncCaptionsHook = (
+  adapter: StreamAdapter,
+  collectionSlug: string,
+  captions: CaptionsConfig = {},
+): CollectionAfterChangeHook => {
+  return async ({ context, doc, previousDoc, req }) => {
+    if (!context[skipCaptionSyncContext] && doc.stream?.videoId && doc.stream.readyToStream) {
+      await streamingService({ adapter, req }).syncCaptions({
+        collectionSlug,
+        doc,
+        previousDoc,
+        uploadCollection: captions.uploadCollection,
+      })
+    }
+
+    return doc
+  }
+}
+
+// hook to stream the new file after the file of a video document was replaced
+export const replaceVideoHook = (
+  adapter: StreamAdapter,
+  collectionSlug: string,
+): CollectionAfterChangeHook => {
+  return async ({ doc, operation, previousDoc, req }) => {
+    if (
+      operation !== 'update' ||
+      !doc.mimeType?.startsWith('video/') ||
+      doc.stream?.waitingForQuota ||
+      !isFileReplaced(doc, previousDoc)
+    ) {
+      return doc
+    }
+
+    // documents without a video yet are copied like new ones
+    await streamingService({ adapter, req }).queueCopyVideoTask({
+      collectionSlug,
+      doc,
+      replacement: Boolean(doc.stream?.videoId),
+    })
+
+    return doc
+  }
+}
+
+// hook to register watermark profiles with the streaming services after a change
+export const registerWatermarkHook = (adapters: StreamAdapter[]): CollectionAfterChangeHook => {
+  return async ({ context, doc, previousDoc, req }) => {
+    if (!context[skipWatermarkSyncContext] && isWatermarkChanged(doc, previousDoc)) {
+      await watermarkService({ req }).register({
+        adapters,
+        doc,
+        // use the uploaded image instead of downloading it again
+        file: req.file ? new Blob([req.file.data], { type: req.file.mimetype }) : undefined,
+      })
+    }
+
+    return doc
+  }
+}
+
+// hook to create or update the live input on the streaming service after a change
+export const syncLiveInputHook = (adapter: StreamAdapter): CollectionAfterChangeHook => {
+  return async ({ context, doc, previousDoc, req }) => {
+    if (!context[skipLiveInputSyncContext]) {
+      await liveInputService({ adapter, req }).sync({ doc, previousDoc })
+    }
+
+    return doc
+  }
+}
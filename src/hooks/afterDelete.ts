@@ -0,0 +1,24 @@
+import type { CollectionAfterDeleteHook } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+
+import { liveInputService } from '../services/liveInputService.js'
+import { watermarkService } from '../services/watermarkService.js'
+
+// hook to delete the live input from the streaming service after deleting the document
+export const deleteLiveInputHook = (adapter: StreamAdapter): CollectionAfterDeleteHook => {
+  return async ({ doc, req }) => {
+    await liveInputService({ adapter, req }).delete(doc)
+
+    return doc
+  }
+}
+
+// hook to delete watermark profiles from the streaming services after deleting the document
+export const deleteWatermarkHook = (adapters: StreamAdapter[]): CollectionAfterDeleteHook => {
+  return async ({ doc, req }) => {
+    await watermarkService({ req }).delete({ adapters, doc })
+
+    return doc
+  }
+}
@@ -2,6 +2,7 @@ import type { CollectionAfterOperationHook, CollectionBeforeDeleteHook } from 'p
 
 import type { StreamAdapter } from '../adapters/streamAdapter.js'
 
+import { liveInputService } from '../services/liveInputService.js'
 import { streamingService } from '../services/streamingService.js'
 
 export const updateStatusHook = (
@@ -12,6 +13,9 @@ export const updateStatusHook = (
     if (
       operation === 'findByID' &&
       !result.stream.readyToStream &&
+      // the provider gave up on failed videos, a retry clears the error
+      !result.stream.error &&
+      !result.stream.errorReasonCode &&
       result.mimeType?.startsWith('video/') &&
       result.stream.videoId
     ) {
@@ -25,33 +29,46 @@ export const updateStatusHook = (
   }
 }
 
+// hook to refresh the connection status of a live input after fetching it by ID
+export const updateLiveInputStatusHook = (adapter: StreamAdapter): CollectionAfterOperationHook => {
+  return async ({ operation, req, result }) => {
+    if (operation === 'findByID' && result?.liveInputId) {
+      result.status = await liveInputService({ adapter, req }).updateStatus(result)
+    }
+
+    return result
+  }
+}
+
 export const copyVideo = (
   adapter: StreamAdapter,
   collectionSlug: string,
-  requireSignedURLs = false,
 ): CollectionAfterOperationHook => {
-  return ({ operation, req, result }) => {
+  return async ({ operation, req, result }) => {
     if (
       operation === 'create' &&
       !result.stream.readyToStream &&
-      !result.stream.videoId &&
+      result.stream.videoId &&
       result.mimeType?.startsWith('video/')
     ) {
-      const stream = streamingService({ adapter, req })
-      setTimeout(async () => {
-        // copy video to streaming platform
-        await stream.copyVideoToStreamingPlatform({
-          collectionSlug,
-          doc: result,
-          requireSignedURLs,
-        })
+      // the video was uploaded directly to the streaming platform, only track its status
+      await streamingService({ adapter, req }).queueUpdateStatusTask({
+        collectionSlug,
+        documentId: result.id as string,
+      })
+    }
 
-        // queue update status task
-        await stream.queueUpdateStatusTask({
-          collectionSlug,
-          documentId: result.id as string,
-        })
-      }, 1000) // delay to allow initial create operation to complete
+    if (
+      operation === 'create' &&
+      !result.stream.readyToStream &&
+      !result.stream.videoId &&
+      result.mimeType?.startsWith('video/')
+    ) {
+      // the copy runs as a job so it survives restarts, it queues the status task once done
+      await streamingService({ adapter, req }).queueCopyVideoTask({
+        collectionSlug,
+        doc: result,
+      })
     }
 
     return result
@@ -0,0 +1,43 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+
+import { streamingService } from '../services/streamingService.js'
+import { getStreamState } from '../utils/streamState.js'
+
+// hook to apply the chosen poster frame and animated preview before a change is saved
+export const thumbnailHook = (adapter: StreamAdapter): CollectionBeforeChangeHook => {
+  return async ({ data, originalDoc, req }) => {
+    const stream = data.stream ?? {}
+
+    if (!('thumbnailTimestampPct' in stream) && !('animatedPreview' in stream)) {
+      return data
+    }
+
+    return {
+      ...data,
+      stream: await streamingService({ adapter, req }).updateThumbnails({ data, originalDoc }),
+    }
+  }
+}
+
+// hook to store the derived stream state list views filter and sort on
+export const streamStateHook = (): CollectionBeforeChangeHook => {
+  return ({ data, originalDoc }) => {
+    const mimeType: string | undefined = data.mimeType ?? originalDoc?.mimeType
+
+    if (!mimeType?.startsWith('video/')) {
+      return data
+    }
+
+    const state = getStreamState({ ...originalDoc?.stream, ...data.stream })
+
+    return {
+      ...data,
+      stream: {
+        ...data.stream,
+        state,
+      },
+    }
+  }
+}
@@ -1,19 +1,149 @@
 import type { CollectionSlug, Config } from 'payload'
 
 import type { StreamAdapter } from './adapters/streamAdapter.js'
+import type { StreamFieldData } from './adapters/types.js'
+import type {
+  AnalyticsConfig,
+  BackfillConfig,
+  CaptionsConfig,
+  DirectUploadsConfig,
+  LiveInputsConfig,
+  LiveRecordingsConfig,
+  QuotaConfig,
+  ReconciliationConfig,
+  StatusPollingConfig,
+  StreamCollection,
+  VideoStreamAccess,
+} from './types.js'
 
+import { analyticsCollection } from './collections/analytics.js'
+import { backfillsCollection } from './collections/backfills.js'
+import { liveInputsCollection } from './collections/liveInputs.js'
+import { reconciliationCollection } from './collections/reconciliation.js'
+import { watermarksCollection } from './collections/watermarks.js'
+import { streamActionEndpoints } from './endpoints/actions.js'
+import { backfillEndpoints } from './endpoints/backfill.js'
+import { clipEndpoint } from './endpoints/clip.js'
+import {
+  directUploadEndpoint,
+  directUploadStatusEndpoint,
+  resumableUploadEndpoint,
+} from './endpoints/directUpload.js'
+import { libraryEndpoints } from './endpoints/library.js'
+import { getSigningKeyAdapters, signingKeysEndpoints } from './endpoints/signingKeys.js'
+import { thumbnailEndpoint } from './endpoints/thumbnail.js'
+import { webhookEndpoint } from './endpoints/webhook.js'
+import { directUploadField } from './fields/directUpload/config.js'
 import { streamField } from './fields/stream.js'
+import { signingKeysGlobal } from './globals/signingKeys.js'
+import { replaceVideoHook, syncCaptionsHook } from './hooks/afterChange.js'
 import { copyVideo, deleteVideo, updateStatusHook } from './hooks/afterOperation.js'
+import { streamStateHook, thumbnailHook } from './hooks/beforeChange.js'
+import { signingKeyService } from './services/signingKeyService.js'
+import { getWatermarkAdapters } from './services/watermarkService.js'
+import { backfillTask } from './tasks/backfill.js'
+import { copyQueuedVideosTask } from './tasks/copyQueuedVideos.js'
+import { copyVideoTask } from './tasks/copyVideo.js'
+import { importLiveRecordingsTask } from './tasks/importLiveRecordings.js'
+import { reconcileTask } from './tasks/reconcile.js'
+import {
+  missingStreamStateWhere,
+  streamStateTask,
+  streamStateTaskSlug,
+} from './tasks/streamState.js'
+import { syncAnalyticsTask } from './tasks/syncAnalytics.js'
 import { updateStreamStatusTask } from './tasks/updateStreamStatus.js'
+import { backfillButton } from './views/backfill/config.js'
+import { getLibraryProviders, libraryView } from './views/library/config.js'
+import { signingKeysView } from './views/signingKeys/config.js'
+import { getUsageAdapters, usageView } from './views/usage/config.js'
+
+export type VideoStreamCollectionConfig = {
+  adapter?: StreamAdapter
+  /**
+   * Overrides the plugin level `clips` option for this collection
+   */
+  clips?: boolean
+  /**
+   * Overrides the plugin level `directUploads` option for this collection
+   */
+  directUploads?: boolean | DirectUploadsConfig
+  /**
+   * Name of the watermark profile burned into the videos of this collection,
+   * documents can choose another one. Requires the `watermarks` option.
+   */
+  watermark?: string
+}
 
 export type VideoStreamConfig = {
+  /**
+   * Who may use the plugin admin views and endpoints, e.g. the signing keys view.
+   * Defaults to nobody, the admin features stay hidden until access is granted.
+   */
+  adminAccess?: VideoStreamAccess
+  /**
+   * Sync the daily views of the videos into a plugin owned `video-stream-analytics` collection
+   * with a scheduled job, shown in the stream sidebar. Requires an adapter implementing `getAnalytics`.
+   */
+  analytics?: AnalyticsConfig | boolean
+  /**
+   * Let admins copy the existing videos of a collection that were never streamed, e.g. when
+   * enabling the plugin on a collection with videos, from a button above the list view.
+   * Progress is tracked in a plugin owned `video-stream-backfills` collection.
+   */
+  backfill?: BackfillConfig | boolean
+  /**
+   * Caption tracks of the videos, for adapters supporting them
+   */
+  captions?: CaptionsConfig
+  /**
+   * Let editors cut clips from ready videos into new documents of the same collection.
+   * Requires an adapter implementing `createClip`.
+   */
+  clips?: boolean
   /**
    * List of collections to add a custom field
    */
-  collections?: Partial<Record<CollectionSlug, { adapter?: StreamAdapter } | true>>
+  collections?: Partial<Record<CollectionSlug, true | VideoStreamCollectionConfig>>
   defaultAdapter: StreamAdapter
+  /**
+   * Let editors upload videos from the admin straight to the provider, skipping the Payload storage.
+   * Requires an adapter implementing `createDirectUpload`.
+   */
+  directUploads?: boolean | DirectUploadsConfig
   disabled?: boolean
+  /**
+   * Manage live inputs in a plugin owned `live-inputs` collection.
+   * Requires an adapter implementing `createLiveInput`.
+   */
+  liveInputs?: boolean | LiveInputsConfig
+  /**
+   * Import the recordings of live inputs into an upload collection with a scheduled job.
+   * Requires an adapter implementing `listLiveInputRecordings`.
+   */
+  liveRecordings?: LiveRecordingsConfig
+  /**
+   * Check the minutes left on the account before copying videos, refusing or queueing them
+   * once the quota is used up, and add a streaming usage dashboard.
+   * Requires an adapter implementing `getStorageUsage`.
+   */
+  quota?: boolean | QuotaConfig
+  /**
+   * Compare the video documents with the videos of the providers on a schedule, reporting
+   * orphaned videos, missing videos and stale statuses in a plugin owned `video-stream-drift`
+   * collection and optionally fixing them. Requires an adapter implementing `list`.
+   */
+  reconciliation?: boolean | ReconciliationConfig
   requireSignedURLs?: boolean
+  /**
+   * Backoff between the status checks of processing videos and how long they may process
+   */
+  statusPolling?: StatusPollingConfig
+  /**
+   * Manage watermark profiles in a plugin owned upload collection and burn them into copied videos.
+   * Requires an adapter implementing `createWatermark`.
+   */
+  watermarks?: boolean
 }
 
 export const videoStream =
@@ -23,6 +153,14 @@ export const videoStream =
 
     const { collections, defaultAdapter } = pluginOptions
 
+    const streamCollections: StreamCollection[] = []
+
+    const quota: QuotaConfig | undefined = pluginOptions.quota
+      ? typeof pluginOptions.quota === 'object'
+        ? pluginOptions.quota
+        : {}
+      : undefined
+
     if (collections) {
       for (const collectionSlug in collections) {
         const collection = config.collections.find(
@@ -37,8 +175,90 @@ export const videoStream =
               ? collectionOptions.adapter
               : defaultAdapter
 
+          const directUploadsOption =
+            typeof collectionOptions != 'boolean' && collectionOptions?.directUploads !== undefined
+              ? collectionOptions.directUploads
+              : pluginOptions.directUploads
+
+          const directUploads = directUploadsOption
+            ? typeof directUploadsOption === 'object'
+              ? directUploadsOption
+              : {}
+            : undefined
+
+          const clips =
+            (typeof collectionOptions != 'boolean' && collectionOptions?.clips !== undefined
+              ? collectionOptions.clips
+              : pluginOptions.clips) && 'createClip' in adapter
+
+          const watermark =
+            pluginOptions.watermarks && typeof collectionOptions != 'boolean'
+              ? collectionOptions?.watermark
+              : undefined
+
+          streamCollections.push({
+            slug: collectionSlug,
+            adapter,
+            clips,
+            directUploads,
+            watermark,
+          })
+
+          if (directUploads || clips) {
+            // documents uploaded directly to the provider and clips don't have a file
+            collection.upload = {
+              ...(typeof collection.upload === 'object' ? collection.upload : {}),
+              filesRequiredOnCreate: false,
+            }
+          }
+
+          if (directUploads) {
+            // inject direct upload field
+            collection.fields.push(directUploadField({ adapter, collectionSlug, directUploads }))
+          }
+
           // inject stream field
-          collection.fields.push(streamField({ adapter }))
+          collection.fields.push(
+            streamField({
+              adapter,
+              analytics: Boolean(pluginOptions.analytics),
+              captions: pluginOptions.captions,
+              clips,
+              collectionSlug,
+              liveRecordings:
+                pluginOptions.liveRecordings?.collection === collectionSlug &&
+                'listLiveInputRecordings' in adapter,
+              quota: Boolean(quota) && 'getStorageUsage' in adapter,
+              watermarks: pluginOptions.watermarks,
+            }),
+          )
+
+          if (pluginOptions.backfill) {
+            // inject backfill button above the list view
+            collection.admin = {
+              ...collection.admin,
+              components: {
+                ...collection.admin?.components,
+                beforeListTable: [
+                  ...(collection.admin?.components?.beforeListTable || []),
+                  backfillButton(collectionSlug),
+                ],
+              },
+            }
+          }
+
+          // list views show the poster frame chosen on the provider
+          if (collection.upload) {
+            const upload = typeof collection.upload === 'object' ? collection.upload : {}
+
+            if (upload.adminThumbnail === undefined) {
+              collection.upload = {
+                ...upload,
+                adminThumbnail: ({ doc }) =>
+                  (doc.stream as StreamFieldData | undefined)?.thumbnailUrl || null,
+              }
+            }
+          }
 
           const afterOperationHooks = collection.hooks?.afterOperation || []
 
@@ -52,16 +272,9 @@ export const videoStream =
 
           // inject copy video hook
           afterOperationHooks.push(
-            // this will copy the video to the streaming service after fetching the document by ID
+            // this will queue the job copying the video to the streaming service after creating the document
             // when the video is not yet ready to stream
-            copyVideo(
-              adapter,
-              collectionSlug,
-              // if the upload adapter requires signed URLs to access the video,
-              // we need to fetch a signed URL before copying the video
-              // e.g. S3 with private files
-              pluginOptions.requireSignedURLs || false,
-            ),
+            copyVideo(adapter, collectionSlug),
           )
 
           // END INJECT AFTER OPERATION COLLECTION HOOKS
@@ -76,10 +289,45 @@ export const videoStream =
           )
           // END INJECT BEFORE DELETE COLLECTION HOOKS
 
+          // START INJECT BEFORE CHANGE COLLECTION HOOKS
+          const beforeChangeHooks = collection.hooks?.beforeChange || []
+
+          // inject thumbnail hook
+          beforeChangeHooks.push(
+            // this will set the chosen poster frame and animated preview on the streaming service
+            thumbnailHook(adapter),
+          )
+
+          // inject stream state hook
+          beforeChangeHooks.push(
+            // this will store the state of the stream shown and filtered on in list views
+            streamStateHook(),
+          )
+          // END INJECT BEFORE CHANGE COLLECTION HOOKS
+
+          // START INJECT AFTER CHANGE COLLECTION HOOKS
+          const afterChangeHooks = collection.hooks?.afterChange || []
+
+          // inject sync captions hook
+          afterChangeHooks.push(
+            // this will send added, changed and removed caption tracks to the streaming service
+            syncCaptionsHook(adapter, collectionSlug, pluginOptions.captions),
+          )
+
+          // inject replace video hook
+          afterChangeHooks.push(
+            // this will stream the new file when the file of a video is replaced,
+            // swapping the videos once the new one is ready to stream
+            replaceVideoHook(adapter, collectionSlug),
+          )
+          // END INJECT AFTER CHANGE COLLECTION HOOKS
+
           // re-assign hooks
           collection.hooks = {
             ...collection.hooks,
+            afterChange: afterChangeHooks,
             afterOperation: afterOperationHooks,
+            beforeChange: beforeChangeHooks,
             beforeDelete: beforeDeleteHooks,
           }
         }
@@ -98,16 +346,161 @@ export const videoStream =
           }
         }
       }
-      return adapters
+      // collections sharing an adapter get one set of tasks, task slugs have to be unique
+      return [...new Set(adapters)]
+    }
+
+    // signing keys, provider accounts and live input stream keys are not for every user
+    const adminAccess: VideoStreamAccess = pluginOptions.adminAccess ?? (() => false)
+
+    const signingKeyAdapters = getSigningKeyAdapters(getAllAdapters())
+
+    // inject signing keys global
+    if (signingKeyAdapters.length) {
+      config.globals = [...(config.globals || []), signingKeysGlobal(adminAccess)]
     }
 
+    const watermarkAdapters = getWatermarkAdapters(getAllAdapters())
+
+    // inject watermarks collection
+    if (pluginOptions.watermarks && watermarkAdapters.length) {
+      config.collections.push(
+        watermarksCollection({ access: adminAccess, adapters: watermarkAdapters }),
+      )
+    }
+
+    const liveInputsAdapter =
+      typeof pluginOptions.liveInputs === 'object' && pluginOptions.liveInputs.adapter
+        ? pluginOptions.liveInputs.adapter
+        : defaultAdapter
+
+    // inject live inputs collection
+    if (pluginOptions.liveInputs && 'createLiveInput' in liveInputsAdapter) {
+      config.collections.push(
+        liveInputsCollection({ access: adminAccess, adapter: liveInputsAdapter }),
+      )
+    }
+
+    const analyticsOptions =
+      typeof pluginOptions.analytics === 'object' ? pluginOptions.analytics : {}
+
+    const analyticsCollections = streamCollections.filter(
+      ({ adapter }) => 'getAnalytics' in adapter,
+    )
+
+    // inject analytics collection
+    if (pluginOptions.analytics && analyticsCollections.length) {
+      config.collections.push(
+        analyticsCollection({
+          access: adminAccess,
+          collectionSlugs: analyticsCollections.map(({ slug }) => slug),
+        }),
+      )
+    }
+
+    // inject backfills collection
+    if (pluginOptions.backfill && streamCollections.length) {
+      config.collections.push(
+        backfillsCollection({
+          access: adminAccess,
+          collectionSlugs: streamCollections.map(({ slug }) => slug),
+        }),
+      )
+    }
+
+    const reconciliationOptions: ReconciliationConfig =
+      typeof pluginOptions.reconciliation === 'object' ? pluginOptions.reconciliation : {}
+
+    const reconciliationCollections = streamCollections.filter(({ adapter }) => 'list' in adapter)
+
+    // inject reconciliation report collection
+    if (pluginOptions.reconciliation && reconciliationCollections.length) {
+      config.collections.push(
+        reconciliationCollection({
+          access: adminAccess,
+          collectionSlugs: reconciliationCollections.map(({ slug }) => slug),
+        }),
+      )
+    }
+
+    const quotaCollections = streamCollections.filter(({ adapter }) => 'getStorageUsage' in adapter)
+
+    const liveRecordingsCollection = streamCollections.find(
+      ({ slug }) => slug === pluginOptions.liveRecordings?.collection,
+    )
+
     // inject jobs
     config.jobs = {
       ...config.jobs,
       // inject tasks
       tasks: [
         ...(config.jobs?.tasks || []),
-        ...getAllAdapters().map((adapter) => updateStreamStatusTask(adapter)),
+        ...getAllAdapters().map((adapter) =>
+          updateStreamStatusTask(adapter, pluginOptions.statusPolling),
+        ),
+        // copies the files of new and replaced documents, chaining into the status task
+        ...getAllAdapters().map((adapter) =>
+          copyVideoTask(adapter, {
+            quota,
+            requireSignedURLs: pluginOptions.requireSignedURLs || false,
+            streamCollections,
+          }),
+        ),
+        // imports the recordings of the watched live inputs on a schedule
+        ...(pluginOptions.liveRecordings &&
+        liveRecordingsCollection &&
+        'listLiveInputRecordings' in liveRecordingsCollection.adapter
+          ? [
+              importLiveRecordingsTask({
+                adapter: liveRecordingsCollection.adapter,
+                collectionSlug: liveRecordingsCollection.slug,
+                liveInputIds: pluginOptions.liveRecordings.liveInputIds,
+                schedule: pluginOptions.liveRecordings.schedule ?? '*/5 * * * *',
+              }),
+            ]
+          : []),
+        // copies the videos queued while the account quota was used up
+        ...(quota?.onExceeded === 'queue' && quotaCollections.length
+          ? [
+              copyQueuedVideosTask({
+                quota,
+                requireSignedURLs: pluginOptions.requireSignedURLs || false,
+                streamCollections: quotaCollections,
+              }),
+            ]
+          : []),
+        // syncs the daily views of the videos on a schedule
+        ...(pluginOptions.analytics && analyticsCollections.length
+          ? [
+              syncAnalyticsTask({
+                days: analyticsOptions.days ?? 30,
+                schedule: analyticsOptions.schedule ?? '0 2 * * *',
+                streamCollections: analyticsCollections,
+              }),
+            ]
+          : []),
+        // queues the copy of the existing videos of a collection a batch at a time
+        ...(pluginOptions.backfill && streamCollections.length
+          ? [
+              backfillTask({
+                config: typeof pluginOptions.backfill === 'object' ? pluginOptions.backfill : {},
+                streamCollections,
+              }),
+            ]
+          : []),
+        // reports and fixes the drift between the documents and the providers on a schedule
+        ...(pluginOptions.reconciliation && reconciliationCollections.length
+          ? [
+              reconcileTask({
+                config: reconciliationOptions,
+                quota,
+                requireSignedURLs: pluginOptions.requireSignedURLs || false,
+                streamCollections: reconciliationCollections,
+              }),
+            ]
+          : []),
+        // stores the stream state of the videos saved before it existed
+        ...(streamCollections.length ? [streamStateTask({ streamCollections })] : []),
       ],
     }
 
@@ -119,6 +512,89 @@ export const videoStream =
       return config
     }
 
+    // inject endpoints
+    config.endpoints = [
+      ...(config.endpoints || []),
+      // receives status notifications from providers, e.g. /api/video-stream/webhooks/cloudflare_stream
+      webhookEndpoint(streamCollections),
+      // creates one-time upload urls for direct uploads from the admin
+      directUploadEndpoint(streamCollections),
+      resumableUploadEndpoint(streamCollections),
+      directUploadStatusEndpoint(streamCollections),
+      // redirects to a frame of the video for the poster frame scrubber
+      thumbnailEndpoint(streamCollections),
+      // cuts a clip from a ready video into a new document
+      clipEndpoint(streamCollections),
+      // retries the copy, refreshes the status and clears the error of a video
+      ...streamActionEndpoints({ streamCollections }),
+      // create, list and revoke signing keys
+      ...signingKeysEndpoints({ access: adminAccess, adapters: signingKeyAdapters }),
+      // list the videos on the provider accounts, delete or link the orphaned ones
+      ...libraryEndpoints({ access: adminAccess, streamCollections }),
+      // starts and reports the backfill of the existing videos of a collection
+      ...(pluginOptions.backfill
+        ? backfillEndpoints({ access: adminAccess, streamCollections })
+        : []),
+    ]
+
+    const libraryProviders = getLibraryProviders(streamCollections)
+
+    // inject video library view
+    if (libraryProviders.length) {
+      config.admin = {
+        ...config.admin,
+        components: {
+          ...config.admin?.components,
+          afterNavLinks: [
+            ...(config.admin?.components?.afterNavLinks || []),
+            'payload-video-stream/client#StreamLibraryNavLink',
+          ],
+          views: {
+            ...config.admin?.components?.views,
+            videoStreamLibrary: libraryView({ access: adminAccess, providers: libraryProviders }),
+          },
+        },
+      }
+    }
+
+    const usageAdapters = getUsageAdapters(getAllAdapters())
+
+    // inject streaming usage view
+    if (quota && usageAdapters.length) {
+      config.admin = {
+        ...config.admin,
+        components: {
+          ...config.admin?.components,
+          afterNavLinks: [
+            ...(config.admin?.components?.afterNavLinks || []),
+            'payload-video-stream/client#StreamUsageNavLink',
+          ],
+          views: {
+            ...config.admin?.components?.views,
+            videoStreamUsage: usageView({ access: adminAccess, adapters: usageAdapters }),
+          },
+        },
+      }
+    }
+
+    // inject signing keys view
+    if (signingKeyAdapters.length) {
+      config.admin = {
+        ...config.admin,
+        components: {
+          ...config.admin?.components,
+          afterNavLinks: [
+            ...(config.admin?.components?.afterNavLinks || []),
+            'payload-video-stream/client#SigningKeysNavLink',
+          ],
+          views: {
+            ...config.admin?.components?.views,
+            videoStreamSigningKeys: signingKeysView(adminAccess),
+          },
+        },
+      }
+    }
+
     const incomingOnInit = config.onInit
 
     config.onInit = async (payload) => {
@@ -126,6 +602,28 @@ export const videoStream =
       if (incomingOnInit) {
         await incomingOnInit(payload)
       }
+
+      // sign tokens with the keys created from the admin, read again when they are rotated
+      if (signingKeyAdapters.length) {
+        signingKeyService({ payload }).watchActiveKeys(signingKeyAdapters)
+      }
+
+      // list views filter on the stream state, videos saved before it existed get it in the background
+      for (const { slug } of streamCollections) {
+        const { totalDocs } = await payload.count({
+          collection: slug,
+          where: missingStreamStateWhere,
+        })
+
+        if (totalDocs) {
+          await payload.jobs.queue({
+            input: {},
+            queue: 'payloadVideoStream',
+            task: streamStateTaskSlug,
+          })
+          break
+        }
+      }
     }
 
     return config
@@ -0,0 +1,187 @@
+import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { AnalyticsRange, StreamFieldData, VideoAnalytics } from '../adapters/types.js'
+
+import { analyticsCollectionSlug } from '../collections/analytics.js'
+
+type DailyAnalytics = Omit<VideoAnalytics, 'videoId'>
+
+/**
+ * Number of ready documents whose analytics are requested at once
+ */
+const batchSize = 100
+
+/**
+ * Key of the analytics document of a video document
+ *
+ * @param collectionSlug
+ * @param id
+ * @returns
+ */
+export const getAnalyticsDocumentKey = (collectionSlug: string, id: number | string): string => {
+  return `${collectionSlug}:${id}`
+}
+
+/**
+ * Every day of the range ending today, oldest first
+ *
+ * @param days
+ * @param now
+ * @returns
+ */
+export const getAnalyticsDays = (days: number, now = new Date()): string[] => {
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(now)
+    date.setUTCDate(date.getUTCDate() - (days - 1 - index))
+
+    return date.toISOString().slice(0, 10)
+  })
+}
+
+export const analyticsService = ({
+  adapter,
+  req,
+}: {
+  adapter: StreamAdapter
+  req: PayloadRequest
+}) => {
+  /**
+   *
+   * Create or replace the analytics document of a video document
+   *
+   * @param param0
+   */
+  const save = async ({
+    collectionSlug,
+    daily,
+    doc,
+  }: {
+    collectionSlug: string
+    daily: DailyAnalytics[]
+    doc: JsonObject & TypeWithID
+  }): Promise<void> => {
+    const documentKey = getAnalyticsDocumentKey(collectionSlug, doc.id)
+
+    const data = {
+      daily,
+      document: { relationTo: collectionSlug, value: doc.id },
+      documentKey,
+      minutesViewed: daily.reduce((total, { minutesViewed }) => total + minutesViewed, 0),
+      syncedAt: new Date().toISOString(),
+      videoId: (doc.stream as StreamFieldData).videoId,
+      views: daily.reduce((total, { views }) => total + views, 0),
+    }
+
+    const { docs } = await req.payload.find({
+      collection: analyticsCollectionSlug,
+      depth: 0,
+      limit: 1,
+      req,
+      where: {
+        documentKey: {
+          equals: documentKey,
+        },
+      },
+    })
+
+    if (docs[0]) {
+      await req.payload.update({
+        id: docs[0].id,
+        collection: analyticsCollectionSlug,
+        data,
+        depth: 0,
+        req,
+      })
+    } else {
+      await req.payload.create({
+        collection: analyticsCollectionSlug,
+        data,
+        depth: 0,
+        req,
+      })
+    }
+  }
+
+  return {
+    /**
+     *
+     * Sync the daily views of the ready videos of a collection
+     *
+     * @param param0
+     * @returns the number of synced documents
+     */
+    syncCollection: async ({
+      collectionSlug,
+      days,
+      now,
+    }: {
+      collectionSlug: string
+      days: number
+      now?: Date
+    }): Promise<number> => {
+      if (!adapter.getAnalytics) {
+        return 0
+      }
+
+      const dates = getAnalyticsDays(days, now)
+      const range: AnalyticsRange = { since: dates[0] ?? '', until: dates[dates.length - 1] ?? '' }
+
+      let synced = 0
+      let page = 1
+      let hasNextPage = true
+
+      while (hasNextPage) {
+        const result = await req.payload.find({
+          collection: collectionSlug,
+          depth: 0,
+          limit: batchSize,
+          page,
+          req,
+          where: {
+            'stream.provider': {
+              equals: adapter.providerName,
+            },
+            'stream.readyToStream': {
+              equals: true,
+            },
+          },
+        })
+
+        const docs = result.docs.filter((doc) => (doc.stream as StreamFieldData)?.videoId)
+
+        if (docs.length) {
+          const analytics = await adapter.getAnalytics(
+            docs.map((doc) => (doc.stream as StreamFieldData).videoId),
+            range,
+          )
+
+          for (const doc of docs) {
+            const { videoId } = doc.stream as StreamFieldData
+
+            // days without views are stored as zero so every document has the same days
+            const daily = dates.map((date) => {
+              const day = analytics.filter(
+                (candidate) => candidate.videoId === videoId && candidate.date === date,
+              )
+
+              return {
+                date,
+                minutesViewed: day.reduce((total, { minutesViewed }) => total + minutesViewed, 0),
+                views: day.reduce((total, { views }) => total + views, 0),
+              }
+            })
+
+            await save({ collectionSlug, daily, doc })
+            synced++
+          }
+        }
+
+        hasNextPage = result.hasNextPage
+        page++
+      }
+
+      return synced
+    },
+  }
+}
@@ -0,0 +1,258 @@
+import type { JsonObject, PayloadRequest, TypeWithID, Where } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { backfillsCollectionSlug } from '../collections/backfills.js'
+import { backfillTaskSlug } from '../tasks/backfill.js'
+import { streamingService } from './streamingService.js'
+
+/**
+ * Video documents that were never copied to the provider, after the cursor in creation order
+ *
+ * @param cursor creation date and id of the last processed document
+ * @returns
+ */
+export const getBackfillWhere = (cursor?: { createdAt: string; id: string }): Where => {
+  return {
+    and: [
+      {
+        mimeType: {
+          like: 'video/',
+        },
+      },
+      {
+        or: [
+          {
+            'stream.videoId': {
+              exists: false,
+            },
+          },
+          {
+            'stream.videoId': {
+              equals: '',
+            },
+          },
+        ],
+      },
+      // bulk imports create many documents at the same time, one batch can end among them
+      ...(cursor
+        ? [
+            {
+              or: [
+                { createdAt: { greater_than: cursor.createdAt } },
+                {
+                  and: [
+                    { createdAt: { equals: cursor.createdAt } },
+                    { id: { greater_than: cursor.id } },
+                  ],
+                },
+              ],
+            },
+          ]
+        : []),
+    ],
+  }
+}
+
+export const backfillService = ({ req }: { req: PayloadRequest }) => {
+  /**
+   *
+   * Queue the next batch of a backfill
+   *
+   * @param backfillId
+   */
+  const queueBatch = async (backfillId: number | string): Promise<void> => {
+    await req.payload.jobs.queue({
+      input: {
+        backfillId: String(backfillId),
+      },
+      queue: 'payloadVideoStream',
+      task: backfillTaskSlug,
+    })
+  }
+
+  return {
+    /**
+     *
+     * Queue the copy of the next batch of videos of a backfill, queueing the batch after it until all are done
+     *
+     * @param param0
+     * @returns the number of videos processed in the batch
+     */
+    runBatch: async ({
+      backfillId,
+      concurrency,
+      streamCollections,
+    }: {
+      backfillId: string
+      concurrency: number
+      streamCollections: StreamCollection[]
+    }): Promise<number> => {
+      const backfill = await req.payload.findByID({
+        id: backfillId,
+        collection: backfillsCollectionSlug,
+        depth: 0,
+        req,
+      })
+
+      if (backfill.status !== 'running') {
+        return 0
+      }
+
+      const streamCollection = streamCollections.find(({ slug }) => slug === backfill.collection)
+
+      try {
+        if (!streamCollection) {
+          throw new Error(`Streaming is not enabled for ${backfill.collection}`)
+        }
+
+        const { slug: collectionSlug, adapter } = streamCollection
+        const service = streamingService({ adapter, req })
+
+        const { docs, hasNextPage } = await req.payload.find({
+          collection: collectionSlug,
+          depth: 0,
+          limit: concurrency,
+          req,
+          sort: ['createdAt', 'id'],
+          where: getBackfillWhere(
+            backfill.cursor ? { id: backfill.cursorId, createdAt: backfill.cursor } : undefined,
+          ),
+        })
+
+        const last = docs[docs.length - 1]
+
+        const results = await Promise.all(
+          docs.map(async (doc: JsonObject & TypeWithID) => {
+            // videos queued by the quota guard are copied by its own job
+            if (doc.stream?.waitingForQuota) {
+              return { queued: false, waitingForQuota: true }
+            }
+
+            // every video is copied by its own job, retried on its own when the copy fails,
+            // the job signs the file url itself when the collection requires signed urls
+            try {
+              await service.queueCopyVideoTask({ collectionSlug, doc })
+
+              return { queued: true, waitingForQuota: false }
+            } catch (error) {
+              req.payload.logger.error({
+                id: doc.id,
+                collectionSlug,
+                err: error,
+                msg: 'Error queueing the copy of a backfilled video',
+              })
+
+              return { queued: false, waitingForQuota: false }
+            }
+          }),
+        )
+
+        await req.payload.update({
+          id: backfill.id,
+          collection: backfillsCollectionSlug,
+          data: {
+            cursor: last?.createdAt ?? backfill.cursor,
+            cursorId: last ? String(last.id) : backfill.cursorId,
+            failed:
+              (backfill.failed ?? 0) +
+              results.filter(({ queued, waitingForQuota }) => !queued && !waitingForQuota).length,
+            finishedAt: hasNextPage ? undefined : new Date().toISOString(),
+            processed: (backfill.processed ?? 0) + docs.length,
+            queued: (backfill.queued ?? 0) + results.filter(({ queued }) => queued).length,
+            status: hasNextPage ? 'running' : 'completed',
+            waitingForQuota:
+              (backfill.waitingForQuota ?? 0) +
+              results.filter(({ waitingForQuota }) => waitingForQuota).length,
+          },
+          depth: 0,
+          req,
+        })
+
+        if (hasNextPage) {
+          await queueBatch(backfill.id)
+        }
+
+        return docs.length
+      } catch (error) {
+        req.payload.logger.error({ backfillId, err: error, msg: 'Error running video backfill' })
+
+        // starting a new backfill picks up the videos that are left
+        await req.payload.update({
+          id: backfill.id,
+          collection: backfillsCollectionSlug,
+          data: {
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: new Date().toISOString(),
+            status: 'failed',
+          },
+          depth: 0,
+          req,
+        })
+
+        return 0
+      }
+    },
+
+    /**
+     *
+     * Start copying the videos of a collection that were never copied to the provider
+     *
+     * @param collectionSlug
+     * @returns the running backfill of the collection when there is one, otherwise the started one
+     */
+    start: async (
+      collectionSlug: string,
+    ): Promise<{ backfill: JsonObject & TypeWithID; started: boolean }> => {
+      const { docs } = await req.payload.find({
+        collection: backfillsCollectionSlug,
+        depth: 0,
+        limit: 1,
+        req,
+        where: {
+          collection: {
+            equals: collectionSlug,
+          },
+          status: {
+            equals: 'running',
+          },
+        },
+      })
+
+      if (docs[0]) {
+        return { backfill: docs[0], started: false }
+      }
+
+      const { totalDocs } = await req.payload.count({
+        collection: collectionSlug,
+        req,
+        where: getBackfillWhere(),
+      })
+
+      const backfill = await req.payload.create({
+        collection: backfillsCollectionSlug,
+        data: {
+          collection: collectionSlug,
+          finishedAt: totalDocs ? undefined : new Date().toISOString(),
+          startedAt: new Date().toISOString(),
+          status: totalDocs ? 'running' : 'completed',
+          total: totalDocs,
+        },
+        depth: 0,
+        req,
+      })
+
+      if (totalDocs) {
+        await queueBatch(backfill.id)
+      }
+
+      req.payload.logger.info({
+        collectionSlug,
+        msg: 'Started video backfill',
+        total: totalDocs,
+      })
+
+      return { backfill, started: true }
+    },
+  }
+}
@@ -1 +1,5 @@
+export * from './analyticsService.js'
+export * from './backfillService.js'
+export * from './liveRecordingService.js'
+export * from './reconciliationService.js'
 export * from './streamingService.js'
@@ -0,0 +1,151 @@
+import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { LiveInput, LiveInputStatus } from '../adapters/types.js'
+
+import { liveInputsCollectionSlug } from '../collections/liveInputs.js'
+
+/**
+ * Context flag set when the plugin writes the provider data of a live input, so the write does not sync again
+ */
+export const skipLiveInputSyncContext = 'videoStreamSkipLiveInputSync'
+
+/**
+ * Map a live input of the provider to the fields stored on the document
+ *
+ * @param liveInput
+ * @returns
+ */
+const liveInputData = (liveInput: LiveInput) => {
+  return {
+    ingest: {
+      rtmpsStreamKey: liveInput.rtmps?.streamKey,
+      rtmpsUrl: liveInput.rtmps?.url,
+      srtPassphrase: liveInput.srt?.passphrase,
+      srtStreamId: liveInput.srt?.streamId,
+      srtUrl: liveInput.srt?.url,
+      webRTCUrl: liveInput.webRTC?.url,
+    },
+    liveInputId: liveInput.id,
+    status: liveInput.status,
+  }
+}
+
+export const liveInputService = ({
+  adapter,
+  req,
+}: {
+  adapter: StreamAdapter
+  req: PayloadRequest
+}) => {
+  /**
+   *
+   * Write provider data to a live input document
+   *
+   * @param id
+   * @param data
+   */
+  const save = async (id: number | string, data: JsonObject): Promise<void> => {
+    await req.payload.update({
+      id,
+      collection: liveInputsCollectionSlug,
+      context: {
+        [skipLiveInputSyncContext]: true,
+      },
+      data,
+      depth: 0,
+      req,
+    })
+  }
+
+  return {
+    /**
+     *
+     * Delete the live input of a document from the streaming platform
+     *
+     * @param doc
+     */
+    delete: async (doc: JsonObject & TypeWithID): Promise<void> => {
+      if (!doc.liveInputId) {
+        return
+      }
+
+      try {
+        req.payload.logger.info({ liveInputId: doc.liveInputId, msg: 'Deleting live input' })
+
+        await adapter.deleteLiveInput?.(doc.liveInputId)
+      } catch (error) {
+        req.payload.logger.error({ err: error, msg: 'Error deleting live input' })
+      }
+    },
+
+    /**
+     *
+     * Create the live input of a new document, or update it when its settings changed
+     *
+     * @param param0
+     */
+    sync: async ({
+      doc,
+      previousDoc,
+    }: {
+      doc: JsonObject & TypeWithID
+      previousDoc?: JsonObject
+    }): Promise<void> => {
+      const params = {
+        meta: { name: doc.name },
+        recording: doc.recording !== false,
+      }
+
+      try {
+        let liveInput: LiveInput | undefined
+
+        if (!doc.liveInputId) {
+          req.payload.logger.info({ id: doc.id, msg: 'Creating live input' })
+
+          liveInput = await adapter.createLiveInput?.(params)
+        } else if (doc.name !== previousDoc?.name || doc.recording !== previousDoc?.recording) {
+          req.payload.logger.info({ liveInputId: doc.liveInputId, msg: 'Updating live input' })
+
+          liveInput = await adapter.updateLiveInput?.(doc.liveInputId, params)
+        }
+
+        if (liveInput) {
+          await save(doc.id, { ...liveInputData(liveInput), error: '' })
+        }
+      } catch (error) {
+        req.payload.logger.error({ err: error, msg: 'Error syncing live input' })
+
+        await save(doc.id, {
+          error: error instanceof Error ? error.message : 'Error syncing live input',
+        })
+      }
+    },
+
+    /**
+     *
+     * Update the connection status of a live input document
+     *
+     * @param doc
+     * @returns the current status
+     */
+    updateStatus: async (doc: JsonObject & TypeWithID): Promise<LiveInputStatus | undefined> => {
+      if (!doc.liveInputId || !adapter.getLiveInput) {
+        return doc.status
+      }
+
+      try {
+        const { status } = await adapter.getLiveInput(doc.liveInputId)
+
+        if (status !== doc.status) {
+          await save(doc.id, { status })
+        }
+
+        return status
+      } catch (error) {
+        req.payload.logger.error({ err: error, msg: 'Error fetching live input status' })
+        return doc.status
+      }
+    },
+  }
+}
@@ -0,0 +1,143 @@
+import type { PayloadRequest } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { LiveRecording, StreamFieldData } from '../adapters/types.js'
+
+import { getUniqueFilename } from '../utils/filename.js'
+import { initialStreamData } from './streamingService.js'
+
+export const liveRecordingService = ({
+  adapter,
+  req,
+}: {
+  adapter: StreamAdapter
+  req: PayloadRequest
+}) => {
+  /**
+   *
+   * Create the document of a recording with its stream fields filled in
+   *
+   * @param param0
+   */
+  const createDocument = async ({
+    collectionSlug,
+    recording,
+  }: {
+    collectionSlug: string
+    recording: LiveRecording
+  }): Promise<void> => {
+    const name = recording.meta?.name || `recording-${recording.liveInputId}`
+
+    req.payload.logger.info({
+      collectionSlug,
+      liveInputId: recording.liveInputId,
+      msg: 'Importing live recording',
+      videoId: recording.videoId,
+    })
+
+    await req.payload.create({
+      collection: collectionSlug,
+      data: {
+        filename: getUniqueFilename(
+          /\.[^.]+$/.test(name) ? name : `${name}.mp4`,
+          recording.videoId,
+        ),
+        filesize: recording.size,
+        mimeType: 'video/mp4',
+        stream: {
+          ...initialStreamData(adapter, recording),
+          durationInSeconds: recording.durationInSeconds,
+          height: recording.height,
+          liveInputId: recording.liveInputId,
+          readyToStreamAt: recording.readyToStreamAt,
+          recordedAt: recording.created,
+          size: recording.size,
+          width: recording.width,
+        } satisfies Partial<StreamFieldData>,
+      },
+      depth: 0,
+      req,
+    })
+  }
+
+  return {
+    /**
+     *
+     * Import the finished recordings of live inputs that have no document yet
+     *
+     * @param param0
+     * @returns the number of imported recordings
+     */
+    importRecordings: async ({
+      collectionSlug,
+      liveInputIds,
+    }: {
+      collectionSlug: string
+      liveInputIds: string[]
+    }): Promise<number> => {
+      if (!adapter.listLiveInputRecordings) {
+        return 0
+      }
+
+      let imported = 0
+
+      for (const liveInputId of liveInputIds) {
+        let recordings: LiveRecording[]
+
+        try {
+          recordings = await adapter.listLiveInputRecordings(liveInputId)
+        } catch (error) {
+          req.payload.logger.error({
+            err: error,
+            liveInputId,
+            msg: 'Error listing live recordings',
+          })
+          continue
+        }
+
+        // recordings become ready once the broadcast ended and the video was processed
+        const ready = recordings.filter(({ readyToStream }) => readyToStream)
+
+        if (!ready.length) {
+          continue
+        }
+
+        const { docs } = await req.payload.find({
+          collection: collectionSlug,
+          depth: 0,
+          pagination: false,
+          req,
+          where: {
+            'stream.videoId': {
+              in: ready.map(({ videoId }) => videoId),
+            },
+          },
+        })
+
+        const existing = new Set(
+          docs.map(({ stream }) => (stream as StreamFieldData | undefined)?.videoId),
+        )
+
+        for (const recording of ready) {
+          if (existing.has(recording.videoId)) {
+            continue
+          }
+
+          try {
+            await createDocument({ collectionSlug, recording })
+            imported++
+          } catch (error) {
+            req.payload.logger.error({
+              err: error,
+              liveInputId,
+              msg: 'Error importing live recording',
+              videoId: recording.videoId,
+            })
+          }
+        }
+      }
+
+      return imported
+    },
+  }
+}
@@ -0,0 +1,445 @@
+import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { StreamFieldData, StreamResponse } from '../adapters/types.js'
+import type { QuotaConfig, ReconciliationConfig, StreamCollection } from '../types.js'
+
+import { reconciliationCollectionSlug } from '../collections/reconciliation.js'
+import { isTerminalStatus, streamingService } from './streamingService.js'
+
+type ProviderVideo = NonNullable<StreamResponse['result']>
+
+type DriftIssue = {
+  collectionSlug?: string
+  detail: string
+  doc?: JsonObject & TypeWithID
+  key: string
+  type: 'missing' | 'orphan' | 'stale'
+  video?: ProviderVideo
+  videoId?: string
+}
+
+export type ReconciliationResult = {
+  fixed: number
+  missing: number
+  orphans: number
+  stale: number
+}
+
+/**
+ * Number of videos and documents read at once
+ */
+const batchSize = 100
+
+/**
+ * State of a video as shown in the report
+ *
+ * @param readyToStream
+ * @param failed
+ * @returns
+ */
+const describeState = (readyToStream?: boolean, failed?: boolean): string => {
+  return readyToStream ? 'ready' : failed ? 'failed' : 'processing'
+}
+
+/**
+ * Whether the streaming service stores an error for the video, see `updateStatusFromResponse`
+ *
+ * @param video
+ * @returns
+ */
+const isFailed = (video: ProviderVideo): boolean => {
+  return Boolean(video.status?.errorReasonText) || isTerminalStatus(video.status)
+}
+
+/**
+ * Whether the stream fields of a document no longer match the video on the provider
+ *
+ * @param stream
+ * @param video
+ * @returns
+ */
+const isStale = (stream: StreamFieldData, video: ProviderVideo): boolean => {
+  if (Boolean(stream.readyToStream) !== video.readyToStream) {
+    return true
+  }
+
+  if (isFailed(video)) {
+    return !stream.error
+  }
+
+  // errors of the plugin itself, like the polling timeout, stay while the video is processing
+  return video.readyToStream && Boolean(stream.error)
+}
+
+export const reconciliationService = ({
+  adapter,
+  req,
+}: {
+  adapter: StreamAdapter
+  req: PayloadRequest
+}) => {
+  const provider = adapter.providerName
+
+  /**
+   *
+   * List every video of the provider account
+   *
+   * @returns the videos by their ID
+   */
+  const listVideos = async (): Promise<Map<string, ProviderVideo>> => {
+    const videos = new Map<string, ProviderVideo>()
+
+    let cursor: string | undefined
+
+    do {
+      const page = (await adapter.list?.({ cursor, limit: batchSize })) ?? { videos: [] }
+
+      for (const video of page.videos) {
+        videos.set(video.videoId, video)
+      }
+
+      cursor = page.nextCursor
+    } while (cursor)
+
+    return videos
+  }
+
+  /**
+   *
+   * Compare the video documents of the collections with the videos of the provider,
+   * collections of other adapters of the provider only link videos as the list covers the whole account
+   *
+   * @param param0
+   * @returns
+   */
+  const findIssues = async ({
+    streamCollections,
+    videos,
+  }: {
+    streamCollections: StreamCollection[]
+    videos: Map<string, ProviderVideo>
+  }): Promise<DriftIssue[]> => {
+    const issues: DriftIssue[] = []
+    const linked = new Set<string>()
+
+    for (const streamCollection of streamCollections) {
+      if (streamCollection.adapter.providerName !== provider) {
+        continue
+      }
+
+      const { slug: collectionSlug } = streamCollection
+      const compared = streamCollection.adapter === adapter
+      let page = 1
+      let hasNextPage = true
+
+      while (hasNextPage) {
+        const result = await req.payload.find({
+          collection: collectionSlug,
+          depth: 0,
+          limit: batchSize,
+          page,
+          req,
+        })
+
+        for (const doc of result.docs) {
+          const stream = doc.stream as StreamFieldData | undefined
+
+          if (
+            !stream ||
+            !doc.mimeType?.startsWith('video/') ||
+            (stream.provider && stream.provider !== provider)
+          ) {
+            continue
+          }
+
+          const key = `${provider}:${collectionSlug}:${doc.id}`
+
+          // the video of a replaced file is linked until it takes over from the current video
+          if (stream.replacementVideoId) {
+            linked.add(stream.replacementVideoId)
+          }
+
+          if (stream.videoId) {
+            linked.add(stream.videoId)
+          }
+
+          // the documents of the other adapters are reconciled with their own video list
+          if (!compared) {
+            continue
+          }
+
+          if (stream.videoId) {
+            const video = videos.get(stream.videoId)
+
+            if (!video) {
+              issues.push({
+                type: 'missing',
+                collectionSlug,
+                detail: `Video ${stream.videoId} no longer exists on ${provider}`,
+                doc,
+                key: `missing:${key}`,
+                videoId: stream.videoId,
+              })
+            } else if (isStale(stream, video)) {
+              issues.push({
+                type: 'stale',
+                collectionSlug,
+                detail: `The document shows the video as ${describeState(stream.readyToStream, Boolean(stream.error))} while it is ${describeState(video.readyToStream, isFailed(video))} on ${provider}`,
+                doc,
+                key: `stale:${key}`,
+                video,
+                videoId: stream.videoId,
+              })
+            }
+          } else if (stream.error && !stream.waitingForQuota) {
+            // failed copies leave the stream group without a video
+            issues.push({
+              type: 'missing',
+              collectionSlug,
+              detail: `The video was never copied to ${provider}: ${stream.error}`,
+              doc,
+              key: `missing:${key}`,
+            })
+          }
+        }
+
+        hasNextPage = result.hasNextPage
+        page++
+      }
+    }
+
+    for (const video of videos.values()) {
+      // recordings of live inputs are linked to the live input, not to a document
+      if (!linked.has(video.videoId) && !video.liveInputId) {
+        issues.push({
+          type: 'orphan',
+          detail: `${video.meta?.name || 'The video'} is linked to no document`,
+          key: `orphan:${provider}:${video.videoId}`,
+          video,
+          videoId: video.videoId,
+        })
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   *
+   * Fix an issue when its auto-fix is enabled
+   *
+   * @param param0
+   * @returns the action taken, undefined when the issue was left as is
+   */
+  const fix = async ({
+    config,
+    firstSeenAt,
+    issue,
+    now,
+    quota,
+    requireSignedURLs,
+    streamCollections,
+  }: {
+    config: ReconciliationConfig
+    firstSeenAt: Date
+    issue: DriftIssue
+    now: Date
+    quota?: QuotaConfig
+    requireSignedURLs: boolean
+    streamCollections: StreamCollection[]
+  }): Promise<string | undefined> => {
+    const { type, collectionSlug, doc, video, videoId } = issue
+    const service = streamingService({ adapter, req })
+
+    try {
+      if (type === 'orphan' && config.autoFix?.orphans && videoId) {
+        const gracePeriodMs = (config.orphanGracePeriodHours ?? 24) * 60 * 60 * 1000
+
+        if (now.getTime() - firstSeenAt.getTime() < gracePeriodMs) {
+          return undefined
+        }
+
+        await adapter.delete(videoId)
+
+        return 'Deleted from the provider'
+      }
+
+      if (type === 'missing' && config.autoFix?.missing && collectionSlug && doc) {
+        // clear the dead video and the copy error so the document shows the new copy
+        await req.payload.update({
+          id: doc.id,
+          collection: collectionSlug,
+          data: {
+            stream: { error: '', readyToStream: false, thumbnailUrl: '', videoId: '' },
+          },
+          depth: 0,
+          req,
+        })
+
+        const { success } = await service.copyVideoToStreamingPlatform({
+          collectionSlug,
+          defaultWatermark: streamCollections.find(({ slug }) => slug === collectionSlug)
+            ?.watermark,
+          doc,
+          quota,
+          requireSignedURLs,
+        })
+
+        if (!success) {
+          return undefined
+        }
+
+        await service.queueUpdateStatusTask({ collectionSlug, documentId: doc.id as string })
+
+        return 'Copied again'
+      }
+
+      if (type === 'stale' && config.autoFix?.stale && collectionSlug && doc && video) {
+        await service.updateStatusFromResponse({
+          collectionSlug,
+          doc,
+          response: { result: video, success: true },
+        })
+
+        return 'Status refreshed'
+      }
+    } catch (error) {
+      req.payload.logger.error({ err: error, issue: issue.key, msg: 'Error fixing stream drift' })
+    }
+
+    return undefined
+  }
+
+  return {
+    /**
+     *
+     * Report the drift between the collections and the provider, fixing it when enabled.
+     * Issues that are gone are removed from the report.
+     *
+     * @param param0
+     * @returns the number of issues found by type and the number of fixed ones
+     */
+    reconcile: async ({
+      config,
+      now = new Date(),
+      quota,
+      requireSignedURLs,
+      streamCollections,
+    }: {
+      config: ReconciliationConfig
+      now?: Date
+      quota?: QuotaConfig
+      requireSignedURLs: boolean
+      /**
+       * Every reconciled collection, the ones using this adapter are compared with its videos
+       */
+      streamCollections: StreamCollection[]
+    }): Promise<ReconciliationResult> => {
+      const result: ReconciliationResult = { fixed: 0, missing: 0, orphans: 0, stale: 0 }
+
+      if (!adapter.list) {
+        return result
+      }
+
+      // a partial list would report linked videos as missing, so listing errors fail the run
+      const videos = await listVideos()
+      const issues = await findIssues({ streamCollections, videos })
+
+      const { docs: reported } = await req.payload.find({
+        collection: reconciliationCollectionSlug,
+        depth: 0,
+        pagination: false,
+        req,
+        where: {
+          provider: {
+            equals: provider,
+          },
+        },
+      })
+
+      const reportedByKey = new Map(reported.map((doc) => [doc.issueKey as string, doc]))
+
+      for (const issue of issues) {
+        const existing = reportedByKey.get(issue.key)
+        const firstSeenAt = existing?.firstSeenAt ? new Date(existing.firstSeenAt as string) : now
+
+        reportedByKey.delete(issue.key)
+
+        const action = await fix({
+          config,
+          firstSeenAt,
+          issue,
+          now,
+          quota,
+          requireSignedURLs,
+          streamCollections,
+        })
+
+        const data = {
+          type: issue.type,
+          detail: issue.detail,
+          document:
+            issue.collectionSlug && issue.doc
+              ? { relationTo: issue.collectionSlug, value: issue.doc.id }
+              : null,
+          firstSeenAt: firstSeenAt.toISOString(),
+          fix: action ?? null,
+          fixedAt: action ? now.toISOString() : null,
+          issueKey: issue.key,
+          lastSeenAt: now.toISOString(),
+          provider,
+          videoId: issue.videoId ?? null,
+        }
+
+        if (existing) {
+          await req.payload.update({
+            id: existing.id,
+            collection: reconciliationCollectionSlug,
+            data,
+            depth: 0,
+            req,
+          })
+        } else {
+          await req.payload.create({
+            collection: reconciliationCollectionSlug,
+            data,
+            depth: 0,
+            req,
+          })
+        }
+
+        if (action) {
+          result.fixed++
+        }
+
+        result[issue.type === 'orphan' ? 'orphans' : issue.type]++
+      }
+
+      const compared = new Set(
+        streamCollections
+          .filter((collection) => collection.adapter === adapter)
+          .map(({ slug }) => slug),
+      )
+
+      // issues reported by a previous run that are gone now,
+      // the documents of the other adapters of the provider are reported by their own runs
+      for (const doc of reportedByKey.values()) {
+        const relationTo = (doc.document as { relationTo?: string } | null)?.relationTo
+
+        if (relationTo && !compared.has(relationTo)) {
+          continue
+        }
+
+        await req.payload.delete({
+          id: doc.id,
+          collection: reconciliationCollectionSlug,
+          depth: 0,
+          req,
+        })
+      }
+
+      return result
+    },
+  }
+}
@@ -0,0 +1,154 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { SigningKey } from '../adapters/types.js'
+
+import { signingKeysGlobalSlug } from '../globals/signingKeys.js'
+
+type StoredSigningKey = {
+  activatedAt?: string
+  keyId: string
+  privateKey: string
+  provider: string
+}
+
+/**
+ * Seconds the adapters sign with the stored keys before reading the global again,
+ * every server process signs with a rotated key after that
+ */
+export const signingKeyMaxAgeSeconds = 60
+
+/**
+ * Decrypted keys the adapters sign with by Payload instance, decrypted again once the global changed
+ */
+const activeKeysCache = new WeakMap<
+  Payload,
+  { checkedAt: number; keys: Map<string, SigningKey>; updatedAt?: string }
+>()
+
+export const signingKeyService = ({ payload, req }: { payload: Payload; req?: PayloadRequest }) => {
+  const getGlobal = async (): Promise<{ keys: StoredSigningKey[]; updatedAt?: string }> => {
+    const global = await payload.findGlobal({
+      slug: signingKeysGlobalSlug,
+      depth: 0,
+      req,
+      showHiddenFields: true,
+    })
+
+    return {
+      keys: (global.keys as StoredSigningKey[] | undefined) ?? [],
+      updatedAt: global.updatedAt as string | undefined,
+    }
+  }
+
+  const getStoredKeys = async (): Promise<StoredSigningKey[]> => {
+    return (await getGlobal()).keys
+  }
+
+  /**
+   *
+   * Get the active key of a provider, the global is read at most once per max age
+   *
+   * @param provider
+   */
+  const loadActiveKey = async (provider: string): Promise<null | SigningKey> => {
+    const now = Date.now()
+    let cached = activeKeysCache.get(payload)
+
+    if (!cached || now - cached.checkedAt >= signingKeyMaxAgeSeconds * 1000) {
+      const { keys, updatedAt } = await getGlobal()
+
+      cached =
+        cached && cached.updatedAt === updatedAt
+          ? { ...cached, checkedAt: now }
+          : {
+              checkedAt: now,
+              keys: new Map(
+                keys.map((key) => [
+                  key.provider,
+                  { id: key.keyId, pem: payload.decrypt(key.privateKey) },
+                ]),
+              ),
+              updatedAt,
+            }
+
+      activeKeysCache.set(payload, cached)
+    }
+
+    return cached.keys.get(provider) ?? null
+  }
+
+  return {
+    /**
+     *
+     * Get the active signing key ID of a provider and when it became active
+     *
+     * @param provider
+     */
+    getActiveKey: async (
+      provider: string,
+    ): Promise<{ activatedAt?: string; keyId: string } | null> => {
+      const keys = await getStoredKeys()
+      const stored = keys.find((key) => key.provider === provider)
+
+      return stored ? { activatedAt: stored.activatedAt, keyId: stored.keyId } : null
+    },
+
+    /**
+     *
+     * Get the active signing key ID of a provider
+     *
+     * @param provider
+     */
+    getActiveKeyId: async (provider: string): Promise<null | string> => {
+      const keys = await getStoredKeys()
+
+      return keys.find((key) => key.provider === provider)?.keyId ?? null
+    },
+
+    loadActiveKey,
+
+    /**
+     *
+     * Store the signing key of a provider encrypted, or remove it
+     *
+     * @param provider
+     * @param signingKey
+     */
+    setActiveKey: async (provider: string, signingKey: null | SigningKey): Promise<void> => {
+      const keys = (await getStoredKeys()).filter((key) => key.provider !== provider)
+
+      if (signingKey) {
+        keys.push({
+          activatedAt: new Date().toISOString(),
+          keyId: signingKey.id,
+          privateKey: payload.encrypt(signingKey.pem),
+          provider,
+        })
+      }
+
+      await payload.updateGlobal({
+        slug: signingKeysGlobalSlug,
+        data: { keys },
+        depth: 0,
+        req,
+      })
+
+      // this process signs with the new key right away
+      activeKeysCache.delete(payload)
+    },
+
+    /**
+     *
+     * Let the adapters supporting signing keys read the stored key when they sign,
+     * a key created from the admin of any server process is used by all of them
+     *
+     * @param adapters
+     */
+    watchActiveKeys: (adapters: StreamAdapter[]): void => {
+      for (const adapter of adapters) {
+        adapter.setSigningKeyLoader?.(() => loadActiveKey(adapter.providerName))
+      }
+    },
+  }
+}
@@ -1,34 +1,88 @@
 import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
-import type { StreamResponse } from 'src/adapters/types.js'
+import type { StreamCaption, StreamResponse } from 'src/adapters/types.js'
 
 import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { StorageUsage } from '../adapters/types.js'
+import type { QuotaConfig } from '../types.js'
 
-const getVideoUrl = async (
-  req: PayloadRequest,
-  doc: JsonObject & TypeWithID,
-  requireSignedURLs?: boolean,
-): Promise<string> => {
-  let videoUrl = doc.url
+import { getFileUrl } from '../utils/fileUrl.js'
+import { watermarkService } from './watermarkService.js'
 
-  // when videoUrl doesn't start with protocol e.g http or https, prepend host
-  if (!/^https?:\/\//i.test(videoUrl)) {
-    videoUrl = `${req.protocol}//${req.host}${doc.url}`
-  }
+/**
+ * Context flag set when the plugin writes caption statuses, so the write does not sync again
+ */
+export const skipCaptionSyncContext = 'videoStreamSkipCaptionSync'
 
-  if (requireSignedURLs) {
-    // get signed URL for video
-    const signedVideoUrl = await fetch(videoUrl, {
-      headers: {
-        accept: 'application/json',
-        cookie: req.headers.get('cookie') || '',
-      },
-      method: 'GET',
-      redirect: 'manual',
-    }).then((r) => r.headers.get('location') || '')
-    videoUrl = signedVideoUrl
-  }
+const getRelationId = (value: StreamCaption['file']): null | number | string => {
+  return value && typeof value === 'object' ? value.id : (value ?? null)
+}
 
-  return videoUrl
+/**
+ * Whether a caption track has to be (re-)sent to the provider
+ *
+ * @param caption
+ * @param previous the same array row before the change
+ * @returns
+ */
+const isCaptionChanged = (caption: StreamCaption, previous?: StreamCaption): boolean => {
+  return (
+    !previous ||
+    !caption.status ||
+    caption.status === 'pending' ||
+    previous.language !== caption.language ||
+    previous.label !== caption.label ||
+    previous.source !== caption.source ||
+    previous.vtt !== caption.vtt ||
+    getRelationId(previous.file) !== getRelationId(caption.file)
+  )
+}
+
+/**
+ * Whether the file of a document was replaced by an update
+ *
+ * @param doc
+ * @param previousDoc
+ * @returns
+ */
+export const isFileReplaced = (doc: JsonObject, previousDoc?: JsonObject): boolean => {
+  return (
+    Boolean(doc.filename) &&
+    (doc.filename !== previousDoc?.filename ||
+      doc.filesize !== previousDoc?.filesize ||
+      doc.url !== previousDoc?.url)
+  )
+}
+
+/**
+ * Whether the provider gave up processing a video, polling its status again won't change it
+ *
+ * @param status
+ * @returns
+ */
+export const isTerminalStatus = (
+  status?: NonNullable<StreamResponse['result']>['status'],
+): boolean => {
+  return status?.state === 'error' || Boolean(status?.errorReasonCode)
+}
+
+/**
+ * Map the provider response of a newly added video to the stream fields stored right away
+ *
+ * @param adapter
+ * @param result
+ * @returns
+ */
+export const initialStreamData = (
+  adapter: StreamAdapter,
+  result: NonNullable<StreamResponse['result']>,
+) => {
+  return {
+    provider: adapter.providerName || '',
+    readyToStream: result.readyToStream,
+    requireSignedURLs: result.requireSignedURLs || false,
+    thumbnailUrl: result.thumbnail,
+    videoId: result.videoId,
+  }
 }
 
 export const streamingService = ({
@@ -38,6 +92,382 @@ export const streamingService = ({
   adapter: StreamAdapter
   req: PayloadRequest
 }) => {
+  /**
+   *
+   * Write the stream status from a provider response to the document
+   *
+   * @param param0
+   */
+  const updateStatusFromResponse = async ({
+    collectionSlug,
+    doc,
+    response,
+  }: {
+    collectionSlug: string
+    doc: JsonObject & TypeWithID
+    response: StreamResponse
+  }): Promise<void> => {
+    req.payload.logger.info({
+      id: doc.id,
+      msg: 'Updating video document with latest stream status: collection=' + collectionSlug,
+      response,
+    })
+
+    const status = response.result?.status
+    const failed = isTerminalStatus(status)
+
+    await req.payload.update({
+      id: doc.id,
+      collection: collectionSlug,
+      data: {
+        stream: {
+          durationInSeconds: response.result?.durationInSeconds,
+          error:
+            status?.errorReasonText ||
+            (failed
+              ? `The provider failed to process the video: ${status?.errorReasonCode || status?.state}`
+              : ''),
+          // keep the time the video first failed
+          ...(failed && !doc.stream?.errorAt ? { errorAt: new Date().toISOString() } : {}),
+          errorReasonCode: (failed && status?.errorReasonCode) || '',
+          height: response.result?.height,
+          progress: response.result?.status?.progress,
+          provider: adapter.providerName || '',
+          readyToStream: response.result?.readyToStream,
+          readyToStreamAt: response.result?.readyToStreamAt,
+          requireSignedURLs: response.result?.requireSignedURLs || false,
+          size: response.result?.size,
+          thumbnailUrl: response.result?.thumbnail || '',
+          width: response.result?.width,
+        },
+      },
+      req,
+    })
+
+    req.payload.logger.info({
+      msg: 'Video document updated with latest stream status for videoId: ' + doc.stream.videoId,
+      stream: doc.stream,
+    })
+  }
+
+  /**
+   *
+   * Check the minutes left on the account before copying a video
+   *
+   * @param quota
+   * @returns the error when the quota is used up, otherwise the longest video that still fits
+   */
+  const checkQuota = async (
+    quota: QuotaConfig,
+  ): Promise<{ error?: string; maxDurationSeconds?: number }> => {
+    if (!adapter.getStorageUsage) {
+      return {}
+    }
+
+    let usage: StorageUsage
+
+    try {
+      usage = await adapter.getStorageUsage()
+    } catch (error) {
+      // videos are still copied when the usage can't be read
+      req.payload.logger.error({ err: error, msg: 'Error getting streaming storage usage' })
+      return {}
+    }
+
+    if (usage.limitMinutes === undefined) {
+      return {}
+    }
+
+    const remainingSeconds = Math.floor(
+      (usage.limitMinutes - usage.usedMinutes - (quota.reserveMinutes ?? 0)) * 60,
+    )
+
+    if (remainingSeconds <= 0) {
+      return { error: `The streaming quota of ${usage.limitMinutes} minutes is used up` }
+    }
+
+    return { maxDurationSeconds: remainingSeconds }
+  }
+
+  /**
+   *
+   * Queue the task polling the stream status of a document
+   *
+   * @param param0
+   */
+  const queueUpdateStatusTask = async ({
+    attempt,
+    collectionSlug,
+    documentId,
+    pollingStartedAt,
+    waitUntil,
+  }: {
+    /**
+     * Number of status checks done so far, picks the backoff delay
+     */
+    attempt?: number
+    collectionSlug: string
+    documentId: string
+    /**
+     * When the first status check ran, limits how long the status is polled
+     */
+    pollingStartedAt?: string
+    waitUntil?: Date
+  }): Promise<void> => {
+    try {
+      req.payload.logger.info({ collectionSlug, documentId, msg: 'Queueing update status task' })
+
+      const task = `payloadStreamUpdateStatusFor${adapter.providerName}`
+
+      // queue the update status task
+      await req.payload.jobs.queue({
+        input: {
+          attempt,
+          collectionSlug,
+          documentId,
+          pollingStartedAt,
+        },
+        queue: 'payloadVideoStream',
+        task,
+        waitUntil,
+      })
+
+      req.payload.logger.info({ documentId, msg: 'Update status task queued', task })
+    } catch (error) {
+      req.payload.logger.error({ err: error, msg: 'Error queueing update status task' })
+    }
+  }
+
+  /**
+   *
+   * Queue the task copying the file of a document to the streaming platform
+   *
+   * @param param0
+   */
+  const queueCopyVideoTask = async ({
+    collectionSlug,
+    doc,
+    replacement,
+  }: {
+    collectionSlug: string
+    doc: JsonObject & TypeWithID
+    /**
+     * The file of a streamed document was replaced
+     */
+    replacement?: boolean
+  }): Promise<void> => {
+    const task = `payloadStreamCopyVideoFor${adapter.providerName}`
+    const documentId = String(doc.id)
+
+    req.payload.logger.info({ collectionSlug, documentId, msg: 'Queueing copy video task', task })
+
+    // errors reach the caller, a lost copy would leave the document without a video
+    await req.payload.jobs.queue({
+      input: {
+        collectionSlug,
+        documentId,
+        replacement,
+      },
+      queue: 'payloadVideoStream',
+      req,
+      task,
+    })
+  }
+
+  /**
+   *
+   * Get the WebVTT contents of a caption from its file or text
+   *
+   * @param caption
+   * @param uploadCollection
+   */
+  const getCaptionVtt = async (
+    caption: StreamCaption,
+    uploadCollection?: string,
+  ): Promise<string> => {
+    const fileId = getRelationId(caption.file)
+
+    if (!fileId || !uploadCollection) {
+      return caption.vtt || ''
+    }
+
+    const file = await req.payload.findByID({
+      id: fileId,
+      collection: uploadCollection,
+      depth: 0,
+      req,
+    })
+
+    const response = await fetch(await getFileUrl(req, file), {
+      headers: {
+        cookie: req.headers?.get('cookie') || '',
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to read caption file: ${response.statusText}`)
+    }
+
+    return await response.text()
+  }
+
+  /**
+   *
+   * Delete a video that is not linked to the document anymore, logging failures
+   *
+   * @param videoId
+   */
+  const deleteUnlinked = async (videoId: string): Promise<void> => {
+    try {
+      await adapter.delete(videoId)
+    } catch (error) {
+      req.payload.logger.error({ err: error, msg: 'Error deleting unlinked video', videoId })
+    }
+  }
+
+  /**
+   *
+   * Copy video to streaming platform
+   *
+   * @param param0
+   */
+  const copyVideoToStreamingPlatform = async ({
+    collectionSlug,
+    defaultWatermark,
+    doc,
+    quota,
+    requireSignedURLs,
+  }: {
+    collectionSlug: string
+    /**
+     * Name of the watermark profile used when the document doesn't choose one
+     */
+    defaultWatermark?: string
+    doc: JsonObject & TypeWithID
+    /**
+     * Refuse or queue the video when the account quota is used up
+     */
+    quota?: QuotaConfig
+    requireSignedURLs?: boolean
+  }): Promise<{
+    error?: string
+    queued?: boolean
+    /**
+     * The provider call failed, copying again may succeed
+     */
+    retryable?: boolean
+    success: boolean
+  }> => {
+    if (!doc.mimeType?.startsWith('video/')) {
+      return { error: 'Not a video file', success: false }
+    }
+    try {
+      const { error, maxDurationSeconds } = quota ? await checkQuota(quota) : {}
+
+      if (error && quota) {
+        const queued = quota.onExceeded === 'queue'
+
+        req.payload.logger.error({ id: doc.id, msg: error, queued })
+
+        await req.payload.update({
+          id: doc.id,
+          collection: collectionSlug,
+          data: {
+            stream: {
+              error: queued
+                ? `${error}, the video is copied once minutes are available`
+                : `${error}, the video was not copied`,
+              errorAt: new Date().toISOString(),
+              waitingForQuota: queued,
+            },
+          },
+          req,
+        })
+
+        return { error, queued, success: false }
+      }
+
+      req.payload.logger.info({
+        doc,
+        msg: 'Preparing to copy video to streaming service',
+      })
+
+      const videoUrl = await getFileUrl(req, doc, { collectionSlug, requireSignedURLs })
+
+      req.payload.logger.info({ msg: 'Copying video to streaming service', videoUrl })
+
+      const watermarkId = await watermarkService({ req }).getWatermarkId({
+        adapter,
+        defaultWatermark,
+        watermark: doc.stream?.watermark,
+      })
+
+      // copy video to stream
+      const response = await adapter.copyVideo({
+        // the provider rejects videos longer than the minutes left on the account
+        maxDurationSeconds,
+        meta: {
+          name: doc.filename,
+        },
+        url: videoUrl,
+        watermarkId,
+      })
+
+      // update video document with stream uid and thumbnail url
+      if (response.result) {
+        req.payload.logger.info({ msg: 'Video copied to streaming service', response })
+
+        const stream = initialStreamData(adapter, response.result)
+
+        req.payload.logger.info({
+          msg:
+            'Updating video document with streaming info: collection=' +
+            collectionSlug +
+            ', id=' +
+            doc.id,
+          stream,
+        })
+
+        // update collection stream data
+        await req.payload.update({
+          id: doc.id,
+          collection: collectionSlug,
+          data: {
+            // clear the error of a failed attempt the job queue retried
+            stream: { ...stream, error: '', ...(quota ? { waitingForQuota: false } : {}) },
+          },
+          req,
+        })
+      }
+
+      return {
+        success: true,
+      }
+    } catch (error) {
+      req.payload.logger.error({ err: error, msg: 'Error copying video to streaming service' })
+
+      // update video document with error
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        data: {
+          stream: {
+            error: 'Error copying video to streaming service',
+            // failed videos are not retried by the queued videos task
+            ...(quota ? { waitingForQuota: false } : {}),
+          },
+        },
+        req,
+      })
+
+      return {
+        error: 'Error copying video to streaming service',
+        retryable: true,
+        success: false,
+      }
+    }
+  }
+
   return {
     /**
      *
@@ -60,10 +490,43 @@ export const streamingService = ({
         const response = await adapter.getStatus(doc.stream.videoId)
 
         // update video document with latest stream status
-        req.payload.logger.info({
+        await updateStatusFromResponse({ collectionSlug, doc, response })
+
+        return response
+      } catch (error) {
+        req.payload.logger.error({ err: error, msg: 'Error fetching stream status' })
+        return null
+      }
+    },
+
+    /**
+     *
+     * Swap the video of a replaced file in once it is ready to stream and delete the previous one,
+     * a failed replacement is deleted and the previous video keeps playing
+     *
+     * @param param0
+     * @returns whether the status has to be polled again
+     */
+    updateReplacementStatus: async ({
+      collectionSlug,
+      doc,
+    }: {
+      collectionSlug: string
+      doc: JsonObject & TypeWithID
+    }): Promise<boolean> => {
+      const replacementVideoId: string | undefined = doc.stream?.replacementVideoId
+
+      if (!replacementVideoId) {
+        return false
+      }
+
+      const { result } = await adapter.getStatus(replacementVideoId)
+
+      if (!result || isTerminalStatus(result.status)) {
+        req.payload.logger.error({
           id: doc.id,
-          msg: 'Updating video document with latest stream status: collection=' + collectionSlug,
-          response,
+          msg: 'Replaced file failed to process, keeping the previous video',
+          replacementVideoId,
         })
 
         await req.payload.update({
@@ -71,130 +534,494 @@ export const streamingService = ({
           collection: collectionSlug,
           data: {
             stream: {
-              durationInSeconds: response.result?.durationInSeconds,
-              error: response.result?.status?.errorReasonText || '',
-              height: response.result?.height,
-              provider: adapter.providerName || '',
-              readyToStream: response.result?.readyToStream,
-              readyToStreamAt: response.result?.readyToStreamAt,
-              requireSignedURLs: response.result?.requireSignedURLs || false,
-              size: response.result?.size,
-              thumbnailUrl: response.result?.thumbnail || '',
-              width: response.result?.width,
+              replacementError:
+                result?.status?.errorReasonText ||
+                result?.status?.errorReasonCode ||
+                'The video of the replaced file was not found',
+              replacementVideoId: '',
             },
           },
           req,
         })
 
-        req.payload.logger.info({
-          msg:
-            'Video document updated with latest stream status for videoId: ' + doc.stream.videoId,
-          stream: doc.stream,
-        })
+        if (result) {
+          await deleteUnlinked(replacementVideoId)
+        }
 
-        return response
-      } catch (error) {
-        req.payload.logger.error({ err: error, msg: 'Error fetching stream status' })
-        return null
+        return false
+      }
+
+      if (!result.readyToStream) {
+        return true
+      }
+
+      const previousVideoId: string | undefined = doc.stream.videoId
+      const captions: StreamCaption[] | undefined = doc.stream.captions
+
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        data: {
+          stream: {
+            ...initialStreamData(adapter, result),
+            // the animated preview is rendered again from the new video
+            ...(doc.stream.animatedPreview ? { animatedPreview: doc.stream.animatedPreview } : {}),
+            // caption tracks are sent to the new video again
+            ...(captions?.length
+              ? { captions: captions.map((caption) => ({ ...caption, status: 'pending' })) }
+              : {}),
+            durationInSeconds: result.durationInSeconds,
+            error: '',
+            height: result.height,
+            readyToStreamAt: result.readyToStreamAt,
+            replacementError: '',
+            replacementVideoId: '',
+            size: result.size,
+            // the poster frame of the previous video may not exist in the new one
+            thumbnailTimestampPct: null,
+            width: result.width,
+          },
+        },
+        req,
+      })
+
+      req.payload.logger.info({
+        id: doc.id,
+        msg: 'Swapped in the video of the replaced file',
+        previousVideoId,
+        videoId: replacementVideoId,
+      })
+
+      // the previous video is only deleted once the new one plays
+      if (previousVideoId && previousVideoId !== replacementVideoId) {
+        await deleteUnlinked(previousVideoId)
+      }
+
+      // generated captions of the new video are polled by the status task
+      return Boolean(captions?.length)
+    },
+
+    updateStatusFromResponse,
+
+    /**
+     *
+     * Send added or changed caption tracks to the streaming platform and delete removed ones
+     *
+     * @param param0
+     */
+    syncCaptions: async ({
+      collectionSlug,
+      doc,
+      previousDoc,
+      uploadCollection,
+    }: {
+      collectionSlug: string
+      doc: JsonObject & TypeWithID
+      previousDoc?: JsonObject
+      uploadCollection?: string
+    }): Promise<void> => {
+      const videoId: string | undefined = doc.stream?.videoId
+
+      // captions are synced once the video is ready, the status update triggers the sync again
+      if (!videoId || !doc.stream.readyToStream || !('uploadCaption' in adapter)) {
+        return
+      }
+
+      const captions: StreamCaption[] = doc.stream.captions ?? []
+      const previousCaptions: StreamCaption[] = previousDoc?.stream?.captions ?? []
+
+      const deleteCaption = async (language: string) => {
+        try {
+          await adapter.deleteCaption?.(videoId, language)
+        } catch (error) {
+          req.payload.logger.error({ err: error, language, msg: 'Error deleting caption' })
+        }
+      }
+
+      for (const previous of previousCaptions) {
+        const removed = !captions.some(({ language }) => language === previous.language)
+
+        if (removed && previous.status && previous.status !== 'pending') {
+          await deleteCaption(previous.language)
+        }
+      }
+
+      let changed = false
+
+      const synced: StreamCaption[] = []
+
+      for (const caption of captions) {
+        const previous = previousCaptions.find(({ id }) => id === caption.id)
+
+        if (!isCaptionChanged(caption, previous)) {
+          synced.push(caption)
+          continue
+        }
+
+        changed = true
+
+        try {
+          if (previous && previous.language !== caption.language && previous.status === 'ready') {
+            await deleteCaption(previous.language)
+          }
+
+          req.payload.logger.info({ caption, msg: 'Syncing caption to streaming service', videoId })
+
+          if (caption.source === 'generated' && !adapter.generateCaption) {
+            throw new Error(`Caption generation is not supported by ${adapter.providerName}`)
+          }
+
+          const track =
+            caption.source === 'generated'
+              ? await adapter.generateCaption?.(videoId, caption.language)
+              : await adapter.uploadCaption?.(videoId, {
+                  label: caption.label,
+                  language: caption.language,
+                  vtt: await getCaptionVtt(caption, uploadCollection),
+                })
+
+          synced.push({ ...caption, error: '', status: track?.status ?? 'error' })
+        } catch (error) {
+          req.payload.logger.error({
+            err: error,
+            msg: 'Error syncing caption to streaming service',
+          })
+
+          synced.push({
+            ...caption,
+            error: error instanceof Error ? error.message : 'Error syncing caption',
+            status: 'error',
+          })
+        }
+      }
+
+      if (!changed) {
+        return
+      }
+
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        context: {
+          [skipCaptionSyncContext]: true,
+        },
+        data: {
+          stream: {
+            captions: synced,
+          },
+        },
+        req,
+      })
+
+      // generated captions are processed asynchronously, the status task polls them
+      if (synced.some(({ status }) => status === 'inprogress')) {
+        await queueUpdateStatusTask({ collectionSlug, documentId: doc.id as string })
       }
     },
 
     /**
      *
-     * Copy video to streaming platform
+     * Update the status of generated captions still being processed
      *
      * @param param0
+     * @returns whether captions are still being processed
      */
-    copyVideoToStreamingPlatform: async ({
+    updateCaptionStatus: async ({
       collectionSlug,
       doc,
+    }: {
+      collectionSlug: string
+      doc: JsonObject & TypeWithID
+    }): Promise<boolean> => {
+      const captions: StreamCaption[] = doc.stream?.captions ?? []
+
+      if (!captions.some(({ status }) => status === 'inprogress') || !adapter.listCaptions) {
+        return false
+      }
+
+      const tracks = await adapter.listCaptions(doc.stream.videoId)
+
+      const updated = captions.map((caption) => {
+        const track = tracks.find(({ language }) => language === caption.language)
+
+        if (caption.status !== 'inprogress' || !track) {
+          return caption
+        }
+
+        return {
+          ...caption,
+          error: track.status === 'error' ? 'Caption generation failed' : '',
+          status: track.status,
+        }
+      })
+
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        context: {
+          [skipCaptionSyncContext]: true,
+        },
+        data: {
+          stream: {
+            captions: updated,
+          },
+        },
+        req,
+      })
+
+      return updated.some(({ status }) => status === 'inprogress')
+    },
+
+    /**
+     *
+     * Apply the chosen poster frame and animated preview of a change to the stream data
+     *
+     * @param param0
+     * @returns the stream data to save
+     */
+    updateThumbnails: async ({
+      data,
+      originalDoc,
+    }: {
+      data: JsonObject
+      originalDoc?: JsonObject
+    }): Promise<JsonObject> => {
+      const stream: JsonObject = { ...originalDoc?.stream, ...data.stream }
+      const videoId: string | undefined = stream.videoId
+
+      if (!videoId) {
+        return stream
+      }
+
+      const timestampPct: null | number | undefined = data.stream?.thumbnailTimestampPct
+
+      if (
+        typeof timestampPct === 'number' &&
+        timestampPct !== originalDoc?.stream?.thumbnailTimestampPct &&
+        adapter.setThumbnailTimestamp
+      ) {
+        try {
+          req.payload.logger.info({ msg: 'Setting thumbnail timestamp', timestampPct, videoId })
+
+          const response = await adapter.setThumbnailTimestamp(videoId, timestampPct)
+
+          if (response.result?.thumbnail) {
+            stream.thumbnailUrl = response.result.thumbnail
+          }
+        } catch (error) {
+          req.payload.logger.error({ err: error, msg: 'Error setting thumbnail timestamp' })
+        }
+      }
+
+      const animatedPreview: JsonObject | undefined = data.stream?.animatedPreview
+
+      if (animatedPreview && adapter.getAnimatedThumbnailUrl) {
+        try {
+          stream.animatedPreview = {
+            ...animatedPreview,
+            url: animatedPreview.enabled
+              ? await adapter.getAnimatedThumbnailUrl(videoId, {
+                  duration: animatedPreview.duration ?? 4,
+                  format: animatedPreview.format ?? 'webp',
+                  start: animatedPreview.start ?? 0,
+                })
+              : null,
+          }
+        } catch (error) {
+          req.payload.logger.error({ err: error, msg: 'Error getting animated preview url' })
+        }
+      }
+
+      return stream
+    },
+
+    /**
+     *
+     * Copy the new file of a document whose file was replaced,
+     * the current video keeps playing until the new one is ready to stream
+     *
+     * @param param0
+     * @returns whether the new video is being processed
+     */
+    copyReplacement: async ({
+      collectionSlug,
+      defaultWatermark,
+      doc,
+      quota,
       requireSignedURLs,
     }: {
       collectionSlug: string
+      defaultWatermark?: string
       doc: JsonObject & TypeWithID
+      quota?: QuotaConfig
       requireSignedURLs?: boolean
-    }): Promise<{ error?: string; success: boolean }> => {
-      if (!doc.mimeType?.startsWith('video/')) {
-        return { error: 'Not a video file', success: false }
-      }
+    }): Promise<boolean> => {
       try {
-        req.payload.logger.info({
-          doc,
-          msg: 'Preparing to copy video to streaming service',
-        })
+        const { error, maxDurationSeconds } = quota ? await checkQuota(quota) : {}
 
-        const videoUrl = await getVideoUrl(req, doc, requireSignedURLs)
+        if (error) {
+          throw new Error(error)
+        }
 
-        req.payload.logger.info({ msg: 'Copying video to streaming service', videoUrl })
+        // a replacement still being processed is replaced in turn
+        if (doc.stream?.replacementVideoId) {
+          await deleteUnlinked(doc.stream.replacementVideoId)
+        }
 
-        // copy video to stream
         const response = await adapter.copyVideo({
+          maxDurationSeconds,
           meta: {
             name: doc.filename,
           },
-          url: videoUrl,
+          url: await getFileUrl(req, doc, { collectionSlug, requireSignedURLs }),
+          watermarkId: await watermarkService({ req }).getWatermarkId({
+            adapter,
+            defaultWatermark,
+            watermark: doc.stream?.watermark,
+          }),
         })
 
-        // update video document with stream uid and thumbnail url
-        if (response.result) {
-          req.payload.logger.info({ msg: 'Video copied to streaming service', response })
-
-          const stream = {
-            provider: adapter.providerName || '',
-            readyToStream: response.result.readyToStream,
-            requireSignedURLs: response.result.requireSignedURLs || false,
-            thumbnailUrl: response.result.thumbnail,
-            videoId: response.result.videoId,
-          }
+        if (!response.result) {
+          throw new Error('The provider did not copy the replaced file')
+        }
 
-          req.payload.logger.info({
-            msg:
-              'Updating video document with streaming info: collection=' +
-              collectionSlug +
-              ', id=' +
-              doc.id,
-            stream,
-          })
+        req.payload.logger.info({
+          id: doc.id,
+          msg: 'Copied replaced file to streaming service',
+          replacementVideoId: response.result.videoId,
+          videoId: doc.stream?.videoId,
+        })
 
-          // update collection stream data
-          await req.payload.update({
-            id: doc.id,
-            collection: collectionSlug,
-            data: {
-              stream,
+        await req.payload.update({
+          id: doc.id,
+          collection: collectionSlug,
+          data: {
+            stream: {
+              replacementError: '',
+              replacementVideoId: response.result.videoId,
             },
-            req,
-          })
-        }
+          },
+          req,
+        })
 
-        return {
-          success: true,
-        }
+        return true
       } catch (error) {
-        req.payload.logger.error({ err: error, msg: 'Error copying video to streaming service' })
+        req.payload.logger.error({ err: error, msg: 'Error copying replaced file' })
 
-        // update video document with error
         await req.payload.update({
           id: doc.id,
           collection: collectionSlug,
           data: {
             stream: {
-              error: 'Error copying video to streaming service',
+              replacementError: error instanceof Error ? error.message : String(error),
+              replacementVideoId: '',
             },
           },
           req,
         })
 
-        return {
-          error: 'Error copying video to streaming service',
-          success: false,
-        }
+        return false
       }
     },
 
+    copyVideoToStreamingPlatform,
+
+    /**
+     *
+     * Stop waiting for a video that is still processing after the polling window,
+     * a pending replacement is dropped and the previous video keeps playing
+     *
+     * @param param0
+     */
+    markPollingTimedOut: async ({
+      collectionSlug,
+      doc,
+      maxPollingHours,
+    }: {
+      collectionSlug: string
+      doc: JsonObject & TypeWithID
+      maxPollingHours: number
+    }): Promise<void> => {
+      const error = `The video was not ready to stream after ${maxPollingHours} hours`
+      const replacementVideoId: string | undefined = doc.stream?.replacementVideoId
+
+      req.payload.logger.error({ id: doc.id, collectionSlug, msg: error })
+
+      if (replacementVideoId) {
+        await req.payload.update({
+          id: doc.id,
+          collection: collectionSlug,
+          data: {
+            stream: {
+              replacementError: error,
+              replacementVideoId: '',
+            },
+          },
+          req,
+        })
+
+        await deleteUnlinked(replacementVideoId)
+
+        return
+      }
+
+      // captions still being generated of a ready video are left as they are
+      if (doc.stream?.readyToStream) {
+        return
+      }
+
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        data: {
+          stream: {
+            error,
+            errorAt: new Date().toISOString(),
+          },
+        },
+        req,
+      })
+    },
+
+    /**
+     *
+     * Clear the stream errors of a document, e.g. once the cause was fixed on the provider
+     *
+     * @param param0
+     * @returns the updated document
+     */
+    clearError: async ({
+      collectionSlug,
+      doc,
+    }: {
+      collectionSlug: string
+      doc: JsonObject & TypeWithID
+    }): Promise<JsonObject & TypeWithID> => {
+      req.payload.logger.info({
+        id: doc.id,
+        error: doc.stream?.error,
+        msg: 'Clearing stream error',
+      })
+
+      return await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        data: {
+          stream: {
+            error: '',
+            errorAt: null,
+            errorReasonCode: '',
+            replacementError: '',
+          },
+        },
+        depth: 0,
+        req,
+      })
+    },
+
     delete: async (doc: JsonObject & TypeWithID): Promise<void> => {
       try {
-        if (doc?.stream?.videoId) {
+        if (!doc?.stream?.videoId) {
           throw new Error('No videoId found in document stream data')
         }
         req.payload.logger.info({
@@ -213,32 +1040,51 @@ export const streamingService = ({
       }
     },
 
-    queueUpdateStatusTask: async ({
+    queueCopyVideoTask,
+
+    queueUpdateStatusTask,
+
+    /**
+     *
+     * Queue the copy of the file of a document again after the copy or the processing failed,
+     * the video the provider couldn't process is deleted first
+     *
+     * @param param0
+     */
+    retryCopy: async ({
       collectionSlug,
-      documentId,
+      doc,
     }: {
       collectionSlug: string
-      documentId: string
+      doc: JsonObject & TypeWithID
     }): Promise<void> => {
-      try {
-        req.payload.logger.info({ collectionSlug, documentId, msg: 'Queueing update status task' })
+      req.payload.logger.info({ id: doc.id, msg: 'Retrying copy to streaming service' })
 
-        const task = `payloadStreamUpdateStatusFor${adapter.providerName}`
+      if (doc.stream?.videoId) {
+        await deleteUnlinked(doc.stream.videoId)
+      }
 
-        // queue the update status task
-        await req.payload.jobs.queue({
-          input: {
-            collectionSlug,
-            documentId,
+      // start over so the document shows the new copy
+      await req.payload.update({
+        id: doc.id,
+        collection: collectionSlug,
+        data: {
+          stream: {
+            error: '',
+            errorAt: null,
+            errorReasonCode: '',
+            progress: 0,
+            readyToStream: false,
+            thumbnailUrl: '',
+            videoId: '',
           },
-          queue: 'payloadVideoStream',
-          task,
-        })
+        },
+        depth: 0,
+        req,
+      })
 
-        req.payload.logger.info({ documentId, msg: 'Update status task queued', task })
-      } catch (error) {
-        req.payload.logger.error({ err: error, msg: 'Error queueing update status task' })
-      }
+      // the copy task chains into the status task once the video is copied
+      await queueCopyVideoTask({ collectionSlug, doc })
     },
   }
 }
@@ -0,0 +1,270 @@
+import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+
+import { watermarksCollectionSlug } from '../collections/watermarks.js'
+import { getFileUrl } from '../utils/fileUrl.js'
+
+type WatermarkRegistration = {
+  provider: string
+  watermarkId: string
+}
+
+/**
+ * Context flag set when the plugin writes the provider registrations, so the write does not register again
+ */
+export const skipWatermarkSyncContext = 'videoStreamSkipWatermarkSync'
+
+/**
+ * Adapters able to register and delete watermark profiles, once per adapter instance
+ *
+ * @param adapters
+ * @returns
+ */
+export const getWatermarkAdapters = (adapters: StreamAdapter[]): StreamAdapter[] => {
+  return [...new Set(adapters)].filter(
+    (adapter) => 'createWatermark' in adapter && 'deleteWatermark' in adapter,
+  )
+}
+
+/**
+ * Whether a watermark profile has to be registered again, provider profiles can't be changed
+ *
+ * @param doc
+ * @param previousDoc
+ * @returns
+ */
+export const isWatermarkChanged = (doc: JsonObject, previousDoc?: JsonObject): boolean => {
+  return (
+    !previousDoc ||
+    ['filename', 'filesize', 'name', 'opacity', 'padding', 'position', 'scale'].some(
+      (key) => doc[key] !== previousDoc[key],
+    )
+  )
+}
+
+export const watermarkService = ({ req }: { req: PayloadRequest }) => {
+  /**
+   *
+   * Get the watermark image, from the request when it was just uploaded
+   *
+   * @param doc
+   */
+  const getImage = async (doc: JsonObject & TypeWithID, file?: Blob): Promise<Blob> => {
+    if (file) {
+      return file
+    }
+
+    const response = await fetch(await getFileUrl(req, doc), {
+      headers: {
+        cookie: req.headers?.get('cookie') || '',
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to read watermark image: ${response.statusText}`)
+    }
+
+    return await response.blob()
+  }
+
+  /**
+   *
+   * Delete a watermark profile from its provider
+   *
+   * @param adapters
+   * @param registration
+   */
+  const deleteFromProvider = async (
+    adapters: StreamAdapter[],
+    { provider, watermarkId }: WatermarkRegistration,
+  ): Promise<void> => {
+    const adapter = adapters.find((candidate) => candidate.providerName === provider)
+
+    try {
+      await adapter?.deleteWatermark?.(watermarkId)
+    } catch (error) {
+      req.payload.logger.error({
+        err: error,
+        msg: 'Error deleting watermark profile',
+        provider,
+        watermarkId,
+      })
+    }
+  }
+
+  /**
+   *
+   * Register a watermark profile with the providers of the adapters, replacing their previous profiles
+   *
+   * @param param0
+   * @returns the registrations of every provider
+   */
+  const register = async ({
+    adapters,
+    doc,
+    file,
+  }: {
+    adapters: StreamAdapter[]
+    doc: JsonObject & TypeWithID
+    file?: Blob
+  }): Promise<WatermarkRegistration[]> => {
+    const previous: WatermarkRegistration[] = doc.providers ?? []
+    const created: WatermarkRegistration[] = []
+
+    let error = ''
+
+    try {
+      const image = await getImage(doc, file)
+
+      for (const adapter of adapters) {
+        if (!adapter.createWatermark) {
+          continue
+        }
+
+        req.payload.logger.info({
+          id: doc.id,
+          msg: 'Registering watermark profile',
+          provider: adapter.providerName,
+        })
+
+        const { id } = await adapter.createWatermark({
+          name: doc.name,
+          file: image,
+          opacity: doc.opacity ?? undefined,
+          padding: doc.padding ?? undefined,
+          position: doc.position ?? undefined,
+          scale: doc.scale ?? undefined,
+        })
+
+        created.push({ provider: adapter.providerName, watermarkId: id })
+      }
+    } catch (err) {
+      req.payload.logger.error({ err, msg: 'Error registering watermark profile' })
+      error = err instanceof Error ? err.message : 'Error registering watermark profile'
+    }
+
+    const isReplaced = ({ provider }: WatermarkRegistration) =>
+      created.some((registration) => registration.provider === provider)
+
+    // replaced profiles are deleted, the profiles of providers that failed are kept
+    for (const registration of previous.filter(isReplaced)) {
+      await deleteFromProvider(adapters, registration)
+    }
+
+    const registrations = [
+      ...previous.filter((registration) => !isReplaced(registration)),
+      ...created,
+    ]
+
+    await req.payload.update({
+      id: doc.id,
+      collection: watermarksCollectionSlug,
+      context: {
+        [skipWatermarkSyncContext]: true,
+      },
+      data: {
+        error,
+        providers: registrations,
+      },
+      depth: 0,
+      req,
+    })
+
+    return registrations
+  }
+
+  return {
+    /**
+     *
+     * Delete the profiles of a watermark from every provider
+     *
+     * @param param0
+     */
+    delete: async ({
+      adapters,
+      doc,
+    }: {
+      adapters: StreamAdapter[]
+      doc: JsonObject & TypeWithID
+    }): Promise<void> => {
+      const registrations: WatermarkRegistration[] = doc.providers ?? []
+
+      for (const registration of registrations) {
+        await deleteFromProvider(adapters, registration)
+      }
+    },
+
+    /**
+     *
+     * Get the provider profile of the watermark of a video, registering it when missing
+     *
+     * @param param0
+     * @returns the watermark ID to copy the video with
+     */
+    getWatermarkId: async ({
+      adapter,
+      defaultWatermark,
+      watermark,
+    }: {
+      adapter: StreamAdapter
+      /**
+       * Name of the watermark used when the document doesn't choose one
+       */
+      defaultWatermark?: string
+      watermark?: (JsonObject & TypeWithID) | null | number | string
+    }): Promise<string | undefined> => {
+      if (!adapter.createWatermark) {
+        return undefined
+      }
+
+      let doc: (JsonObject & TypeWithID) | undefined
+
+      if (watermark) {
+        doc = await req.payload.findByID({
+          id: typeof watermark === 'object' ? watermark.id : watermark,
+          collection: watermarksCollectionSlug,
+          depth: 0,
+          req,
+        })
+      } else if (defaultWatermark) {
+        const { docs } = await req.payload.find({
+          collection: watermarksCollectionSlug,
+          depth: 0,
+          limit: 1,
+          req,
+          where: {
+            name: {
+              equals: defaultWatermark,
+            },
+          },
+        })
+
+        doc = docs[0]
+
+        if (!doc) {
+          req.payload.logger.error({ name: defaultWatermark, msg: 'Default watermark not found' })
+        }
+      }
+
+      if (!doc) {
+        return undefined
+      }
+
+      const registration = (doc.providers as undefined | WatermarkRegistration[])?.find(
+        ({ provider }) => provider === adapter.providerName,
+      )
+
+      if (registration) {
+        return registration.watermarkId
+      }
+
+      // the profile was created before the adapter was configured
+      const registrations = await register({ adapters: [adapter], doc })
+
+      return registrations.find(({ provider }) => provider === adapter.providerName)?.watermarkId
+    },
+
+    register,
+  }
+}
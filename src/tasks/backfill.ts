@@ -0,0 +1,49 @@
+import type { TaskConfig } from 'payload'
+
+import type { BackfillConfig, StreamCollection } from '../types.js'
+
+import { backfillService } from '../services/backfillService.js'
+
+export const backfillTaskSlug = 'payloadVideoStreamBackfill'
+
+export const backfillTask: (args: {
+  config: BackfillConfig
+  streamCollections: StreamCollection[]
+}) => TaskConfig = ({ config, streamCollections }) => {
+  const slug = backfillTaskSlug
+
+  return {
+    slug,
+    handler: async ({ input, req }) => {
+      req.payload.logger.info({ input, msg: `Starting task: ${slug}` })
+
+      const { backfillId } = input as { backfillId: string }
+
+      const processed = await backfillService({ req }).runBatch({
+        backfillId,
+        concurrency: config.concurrency ?? 5,
+        streamCollections,
+      })
+
+      req.payload.logger.info({ backfillId, msg: `${slug}: batch processed`, processed })
+
+      return {
+        output: {
+          data: {
+            backfillId,
+            processed,
+          },
+          message: 'Backfill task executed',
+        },
+      }
+    },
+    inputSchema: [
+      {
+        name: 'backfillId',
+        type: 'text',
+        required: true,
+      },
+    ],
+    retries: 3,
+  }
+}
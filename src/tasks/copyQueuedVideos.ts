@@ -0,0 +1,83 @@
+import type { TaskConfig } from 'payload'
+
+import type { QuotaConfig, StreamCollection } from '../types.js'
+
+import { streamingService } from '../services/streamingService.js'
+
+export const copyQueuedVideosTaskSlug = 'payloadVideoStreamCopyQueuedVideos'
+
+export const copyQueuedVideosTask: (args: {
+  quota: QuotaConfig
+  requireSignedURLs: boolean
+  streamCollections: StreamCollection[]
+}) => TaskConfig = ({ quota, requireSignedURLs, streamCollections }) => {
+  const slug = copyQueuedVideosTaskSlug
+
+  return {
+    slug,
+    handler: async ({ req }) => {
+      req.payload.logger.info({ msg: `Starting task: ${slug}` })
+
+      let copied = 0
+
+      for (const { slug: collectionSlug, adapter, watermark } of streamCollections) {
+        const service = streamingService({ adapter, req })
+
+        const { docs } = await req.payload.find({
+          collection: collectionSlug,
+          depth: 0,
+          pagination: false,
+          req,
+          sort: 'createdAt',
+          where: {
+            'stream.waitingForQuota': {
+              equals: true,
+            },
+          },
+        })
+
+        for (const doc of docs) {
+          const { queued, success } = await service.copyVideoToStreamingPlatform({
+            collectionSlug,
+            defaultWatermark: watermark,
+            doc,
+            quota,
+            requireSignedURLs,
+          })
+
+          if (success) {
+            copied++
+
+            await service.queueUpdateStatusTask({
+              collectionSlug,
+              documentId: doc.id as string,
+            })
+          } else if (queued) {
+            // the quota is still used up, the remaining videos wait for the next run
+            req.payload.logger.info({
+              collectionSlug,
+              msg: `${slug}: quota still used up, the remaining videos keep waiting`,
+            })
+            break
+          }
+        }
+      }
+
+      return {
+        output: {
+          data: {
+            copied,
+          },
+          message: 'Copy queued videos task executed',
+        },
+      }
+    },
+    retries: 3,
+    schedule: [
+      {
+        cron: quota.schedule ?? '*/30 * * * *',
+        queue: 'payloadVideoStream',
+      },
+    ],
+  }
+}
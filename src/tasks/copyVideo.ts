@@ -0,0 +1,122 @@
+import type { TaskConfig } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { QuotaConfig, StreamCollection } from '../types.js'
+
+import { streamingService } from '../services/streamingService.js'
+
+export const copyVideoTask: (
+  adapter: StreamAdapter,
+  args: {
+    quota?: QuotaConfig
+    requireSignedURLs: boolean
+    streamCollections: StreamCollection[]
+  },
+) => TaskConfig = (adapter, { quota, requireSignedURLs, streamCollections }) => {
+  const slug = `payloadStreamCopyVideoFor${adapter.providerName}`
+
+  return {
+    slug,
+    handler: async ({ input, req }) => {
+      req.payload.logger.info({ input, msg: `Starting task: ${slug}` })
+
+      const { collectionSlug, documentId, replacement } = input as {
+        collectionSlug: string
+        documentId: string
+        replacement?: boolean | null
+      }
+
+      const service = streamingService({ adapter, req })
+      const watermark = streamCollections.find(({ slug }) => slug === collectionSlug)?.watermark
+
+      // the file is read and signed when the job runs, so a replaced file is always the latest one
+      // and a copy done by an earlier run is skipped
+      const doc = await req.payload.findByID({
+        id: documentId,
+        collection: collectionSlug,
+        depth: 0,
+        req,
+      })
+
+      const output = (message: string) => ({
+        output: {
+          data: {
+            collectionSlug,
+            documentId,
+          },
+          message,
+        },
+      })
+
+      if (!doc?.mimeType?.startsWith('video/')) {
+        return output('Not a video, nothing to copy')
+      }
+
+      if (replacement && doc.stream?.videoId) {
+        const copying = await service.copyReplacement({
+          collectionSlug,
+          defaultWatermark: watermark,
+          doc,
+          quota,
+          requireSignedURLs,
+        })
+
+        if (copying) {
+          await service.queueUpdateStatusTask({ collectionSlug, documentId })
+        }
+
+        return output('Copy replaced file task executed')
+      }
+
+      // a previous run already copied the video, e.g. when queueing the status task failed
+      if (doc.stream?.videoId) {
+        req.payload.logger.info({
+          msg: `${slug}: document ID ${documentId} already has a video, only tracking its status`,
+        })
+
+        if (!doc.stream.readyToStream) {
+          await service.queueUpdateStatusTask({ collectionSlug, documentId })
+        }
+
+        return output('Video already copied')
+      }
+
+      const { error, retryable, success } = await service.copyVideoToStreamingPlatform({
+        collectionSlug,
+        defaultWatermark: watermark,
+        doc,
+        quota,
+        requireSignedURLs,
+      })
+
+      // failing the task lets the job queue retry the copy
+      if (retryable) {
+        throw new Error(error)
+      }
+
+      // videos refused or queued by the quota guard have nothing to poll
+      if (success) {
+        await service.queueUpdateStatusTask({ collectionSlug, documentId })
+      }
+
+      return output('Copy video task executed')
+    },
+    inputSchema: [
+      {
+        name: 'collectionSlug',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'documentId',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'replacement',
+        type: 'checkbox',
+      },
+    ],
+    retries: 3,
+  }
+}
@@ -0,0 +1,47 @@
+import type { TaskConfig } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+
+import { liveRecordingService } from '../services/liveRecordingService.js'
+
+export const importLiveRecordingsTaskSlug = 'payloadVideoStreamImportLiveRecordings'
+
+export const importLiveRecordingsTask: (args: {
+  adapter: StreamAdapter
+  collectionSlug: string
+  liveInputIds: string[]
+  schedule: string
+}) => TaskConfig = ({ adapter, collectionSlug, liveInputIds, schedule }) => {
+  const slug = importLiveRecordingsTaskSlug
+
+  return {
+    slug,
+    handler: async ({ req }) => {
+      req.payload.logger.info({ liveInputIds, msg: `Starting task: ${slug}` })
+
+      const imported = await liveRecordingService({ adapter, req }).importRecordings({
+        collectionSlug,
+        liveInputIds,
+      })
+
+      req.payload.logger.info({ imported, msg: `${slug}: live recordings imported` })
+
+      return {
+        output: {
+          data: {
+            collectionSlug,
+            imported,
+          },
+          message: 'Import live recordings task executed',
+        },
+      }
+    },
+    retries: 3,
+    schedule: [
+      {
+        cron: schedule,
+        queue: 'payloadVideoStream',
+      },
+    ],
+  }
+}
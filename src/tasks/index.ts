@@ -1 +1,8 @@
+export * from './backfill.js'
+export * from './copyQueuedVideos.js'
+export * from './copyVideo.js'
+export * from './importLiveRecordings.js'
+export * from './reconcile.js'
+export * from './streamState.js'
+export * from './syncAnalytics.js'
 export * from './updateStreamStatus.js'
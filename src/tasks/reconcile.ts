@@ -0,0 +1,63 @@
+import type { TaskConfig } from 'payload'
+
+import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { QuotaConfig, ReconciliationConfig, StreamCollection } from '../types.js'
+
+import { reconciliationService } from '../services/reconciliationService.js'
+
+export const reconcileTaskSlug = 'payloadVideoStreamReconcile'
+
+export const reconcileTask: (args: {
+  config: ReconciliationConfig
+  quota?: QuotaConfig
+  requireSignedURLs: boolean
+  streamCollections: StreamCollection[]
+}) => TaskConfig = ({ config, quota, requireSignedURLs, streamCollections }) => {
+  const slug = reconcileTaskSlug
+
+  // collections sharing an adapter are compared with its video list together,
+  // every collection of the provider links videos as adapters can share an account
+  const adapters: StreamAdapter[] = [...new Set(streamCollections.map(({ adapter }) => adapter))]
+
+  return {
+    slug,
+    handler: async ({ req }) => {
+      req.payload.logger.info({ msg: `Starting task: ${slug}` })
+
+      const results = []
+
+      for (const adapter of adapters) {
+        const result = await reconciliationService({ adapter, req }).reconcile({
+          config,
+          quota,
+          requireSignedURLs,
+          streamCollections,
+        })
+
+        req.payload.logger.info({
+          msg: `${slug}: stream drift reconciled`,
+          provider: adapter.providerName,
+          ...result,
+        })
+
+        results.push({ provider: adapter.providerName, ...result })
+      }
+
+      return {
+        output: {
+          data: {
+            results,
+          },
+          message: 'Reconcile task executed',
+        },
+      }
+    },
+    retries: 3,
+    schedule: [
+      {
+        cron: config.schedule ?? '0 3 * * *',
+        queue: 'payloadVideoStream',
+      },
+    ],
+  }
+}
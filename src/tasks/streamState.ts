@@ -0,0 +1,84 @@
+import type { TaskConfig, Where } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { getStreamState } from '../utils/streamState.js'
+
+export const streamStateTaskSlug = 'payloadVideoStreamState'
+
+/**
+ * Videos saved before the stream state was stored
+ */
+export const missingStreamStateWhere: Where = {
+  and: [
+    {
+      mimeType: {
+        like: 'video/',
+      },
+    },
+    {
+      'stream.state': {
+        exists: false,
+      },
+    },
+  ],
+}
+
+export const streamStateTask: (args: { streamCollections: StreamCollection[] }) => TaskConfig = ({
+  streamCollections,
+}) => {
+  const slug = streamStateTaskSlug
+
+  return {
+    slug,
+    handler: async ({ req }) => {
+      req.payload.logger.info({ msg: `Starting task: ${slug}` })
+
+      let updated = 0
+
+      for (const { slug: collectionSlug } of streamCollections) {
+        // updated documents drop out of the query, the first page is read until it is empty
+        for (;;) {
+          const { docs } = await req.payload.find({
+            collection: collectionSlug,
+            depth: 0,
+            limit: 100,
+            req,
+            sort: 'createdAt',
+            where: missingStreamStateWhere,
+          })
+
+          if (!docs.length) {
+            break
+          }
+
+          for (const doc of docs) {
+            await req.payload.update({
+              id: doc.id,
+              collection: collectionSlug,
+              data: {
+                stream: {
+                  state: getStreamState(doc.stream),
+                },
+              },
+              depth: 0,
+              req,
+            })
+
+            updated++
+          }
+        }
+      }
+
+      return {
+        output: {
+          data: {
+            updated,
+          },
+          message: 'Stream state task executed',
+        },
+      }
+    },
+    retries: 3,
+  }
+}
@@ -0,0 +1,53 @@
+import type { TaskConfig } from 'payload'
+
+import type { StreamCollection } from '../types.js'
+
+import { analyticsService } from '../services/analyticsService.js'
+
+export const syncAnalyticsTaskSlug = 'payloadVideoStreamSyncAnalytics'
+
+export const syncAnalyticsTask: (args: {
+  days: number
+  schedule: string
+  streamCollections: StreamCollection[]
+}) => TaskConfig = ({ days, schedule, streamCollections }) => {
+  const slug = syncAnalyticsTaskSlug
+
+  return {
+    slug,
+    handler: async ({ req }) => {
+      req.payload.logger.info({ msg: `Starting task: ${slug}` })
+
+      let synced = 0
+
+      for (const { slug: collectionSlug, adapter } of streamCollections) {
+        if (!adapter.getAnalytics) {
+          continue
+        }
+
+        synced += await analyticsService({ adapter, req }).syncCollection({
+          collectionSlug,
+          days,
+        })
+
+        req.payload.logger.info({ collectionSlug, msg: `${slug}: analytics synced` })
+      }
+
+      return {
+        output: {
+          data: {
+            synced,
+          },
+          message: 'Sync analytics task executed',
+        },
+      }
+    },
+    retries: 3,
+    schedule: [
+      {
+        cron: schedule,
+        queue: 'payloadVideoStream',
+      },
+    ],
+  }
+}
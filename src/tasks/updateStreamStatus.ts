@@ -1,11 +1,33 @@
 import type { TaskConfig } from 'payload'
 
 import type { StreamAdapter } from '../adapters/streamAdapter.js'
+import type { StatusPollingConfig } from '../types.js'
 
-import { streamingService } from '../services/streamingService.js'
+import { isTerminalStatus, streamingService } from '../services/streamingService.js'
 
-export const updateStreamStatusTask: (adapter: StreamAdapter) => TaskConfig = (adapter) => {
+const defaultBackoffSeconds = [5, 10, 30, 60, 120, 300]
+
+/**
+ * Seconds to wait before the next status check, the last delay of the schedule repeats
+ *
+ * @param config
+ * @param attempt number of status checks done so far
+ * @returns
+ */
+export const getStatusPollingDelay = (config: StatusPollingConfig, attempt: number): number => {
+  const backoffSeconds = config.backoffSeconds?.length
+    ? config.backoffSeconds
+    : defaultBackoffSeconds
+
+  return backoffSeconds[Math.min(Math.max(attempt, 1), backoffSeconds.length) - 1] ?? 0
+}
+
+export const updateStreamStatusTask: (
+  adapter: StreamAdapter,
+  config?: StatusPollingConfig,
+) => TaskConfig = (adapter, config = {}) => {
   const slug = `payloadStreamUpdateStatusFor${adapter.providerName}`
+  const maxPollingHours = config.maxPollingHours ?? 24
 
   return {
     slug,
@@ -16,7 +38,15 @@ export const updateStreamStatusTask: (adapter: StreamAdapter) => TaskConfig = (a
         req,
       })
 
-      const { collectionSlug, documentId } = input as { collectionSlug: string; documentId: string }
+      const { collectionSlug, documentId, ...polling } = input as {
+        attempt?: null | number
+        collectionSlug: string
+        documentId: string
+        pollingStartedAt?: null | string
+      }
+      // the first status check starts the polling window
+      const attempt = polling.attempt || 0
+      const pollingStartedAt = polling.pollingStartedAt || new Date().toISOString()
 
       req.payload.logger.info({
         msg: `${slug}: find document by ID ${documentId} in collection ${collectionSlug}`,
@@ -33,27 +63,66 @@ export const updateStreamStatusTask: (adapter: StreamAdapter) => TaskConfig = (a
         msg: `${slug}: document fetched`,
       })
 
-      if (doc?.stream?.readyToStream === false) {
+      /**
+       * Check the status again after the backoff delay, until the polling window is over
+       */
+      const requeue = async (reason: string) => {
+        if (Date.now() - Date.parse(pollingStartedAt) >= maxPollingHours * 60 * 60 * 1000) {
+          await service.markPollingTimedOut({ collectionSlug, doc, maxPollingHours })
+          return
+        }
+
+        const delay = getStatusPollingDelay(config, attempt + 1)
+
+        req.payload.logger.info({
+          msg: `${slug}: ${reason}, re-queuing task for document ID ${documentId} in ${delay} seconds`,
+        })
+
+        await service.queueUpdateStatusTask({
+          attempt: attempt + 1,
+          collectionSlug,
+          documentId,
+          pollingStartedAt,
+          waitUntil: new Date(Date.now() + delay * 1000),
+        })
+      }
+
+      if (doc?.stream?.replacementVideoId) {
+        // the current video keeps playing while the video of the replaced file is processed
+        const processing = await service.updateReplacementStatus({ collectionSlug, doc })
+
+        if (processing) {
+          await requeue('replaced file not ready to stream yet')
+        }
+      } else if (doc?.stream?.readyToStream === false) {
         const response = await service.updateStatus({
           collectionSlug,
           doc,
         })
 
-        if (response) {
+        if (!response) {
+          // a transient provider error, the next check may succeed
+          await requeue('status could not be fetched')
+        } else {
           const { result } = response
 
-          if (result?.readyToStream === false) {
-            // re-queue task if not ready to stream yet
-            req.payload.logger.info({
-              msg: `${slug}: video not ready to stream yet, re-queuing task for document ID ${documentId}`,
-            })
-
-            await service.queueUpdateStatusTask({
-              collectionSlug,
-              documentId,
+          if (isTerminalStatus(result?.status)) {
+            // the provider gave up on the video, checking again won't change it
+            req.payload.logger.error({
+              errorReasonCode: result?.status?.errorReasonCode,
+              msg: `${slug}: video failed to process, stopped polling for document ID ${documentId}`,
             })
+          } else if (result?.readyToStream === false) {
+            await requeue('video not ready to stream yet')
           }
         }
+      } else if (doc?.stream?.readyToStream) {
+        // poll generated captions once the video is ready
+        const processing = await service.updateCaptionStatus({ collectionSlug, doc })
+
+        if (processing) {
+          await requeue('captions still being generated')
+        }
       }
 
       return {
@@ -77,6 +146,14 @@ export const updateStreamStatusTask: (adapter: StreamAdapter) => TaskConfig = (a
         type: 'text',
         required: true,
       },
+      {
+        name: 'attempt',
+        type: 'number',
+      },
+      {
+        name: 'pollingStartedAt',
+        type: 'date',
+      },
     ],
     retries: 3,
   }
@@ -0,0 +1,139 @@
+import type { CollectionSlug, PayloadRequest } from 'payload'
+
+import type { StreamAdapter } from './adapters/streamAdapter.js'
+
+export type AnalyticsConfig = {
+  /**
+   * Number of days of daily views kept per video, defaults to 30
+   */
+  days?: number
+  /**
+   * Cron schedule of the sync job, defaults to every night at 02:00
+   */
+  schedule?: string
+}
+
+export type BackfillConfig = {
+  /**
+   * Number of videos a batch queues the copy of, defaults to 5
+   */
+  concurrency?: number
+}
+
+export type CaptionsConfig = {
+  /**
+   * Upload collection the WebVTT files of captions are selected from,
+   * the WebVTT contents are entered as text when not set
+   */
+  uploadCollection?: string
+}
+
+export type DirectUploadsConfig = {
+  /**
+   * Size of the chunks of resumable uploads in bytes, defaults to 50 MiB.
+   * Files larger than a chunk use a resumable upload when the adapter supports it.
+   */
+  chunkSize?: number
+  /**
+   * Maximum duration of directly uploaded videos in seconds
+   */
+  maxDurationSeconds?: number
+}
+
+export type LiveInputsConfig = {
+  /**
+   * Adapter the live inputs are created with, defaults to the default adapter
+   */
+  adapter?: StreamAdapter
+}
+
+export type LiveRecordingsConfig = {
+  /**
+   * Upload collection the recordings are imported into, must be one of the plugin `collections`
+   */
+  collection: CollectionSlug
+  /**
+   * IDs of the live inputs whose recordings are imported
+   */
+  liveInputIds: string[]
+  /**
+   * Cron schedule of the import job, defaults to every 5 minutes
+   */
+  schedule?: string
+}
+
+export type QuotaConfig = {
+  /**
+   * What happens to videos copied while the quota is used up, defaults to `refuse`.
+   * Queued videos are copied by a scheduled job once minutes are available again.
+   */
+  onExceeded?: 'queue' | 'refuse'
+  /**
+   * Minutes kept free on the account, defaults to 0
+   */
+  reserveMinutes?: number
+  /**
+   * Cron schedule of the job copying queued videos, defaults to every 30 minutes
+   */
+  schedule?: string
+}
+
+export type ReconciliationConfig = {
+  /**
+   * Fix the drift found instead of only reporting it, nothing is fixed by default
+   */
+  autoFix?: {
+    /**
+     * Copy the file of documents whose video is missing on the provider again
+     */
+    missing?: boolean
+    /**
+     * Delete the videos linked to no document once the grace period passed
+     */
+    orphans?: boolean
+    /**
+     * Write the status of the provider to documents showing an outdated one
+     */
+    stale?: boolean
+  }
+  /**
+   * Hours a video stays linked to no document before it is deleted, defaults to 24.
+   * Covers videos still being copied, uploaded directly or recorded from live inputs.
+   */
+  orphanGracePeriodHours?: number
+  /**
+   * Cron schedule of the reconciliation job, defaults to every night at 03:00
+   */
+  schedule?: string
+}
+
+export type StatusPollingConfig = {
+  /**
+   * Seconds waited before each status check of a processing video, the last delay repeats.
+   * Defaults to 5, 10, 30, 60, 120 and 300 seconds.
+   */
+  backoffSeconds?: number[]
+  /**
+   * Hours a video may process before polling stops and the document is marked failed, defaults to 24
+   */
+  maxPollingHours?: number
+}
+
+/**
+ * Collection the plugin is enabled on, with the adapter it streams videos to
+ */
+export type StreamCollection = {
+  adapter: StreamAdapter
+  clips?: boolean
+  directUploads?: DirectUploadsConfig
+  slug: string
+  /**
+   * Name of the default watermark profile of the collection
+   */
+  watermark?: string
+}
+
+/**
+ * Access check for the plugin admin views and endpoints
+ */
+export type VideoStreamAccess = (args: { req: PayloadRequest }) => boolean | Promise<boolean>
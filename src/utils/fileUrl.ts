@@ -0,0 +1,72 @@
+import type { JsonObject, PayloadRequest, TypeWithID } from 'payload'
+
+/**
+ * Get a signed url of a file from the storage adapter of its upload collection,
+ * the handlers are called without the access check of the file route so jobs can sign files
+ *
+ * @param req
+ * @param collectionSlug
+ * @param doc
+ * @returns
+ */
+const getSignedFileUrl = async (
+  req: PayloadRequest,
+  collectionSlug: string,
+  doc: JsonObject & TypeWithID,
+): Promise<string> => {
+  const handlers = req.payload.collections[collectionSlug]?.config.upload?.handlers ?? []
+
+  for (const handler of handlers) {
+    const response = await handler(req, {
+      doc,
+      params: { collection: collectionSlug, filename: doc.filename },
+    })
+
+    if (!response) {
+      continue
+    }
+
+    const signedFileUrl = response.headers.get('location')
+
+    if (signedFileUrl) {
+      return signedFileUrl
+    }
+
+    // the storage serves the file itself, e.g. without signed downloads
+    await response.body?.cancel()
+    break
+  }
+
+  throw new Error(
+    `Failed to get a signed URL for ${doc.filename}: the storage of ${collectionSlug} does not sign downloads`,
+  )
+}
+
+/**
+ * Get an url the server can download a file of an upload collection from
+ *
+ * @param req
+ * @param doc
+ * @param signing sign the url with the storage adapter of the collection, e.g. S3 with signed downloads
+ * @returns
+ */
+export const getFileUrl = async (
+  req: PayloadRequest,
+  doc: JsonObject & TypeWithID,
+  signing?: { collectionSlug: string; requireSignedURLs?: boolean },
+): Promise<string> => {
+  // signed when the file is copied, a signed url stored earlier could have expired
+  if (signing?.requireSignedURLs) {
+    return await getSignedFileUrl(req, signing.collectionSlug, doc)
+  }
+
+  let fileUrl = doc.url
+
+  // when fileUrl doesn't start with protocol e.g http or https, prepend host,
+  // jobs run without an incoming request so the configured server url comes first
+  if (!/^https?:\/\//i.test(fileUrl)) {
+    fileUrl = `${req.payload.config?.serverURL || `${req.protocol}//${req.host}`}${doc.url}`
+  }
+
+  return fileUrl
+}
@@ -0,0 +1,11 @@
+/**
+ * Filenames are unique in upload collections, suffix the video ID to avoid conflicts
+ *
+ * @param name
+ * @param videoId
+ * @returns
+ */
+export const getUniqueFilename = (name: string, videoId: string): string => {
+  const extension = /\.[^.]+$/.exec(name)?.[0] ?? ''
+  return `${name.slice(0, name.length - extension.length)}-${videoId}${extension}`
+}
@@ -0,0 +1,53 @@
+import { createPrivateKey, type KeyObject, sign } from 'crypto'
+
+export type JWTPayload = {
+  [key: string]: unknown
+}
+
+const base64url = (input: Buffer | string): string => {
+  return Buffer.from(input).toString('base64url')
+}
+
+/**
+ * Parse a private key that may be PEM encoded, base64 encoded PEM (as returned by Mux and
+ * Cloudflare when creating signing keys) or a JWK JSON string.
+ *
+ * @param key
+ * @returns
+ */
+export const parsePrivateKey = (key: string): KeyObject => {
+  let value = key.trim()
+
+  if (!value.startsWith('-----BEGIN') && !value.startsWith('{')) {
+    value = Buffer.from(value, 'base64').toString('utf8').trim()
+  }
+
+  if (value.startsWith('{')) {
+    return createPrivateKey({ format: 'jwk', key: JSON.parse(value) })
+  }
+
+  return createPrivateKey(value)
+}
+
+/**
+ * Sign a JSON Web Token using RS256
+ *
+ * @param payload
+ * @param privateKey
+ * @param keyId
+ * @returns
+ */
+export const signRS256JWT = (
+  payload: JWTPayload,
+  privateKey: KeyObject | string,
+  keyId: string,
+): string => {
+  const key = typeof privateKey === 'string' ? parsePrivateKey(privateKey) : privateKey
+
+  const header = base64url(JSON.stringify({ alg: 'RS256', kid: keyId, typ: 'JWT' }))
+  const body = base64url(JSON.stringify(payload))
+
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${body}`), key)
+
+  return `${header}.${body}.${base64url(signature)}`
+}
@@ -0,0 +1,23 @@
+import type { StreamFieldData, StreamState } from '../adapters/types.js'
+
+/**
+ * Derive the state of the stream of a document from its stream fields
+ *
+ * @param stream
+ * @returns
+ */
+export const getStreamState = (stream?: null | Partial<StreamFieldData>): StreamState => {
+  if (stream?.readyToStream) {
+    return 'ready'
+  }
+
+  if (stream?.waitingForQuota) {
+    return 'queued'
+  }
+
+  if (stream?.error) {
+    return 'error'
+  }
+
+  return stream?.videoId ? 'processing' : 'pending'
+}
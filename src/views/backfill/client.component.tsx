@@ -0,0 +1,144 @@
+'use client'
+
+import { Button, useConfig } from '@payloadcms/ui'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import styles from './backfill.module.css'
+import { backfillEndpointPath } from './config.js'
+
+type Backfill = {
+  error?: string
+  failed?: number
+  processed?: number
+  queued?: number
+  status: 'completed' | 'failed' | 'running'
+  total?: number
+  waitingForQuota?: number
+}
+
+/**
+ * Interval the progress of a running backfill is refreshed at
+ */
+const pollInterval = 5000
+
+export function StreamBackfillButton({ collectionSlug }: { collectionSlug: string }) {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const [backfill, setBackfill] = useState<Backfill | null>(null)
+  const [remaining, setRemaining] = useState(0)
+  const [allowed, setAllowed] = useState(false)
+  const [error, setError] = useState<null | string>(null)
+  const [loading, setLoading] = useState(false)
+
+  const endpoint = `${serverURL}${api}${backfillEndpointPath}/${collectionSlug}`
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { credentials: 'include' })
+
+      // users without access to the plugin admin don't see the button
+      setAllowed(response.ok)
+
+      if (!response.ok) {
+        return
+      }
+
+      const body = (await response.json()) as { backfill: Backfill | null; remaining: number }
+
+      setBackfill(body.backfill)
+      setRemaining(body.remaining)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }, [endpoint])
+
+  const start = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(endpoint, { credentials: 'include', method: 'POST' })
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body.error || response.statusText)
+      }
+
+      setError(null)
+      await refresh()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const running = backfill?.status === 'running'
+
+  useEffect(() => {
+    if (!running) {
+      return
+    }
+
+    const interval = setInterval(() => void refresh(), pollInterval)
+
+    return () => clearInterval(interval)
+  }, [refresh, running])
+
+  if (!allowed || (!running && !remaining && !error)) {
+    return null
+  }
+
+  const total = backfill?.total ?? 0
+  const processed = backfill?.processed ?? 0
+
+  return (
+    <div className={styles.container}>
+      {running ? (
+        <div className={styles.progress}>
+          <p>
+            Streaming existing videos: {processed} of {total}
+          </p>
+          <div className={styles.bar}>
+            <div
+              className={styles.barFill}
+              style={{ width: `${total ? Math.min(100, (processed / total) * 100) : 0}%` }}
+            />
+          </div>
+          <p className={styles.description}>
+            {backfill?.queued ?? 0} queued for copying, {backfill?.failed ?? 0} failed
+            {backfill?.waitingForQuota ? `, ${backfill.waitingForQuota} waiting for quota` : ''}
+          </p>
+        </div>
+      ) : (
+        <div className={styles.progress}>
+          <p>
+            {remaining} {remaining === 1 ? 'video was' : 'videos were'} never copied to the
+            streaming provider.
+          </p>
+          {backfill?.status === 'failed' ? (
+            <p className={styles.error}>The last backfill failed: {backfill.error}</p>
+          ) : null}
+          {error ? <p className={styles.error}>{error}</p> : null}
+        </div>
+      )}
+      {!running ? (
+        <Button
+          buttonStyle="secondary"
+          disabled={loading}
+          onClick={() => void start()}
+          size="small"
+        >
+          Stream existing videos
+        </Button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type { CustomComponent } from 'payload'
+
+export const backfillEndpointPath = '/video-stream/backfill'
+
+/**
+ * Button above the list view table starting the backfill of the collection
+ *
+ * @param collectionSlug
+ * @returns
+ */
+export const backfillButton = (collectionSlug: string): CustomComponent => {
+  return {
+    clientProps: {
+      collectionSlug,
+    },
+    path: 'payload-video-stream/client#StreamBackfillButton',
+  }
+}
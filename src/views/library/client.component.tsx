@@ -0,0 +1,299 @@
+'use client'
+
+import { Button, useConfig } from '@payloadcms/ui'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import type { LibraryVideo } from '../../endpoints/library.js'
+import type { LibraryProvider } from './config.js'
+
+import { libraryViewPath } from './config.js'
+import styles from './library.module.css'
+
+const formatDuration = (seconds?: number): string => {
+  if (!seconds || seconds < 0) {
+    return '-'
+  }
+
+  const minutes = Math.floor(seconds / 60)
+
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`
+}
+
+export function StreamLibraryNavLink() {
+  const {
+    config: {
+      routes: { admin },
+    },
+  } = useConfig()
+
+  return (
+    <a className={styles.navLink} href={`${admin}${libraryViewPath}`}>
+      Video library
+    </a>
+  )
+}
+
+function ProviderLibrary({ collections, provider }: LibraryProvider) {
+  const {
+    config: {
+      routes: { admin, api },
+      serverURL,
+    },
+  } = useConfig()
+  const [videos, setVideos] = useState<LibraryVideo[]>([])
+  const [nextCursor, setNextCursor] = useState<string | undefined>()
+  const [search, setSearch] = useState('')
+  const [query, setQuery] = useState('')
+  const [linking, setLinking] = useState<null | string>(null)
+  const [linkCollection, setLinkCollection] = useState(collections[0] ?? '')
+  const [linkId, setLinkId] = useState('')
+  const [error, setError] = useState<null | string>(null)
+  const [loading, setLoading] = useState(true)
+
+  const endpoint = `${serverURL}${api}${libraryViewPath}/${provider}`
+
+  const request = useCallback(
+    async (path: string, method: string, body?: unknown) => {
+      const response = await fetch(`${endpoint}${path}`, {
+        body: body ? JSON.stringify(body) : undefined,
+        credentials: 'include',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        method,
+      })
+      const json = await response.json()
+
+      if (!response.ok) {
+        throw new Error(json.error || response.statusText)
+      }
+
+      return json
+    },
+    [endpoint],
+  )
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true)
+
+      try {
+        const params = new URLSearchParams()
+
+        if (query) {
+          params.set('search', query)
+        }
+
+        if (cursor) {
+          params.set('cursor', cursor)
+        }
+
+        const body = (await request(`?${params.toString()}`, 'GET')) as {
+          nextCursor?: string
+          videos: LibraryVideo[]
+        }
+
+        setVideos((videos) => (cursor ? [...videos, ...body.videos] : body.videos))
+        setNextCursor(body.nextCursor)
+        setError(null)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e))
+      } finally {
+        setLoading(false)
+      }
+    },
+    [query, request],
+  )
+
+  const run = async (
+    path: string,
+    method: string,
+    options: { body?: unknown; confirmation?: string } = {},
+  ) => {
+    if (options.confirmation && !window.confirm(options.confirmation)) {
+      return
+    }
+
+    try {
+      await request(path, method, options.body)
+      setLinking(null)
+      setLinkId('')
+      await load()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  return (
+    <section className={styles.provider}>
+      <div className={styles.header}>
+        <h2>{provider}</h2>
+        <form
+          className={styles.search}
+          onSubmit={(event) => {
+            event.preventDefault()
+            setQuery(search.trim())
+          }}
+        >
+          <input
+            aria-label="Search videos"
+            className={styles.input}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search by name"
+            type="search"
+            value={search}
+          />
+          <Button buttonStyle="secondary" disabled={loading} size="small" type="submit">
+            Search
+          </Button>
+        </form>
+      </div>
+      {error ? <p className={styles.error}>{error}</p> : null}
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th aria-label="Thumbnail" />
+            <th>Name</th>
+            <th>Uploaded</th>
+            <th>Duration</th>
+            <th>Documents</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {videos.map((video) => (
+            <tr key={video.videoId}>
+              <td>
+                {video.thumbnail ? (
+                  <img alt="" className={styles.thumbnail} src={video.thumbnail} />
+                ) : null}
+              </td>
+              <td>
+                {video.meta?.name || '-'}
+                <br />
+                <code className={styles.videoId}>{video.videoId}</code>
+                {!video.readyToStream ? (
+                  <span className={styles.badge}>
+                    {video.status?.errorReasonText ? 'Failed' : 'Processing'}
+                  </span>
+                ) : null}
+              </td>
+              <td>{video.created ? new Date(video.created).toLocaleString() : '-'}</td>
+              <td>{formatDuration(video.durationInSeconds)}</td>
+              <td>
+                {video.documents.length ? (
+                  video.documents.map(({ id, collection, filename }) => (
+                    <a
+                      className={styles.document}
+                      href={`${admin}/collections/${collection}/${id}`}
+                      key={`${collection}:${id}`}
+                    >
+                      {filename || id} ({collection})
+                    </a>
+                  ))
+                ) : (
+                  <span className={styles.orphan}>Not linked</span>
+                )}
+              </td>
+              <td>
+                {video.documents.length ? null : linking === video.videoId ? (
+                  <form
+                    className={styles.link}
+                    onSubmit={(event) => {
+                      event.preventDefault()
+                      void run(`/${video.videoId}/link`, 'POST', {
+                        body: { id: linkId.trim(), collection: linkCollection },
+                      })
+                    }}
+                  >
+                    <select
+                      aria-label="Collection"
+                      className={styles.input}
+                      onChange={(event) => setLinkCollection(event.target.value)}
+                      value={linkCollection}
+                    >
+                      {collections.map((collection) => (
+                        <option key={collection} value={collection}>
+                          {collection}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      aria-label="Document ID"
+                      className={styles.input}
+                      onChange={(event) => setLinkId(event.target.value)}
+                      placeholder="Document ID"
+                      required
+                      value={linkId}
+                    />
+                    <Button buttonStyle="primary" disabled={loading} size="small" type="submit">
+                      Link
+                    </Button>
+                    <Button buttonStyle="secondary" onClick={() => setLinking(null)} size="small">
+                      Cancel
+                    </Button>
+                  </form>
+                ) : (
+                  <div className={styles.actions}>
+                    <Button
+                      buttonStyle="secondary"
+                      disabled={loading}
+                      onClick={() => setLinking(video.videoId)}
+                      size="small"
+                    >
+                      Link
+                    </Button>
+                    <Button
+                      buttonStyle="secondary"
+                      disabled={loading}
+                      onClick={() =>
+                        void run(`/${video.videoId}`, 'DELETE', {
+                          confirmation: 'The video will be deleted from the provider. Delete it?',
+                        })
+                      }
+                      size="small"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+          {!videos.length && !loading ? (
+            <tr>
+              <td colSpan={6}>No videos found.</td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+      {nextCursor ? (
+        <Button
+          buttonStyle="secondary"
+          disabled={loading}
+          onClick={() => void load(nextCursor)}
+          size="small"
+        >
+          Load more
+        </Button>
+      ) : null}
+      {loading ? <p className={styles.description}>Loading videos...</p> : null}
+    </section>
+  )
+}
+
+export function StreamLibraryBrowser({ providers }: { providers: LibraryProvider[] }) {
+  if (!providers.length) {
+    return <p>None of the configured adapters supports listing videos.</p>
+  }
+
+  return (
+    <div className={styles.container}>
+      {providers.map((provider) => (
+        <ProviderLibrary key={provider.provider} {...provider} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { AdminViewConfig } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/streamAdapter.js'
+import type { StreamCollection, VideoStreamAccess } from '../../types.js'
+
+export const libraryViewPath = '/video-stream/library'
+
+/**
+ * Provider whose videos are browsed, with the collections its videos can be linked to
+ */
+export type LibraryProvider = {
+  collections: string[]
+  provider: string
+}
+
+/**
+ * Adapters able to list the videos of the provider account
+ *
+ * @param adapters
+ * @returns
+ */
+export const getLibraryAdapters = (adapters: StreamAdapter[]): StreamAdapter[] => {
+  return [...new Set(adapters)].filter((adapter) => 'list' in adapter)
+}
+
+/**
+ * Providers able to list their videos
+ *
+ * @param streamCollections
+ * @returns
+ */
+export const getLibraryProviders = (streamCollections: StreamCollection[]): LibraryProvider[] => {
+  return getLibraryAdapters(streamCollections.map(({ adapter }) => adapter)).map((adapter) => ({
+    collections: streamCollections
+      .filter((collection) => collection.adapter === adapter)
+      .map(({ slug }) => slug),
+    provider: adapter.providerName,
+  }))
+}
+
+export const libraryView = ({
+  access,
+  providers,
+}: {
+  access: VideoStreamAccess
+  providers: LibraryProvider[]
+}): AdminViewConfig => {
+  return {
+    Component: {
+      path: 'payload-video-stream/rsc#StreamLibraryView',
+      serverProps: {
+        access,
+        providers,
+      },
+    },
+    path: libraryViewPath,
+  }
+}
@@ -0,0 +1,48 @@
+import type { AdminViewServerProps } from 'payload'
+
+import { DefaultTemplate } from '@payloadcms/next/templates'
+import { Gutter } from '@payloadcms/ui'
+import { StreamLibraryBrowser } from 'payload-video-stream/client'
+import React from 'react'
+
+import type { VideoStreamAccess } from '../../types.js'
+import type { LibraryProvider } from './config.js'
+
+type Props = {
+  access: VideoStreamAccess
+  providers: LibraryProvider[]
+} & AdminViewServerProps
+
+export async function StreamLibraryView({
+  access,
+  initPageResult,
+  params,
+  providers,
+  searchParams,
+}: Props) {
+  const { locale, permissions, req, visibleEntities } = initPageResult
+
+  const allowed = await access({ req })
+
+  return (
+    <DefaultTemplate
+      i18n={req.i18n}
+      locale={locale}
+      params={params}
+      payload={req.payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={req.user ?? undefined}
+      visibleEntities={visibleEntities}
+    >
+      <Gutter>
+        <h1>Video library</h1>
+        {allowed ? (
+          <StreamLibraryBrowser providers={providers} />
+        ) : (
+          <p>You are not allowed to browse the videos of the streaming providers.</p>
+        )}
+      </Gutter>
+    </DefaultTemplate>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { Button, useConfig } from '@payloadcms/ui'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import type { SigningKeyInfo } from '../../adapters/types.js'
+
+import { signingKeysViewPath } from './config.js'
+import styles from './signingKeys.module.css'
+
+type ProviderSigningKeys = {
+  activeKeyId: null | string
+  keys: SigningKeyInfo[]
+  provider: string
+}
+
+export function SigningKeysNavLink() {
+  const {
+    config: {
+      routes: { admin },
+    },
+  } = useConfig()
+
+  return (
+    <a className={styles.navLink} href={`${admin}${signingKeysViewPath}`}>
+      Signing keys
+    </a>
+  )
+}
+
+export function SigningKeysManager() {
+  const {
+    config: {
+      routes: { api },
+      serverURL,
+    },
+  } = useConfig()
+  const [providers, setProviders] = useState<ProviderSigningKeys[]>([])
+  const [error, setError] = useState<null | string>(null)
+  const [loading, setLoading] = useState(true)
+
+  const endpoint = `${serverURL}${api}${signingKeysViewPath}`
+
+  const request = useCallback(
+    async (path: string, method: string) => {
+      const response = await fetch(`${endpoint}${path}`, { credentials: 'include', method })
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body.error || response.statusText)
+      }
+
+      return body
+    },
+    [endpoint],
+  )
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+
+    try {
+      const body = (await request('', 'GET')) as { providers: ProviderSigningKeys[] }
+      setProviders(body.providers)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [request])
+
+  const run = async (path: string, method: string, confirmation?: string) => {
+    if (confirmation && !window.confirm(confirmation)) {
+      return
+    }
+
+    try {
+      await request(path, method)
+      await refresh()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  if (loading && !providers.length) {
+    return <p>Loading signing keys...</p>
+  }
+
+  return (
+    <div className={styles.container}>
+      {error ? <p className={styles.error}>{error}</p> : null}
+      {!providers.length && !error ? (
+        <p>None of the configured adapters supports signing keys.</p>
+      ) : null}
+      {providers.map(({ activeKeyId, keys, provider }) => (
+        <section className={styles.provider} key={provider}>
+          <div className={styles.header}>
+            <h2>{provider}</h2>
+            <Button
+              buttonStyle="primary"
+              disabled={loading}
+              onClick={() => void run(`/${provider}`, 'POST')}
+              size="small"
+            >
+              {activeKeyId ? 'Rotate key' : 'Create key'}
+            </Button>
+          </div>
+          <p className={styles.description}>
+            New keys become active right away. Previous keys keep working until revoked, revoke them
+            once the tokens signed with them have expired.
+          </p>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Key ID</th>
+                <th>Created</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map(({ id, created }) => (
+                <tr key={id}>
+                  <td>
+                    <code>{id}</code>
+                  </td>
+                  <td>{created ? new Date(created).toLocaleString() : '-'}</td>
+                  <td>{id === activeKeyId ? 'Active' : 'Inactive'}</td>
+                  <td>
+                    {id !== activeKeyId ? (
+                      <Button
+                        buttonStyle="secondary"
+                        disabled={loading}
+                        onClick={() =>
+                          void run(
+                            `/${provider}/${id}`,
+                            'DELETE',
+                            'Videos played with tokens signed by this key will stop working. Revoke it?',
+                          )
+                        }
+                        size="small"
+                      >
+                        Revoke
+                      </Button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+              {!keys.length ? (
+                <tr>
+                  <td colSpan={4}>No signing keys, tokens are requested from the provider API.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  )
+}
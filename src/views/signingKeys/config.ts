@@ -0,0 +1,17 @@
+import type { AdminViewConfig } from 'payload'
+
+import type { VideoStreamAccess } from '../../types.js'
+
+export const signingKeysViewPath = '/video-stream/signing-keys'
+
+export const signingKeysView = (access: VideoStreamAccess): AdminViewConfig => {
+  return {
+    Component: {
+      path: 'payload-video-stream/rsc#SigningKeysView',
+      serverProps: {
+        access,
+      },
+    },
+    path: signingKeysViewPath,
+  }
+}
@@ -0,0 +1,40 @@
+import type { AdminViewServerProps } from 'payload'
+
+import { DefaultTemplate } from '@payloadcms/next/templates'
+import { Gutter } from '@payloadcms/ui'
+import { SigningKeysManager } from 'payload-video-stream/client'
+import React from 'react'
+
+import type { VideoStreamAccess } from '../../types.js'
+
+type Props = {
+  access: VideoStreamAccess
+} & AdminViewServerProps
+
+export async function SigningKeysView({ access, initPageResult, params, searchParams }: Props) {
+  const { locale, permissions, req, visibleEntities } = initPageResult
+
+  const allowed = await access({ req })
+
+  return (
+    <DefaultTemplate
+      i18n={req.i18n}
+      locale={locale}
+      params={params}
+      payload={req.payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={req.user ?? undefined}
+      visibleEntities={visibleEntities}
+    >
+      <Gutter>
+        <h1>Signing keys</h1>
+        {allowed ? (
+          <SigningKeysManager />
+        ) : (
+          <p>You are not allowed to manage the video stream signing keys.</p>
+        )}
+      </Gutter>
+    </DefaultTemplate>
+  )
+}
@@ -0,0 +1,21 @@
+'use client'
+
+import { useConfig } from '@payloadcms/ui'
+import React from 'react'
+
+import { usageViewPath } from './config.js'
+import styles from './usage.module.css'
+
+export function StreamUsageNavLink() {
+  const {
+    config: {
+      routes: { admin },
+    },
+  } = useConfig()
+
+  return (
+    <a className={styles.navLink} href={`${admin}${usageViewPath}`}>
+      Streaming usage
+    </a>
+  )
+}
@@ -0,0 +1,35 @@
+import type { AdminViewConfig } from 'payload'
+
+import type { StreamAdapter } from '../../adapters/streamAdapter.js'
+import type { VideoStreamAccess } from '../../types.js'
+
+export const usageViewPath = '/video-stream/usage'
+
+/**
+ * Adapters reporting the storage usage of their account
+ *
+ * @param adapters
+ * @returns
+ */
+export const getUsageAdapters = (adapters: StreamAdapter[]): StreamAdapter[] => {
+  return [...new Set(adapters)].filter((adapter) => 'getStorageUsage' in adapter)
+}
+
+export const usageView = ({
+  access,
+  adapters,
+}: {
+  access: VideoStreamAccess
+  adapters: StreamAdapter[]
+}): AdminViewConfig => {
+  return {
+    Component: {
+      path: 'payload-video-stream/rsc#StreamUsageView',
+      serverProps: {
+        access,
+        adapters,
+      },
+    },
+    path: usageViewPath,
+  }
+}
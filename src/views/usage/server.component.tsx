@@ -0,0 +1,116 @@
+import type { AdminViewServerProps } from 'payload'
+
+import { DefaultTemplate } from '@payloadcms/next/templates'
+import { Gutter } from '@payloadcms/ui'
+import React from 'react'
+
+import type { StreamAdapter } from '../../adapters/streamAdapter.js'
+import type { StorageUsage } from '../../adapters/types.js'
+import type { VideoStreamAccess } from '../../types.js'
+
+import styles from './usage.module.css'
+
+type Props = {
+  access: VideoStreamAccess
+  adapters: StreamAdapter[]
+} & AdminViewServerProps
+
+type ProviderUsage = {
+  error?: string
+  provider: string
+  usage?: StorageUsage
+}
+
+const formatMinutes = (minutes: number): string => Math.round(minutes).toLocaleString()
+
+function UsageBar({ limitMinutes, usedMinutes }: StorageUsage) {
+  if (limitMinutes === undefined) {
+    return <p className={styles.description}>No quota, storage is billed by usage.</p>
+  }
+
+  const pct = limitMinutes > 0 ? Math.min(100, (usedMinutes / limitMinutes) * 100) : 100
+
+  return (
+    <>
+      <div className={styles.bar}>
+        <div
+          className={`${styles.barFill} ${pct >= 90 ? styles.barFillWarning : ''}`}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+      <p className={styles.description}>
+        {formatMinutes(Math.max(0, limitMinutes - usedMinutes))} minutes available
+      </p>
+    </>
+  )
+}
+
+export async function StreamUsageView({
+  access,
+  adapters,
+  initPageResult,
+  params,
+  searchParams,
+}: Props) {
+  const { locale, permissions, req, visibleEntities } = initPageResult
+
+  const allowed = await access({ req })
+
+  const providers: ProviderUsage[] = allowed
+    ? await Promise.all(
+        adapters.map(async (adapter) => {
+          try {
+            return { provider: adapter.providerName, usage: await adapter.getStorageUsage?.() }
+          } catch (error) {
+            return {
+              error: error instanceof Error ? error.message : String(error),
+              provider: adapter.providerName,
+            }
+          }
+        }),
+      )
+    : []
+
+  return (
+    <DefaultTemplate
+      i18n={req.i18n}
+      locale={locale}
+      params={params}
+      payload={req.payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={req.user ?? undefined}
+      visibleEntities={visibleEntities}
+    >
+      <Gutter>
+        <h1>Streaming usage</h1>
+        {allowed ? (
+          <div className={styles.container}>
+            {providers.map(({ error, provider, usage }) => (
+              <section className={styles.provider} key={provider}>
+                <h2>{provider}</h2>
+                {usage ? (
+                  <>
+                    <p className={styles.minutes}>
+                      {formatMinutes(usage.usedMinutes)}
+                      {usage.limitMinutes !== undefined
+                        ? ` / ${formatMinutes(usage.limitMinutes)}`
+                        : ''}{' '}
+                      minutes used
+                      {usage.videoCount !== undefined ? ` by ${usage.videoCount} videos` : ''}
+                    </p>
+                    <UsageBar {...usage} />
+                  </>
+                ) : (
+                  <p className={styles.error}>{error || 'Usage not available.'}</p>
+                )}
+              </section>
+            ))}
+          </div>
+        ) : (
+          <p>You are not allowed to view the streaming usage.</p>
+        )}
+      </Gutter>
+    </DefaultTemplate>
+  )
+}